@@ -0,0 +1,146 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { cache } from "react";
+import { getPayload } from "payload";
+import configPromise from "@payload-config";
+import { findFallbacks } from "@/lib/locale-fallbacks";
+import { type Locale, localeHref } from "@/lib/localized-paths";
+import { findPublishedPosts, parsePageParam } from "@/lib/posts";
+import FallbackBadge from "../../../components/FallbackBadge";
+import FeedLinks from "../../../components/FeedLinks";
+import MediaImage from "../../../components/MediaImage";
+import Pagination from "../../../components/Pagination";
+import PostCard from "../../../components/PostCard";
+import SiteHeader from "../../../components/SiteHeader";
+import { pageLocale } from "../../../locale";
+
+// ============================================================================
+// /authors/[id] - Author profile with their published posts
+// ============================================================================
+
+// Cached for the request: `generateMetadata` and the page share the lookup
+const findAuthor = cache(async (id: string, locale: Locale) => {
+  const payload = await getPayload({ config: configPromise });
+  return payload.findByID({
+    collection: "authors",
+    id,
+    depth: 1,
+    locale,
+    disableErrors: true,
+  });
+});
+
+type Params = Promise<{ locale: string; id: string }>;
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Params;
+}): Promise<Metadata> {
+  const locale = await pageLocale(params);
+  const author = await findAuthor((await params).id, locale);
+  if (!author) return {};
+
+  return {
+    title: author.name,
+    description: author.bio || undefined,
+    alternates: {
+      canonical: localeHref(`/authors/${author.id}`, locale),
+    },
+    openGraph: { type: "profile", title: author.name },
+  };
+}
+
+export default async function AuthorPage({
+  params,
+  searchParams,
+}: {
+  params: Params;
+  searchParams: Promise<{ page?: string | string[] }>;
+}) {
+  const locale = await pageLocale(params);
+  const { id } = await params;
+  const page = parsePageParam((await searchParams).page);
+  const payload = await getPayload({ config: configPromise });
+
+  const author = await findAuthor(id, locale);
+  if (!author) notFound();
+
+  const posts = await findPublishedPosts(payload, {
+    page,
+    where: { author: { equals: author.id } },
+    locale,
+  });
+  const [authorFallbacks, fallbacks] = await Promise.all([
+    findFallbacks(payload, {
+      collection: "authors",
+      docs: [author],
+      locale,
+      fields: ["name"],
+    }),
+    findFallbacks(payload, {
+      collection: "posts",
+      docs: posts.docs,
+      locale,
+      fields: ["title", "excerpt"],
+    }),
+  ]);
+
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-zinc-950">
+      <SiteHeader locale={locale} path={`/authors/${author.id}`} />
+      <main className="mx-auto max-w-4xl px-4 py-10 sm:px-6 lg:px-8">
+        <header className="mb-10 flex items-center gap-6">
+          <MediaImage
+            media={author.avatar}
+            size="thumbnail"
+            className="h-20 w-20 rounded-full object-cover"
+            fallback={
+              <div className="flex h-20 w-20 items-center justify-center rounded-full bg-indigo-100 text-3xl text-indigo-600 dark:bg-indigo-900 dark:text-indigo-300">
+                {author.name?.charAt(0)?.toUpperCase() || "?"}
+              </div>
+            }
+          />
+          <div>
+            <h1 className="text-3xl font-bold text-zinc-900 dark:text-zinc-100">
+              {author.name}
+              <FallbackBadge
+                fields={authorFallbacks[author.id]}
+                className="ml-3 align-middle"
+              />
+            </h1>
+            {author.bio && (
+              <p className="mt-2 text-zinc-600 dark:text-zinc-400">
+                {author.bio}
+              </p>
+            )}
+            <FeedLinks locale={locale} query={`author=${author.id}`} />
+          </div>
+        </header>
+
+        {posts.docs.length === 0 ? (
+          <p className="text-zinc-500 italic dark:text-zinc-400">
+            No published posts by {author.name} yet.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+            {posts.docs.map((post) => (
+              <PostCard
+                key={post.id}
+                post={post}
+                locale={locale}
+                fallbacks={fallbacks[post.id]}
+              />
+            ))}
+          </div>
+        )}
+
+        <Pagination
+          basePath={localeHref(`/authors/${author.id}`, locale)}
+          page={posts.page ?? page}
+          totalPages={posts.totalPages}
+        />
+      </main>
+    </div>
+  );
+}
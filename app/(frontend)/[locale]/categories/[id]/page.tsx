@@ -0,0 +1,186 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import { cache } from "react";
+import { getPayload } from "payload";
+import configPromise from "@payload-config";
+import { findFallbacks } from "@/lib/locale-fallbacks";
+import { type Locale, localeHref } from "@/lib/localized-paths";
+import {
+  findPublishedPosts,
+  parsePageParam,
+  postsInCategoryWhere,
+} from "@/lib/posts";
+import CategoryTree from "../../../components/CategoryTree";
+import FallbackBadge from "../../../components/FallbackBadge";
+import FeedLinks from "../../../components/FeedLinks";
+import Pagination from "../../../components/Pagination";
+import PostCard from "../../../components/PostCard";
+import SiteHeader from "../../../components/SiteHeader";
+import { pageLocale } from "../../../locale";
+
+// ============================================================================
+// /categories/[id] - Published posts filed under a category or any of its
+// subcategories
+// ============================================================================
+
+// Cached for the request: `generateMetadata` and the page share the lookup
+const findCategory = cache(async (id: string, locale: Locale) => {
+  const payload = await getPayload({ config: configPromise });
+  return payload.findByID({
+    collection: "categories",
+    id,
+    depth: 0,
+    locale,
+    disableErrors: true,
+  });
+});
+
+type Params = Promise<{ locale: string; id: string }>;
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Params;
+}): Promise<Metadata> {
+  const locale = await pageLocale(params);
+  const category = await findCategory((await params).id, locale);
+  if (!category) return {};
+
+  return {
+    // The full path ("News / Releases") tells nested categories apart
+    title:
+      (category.breadcrumbs ?? []).map((crumb) => crumb.title).join(" / ") ||
+      category.title,
+    description: category.description || undefined,
+    alternates: {
+      canonical: localeHref(`/categories/${category.id}`, locale),
+    },
+  };
+}
+
+export default async function CategoryPage({
+  params,
+  searchParams,
+}: {
+  params: Params;
+  searchParams: Promise<{ page?: string | string[] }>;
+}) {
+  const locale = await pageLocale(params);
+  const { id } = await params;
+  const page = parsePageParam((await searchParams).page);
+  const payload = await getPayload({ config: configPromise });
+
+  const category = await findCategory(id, locale);
+  if (!category) notFound();
+
+  const [posts, subcategories] = await Promise.all([
+    findPublishedPosts(payload, {
+      page,
+      where: postsInCategoryWhere(category.id),
+      locale,
+    }),
+    payload.find({
+      collection: "categories",
+      where: { ancestors: { in: [category.id] } },
+      sort: "path",
+      depth: 0,
+      pagination: false,
+      locale,
+    }),
+  ]);
+  const [categoryFallbacks, fallbacks] = await Promise.all([
+    findFallbacks(payload, {
+      collection: "categories",
+      docs: [category],
+      locale,
+      fields: ["title"],
+    }),
+    findFallbacks(payload, {
+      collection: "posts",
+      docs: posts.docs,
+      locale,
+      fields: ["title", "excerpt"],
+    }),
+  ]);
+  const ancestors = (category.breadcrumbs ?? []).slice(0, -1);
+
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-zinc-950">
+      <SiteHeader locale={locale} path={`/categories/${category.id}`} />
+      <main className="mx-auto max-w-4xl px-4 py-10 sm:px-6 lg:px-8">
+        <header className="mb-10">
+          <nav
+            aria-label="Breadcrumb"
+            className="flex flex-wrap items-center gap-1 text-sm font-medium uppercase tracking-wide text-indigo-600 dark:text-indigo-400"
+          >
+            <span>Category</span>
+            {ancestors.map((crumb) => (
+              <span key={crumb.category} className="flex items-center gap-1">
+                <span className="text-zinc-400">/</span>
+                <Link
+                  href={localeHref(`/categories/${crumb.category}`, locale)}
+                  className="hover:underline"
+                >
+                  {crumb.title}
+                </Link>
+              </span>
+            ))}
+          </nav>
+          <h1 className="mt-1 text-3xl font-bold text-zinc-900 dark:text-zinc-100">
+            {category.title}
+            <FallbackBadge
+              fields={categoryFallbacks[category.id]}
+              className="ml-3 align-middle"
+            />
+          </h1>
+          {category.description && (
+            <p className="mt-2 text-zinc-600 dark:text-zinc-400">
+              {category.description}
+            </p>
+          )}
+          <p className="mt-2 text-sm text-zinc-500 dark:text-zinc-400">
+            {posts.totalDocs} published{" "}
+            {posts.totalDocs === 1 ? "post" : "posts"}
+            {subcategories.totalDocs > 0 && ", including subcategories"}
+          </p>
+          <FeedLinks locale={locale} query={`category=${category.id}`} />
+        </header>
+
+        {subcategories.docs.length > 0 && (
+          <section className="mb-10">
+            <h2 className="mb-3 text-sm font-semibold uppercase tracking-wide text-zinc-500 dark:text-zinc-400">
+              Subcategories
+            </h2>
+            {/* This category isn't in the list, so its direct children
+                become the top level of the tree */}
+            <CategoryTree categories={subcategories.docs} locale={locale} />
+          </section>
+        )}
+
+        {posts.docs.length === 0 ? (
+          <p className="text-zinc-500 italic dark:text-zinc-400">
+            No published posts in this category yet.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+            {posts.docs.map((post) => (
+              <PostCard
+                key={post.id}
+                post={post}
+                locale={locale}
+                fallbacks={fallbacks[post.id]}
+              />
+            ))}
+          </div>
+        )}
+
+        <Pagination
+          basePath={localeHref(`/categories/${category.id}`, locale)}
+          page={posts.page ?? page}
+          totalPages={posts.totalPages}
+        />
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+import { getPayload } from "payload";
+import configPromise from "@payload-config";
+import { feedResponse } from "@/lib/feeds";
+
+// GET /{locale}/feed.json, e.g. /zh/feed.json - see lib/feeds.ts
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ locale: string }> }
+) {
+  const { locale } = await params;
+  const payload = await getPayload({ config: configPromise });
+  return feedResponse(payload, request, { format: "json", locale });
+}
@@ -0,0 +1,52 @@
+import type { Metadata } from "next";
+import { Geist, Geist_Mono } from "next/font/google";
+import { headers } from "next/headers";
+import { siteMetadata } from "@/lib/seo";
+import { resolveServerURL } from "@/lib/server-url";
+import { findSiteSettings, pageLocale } from "../locale";
+import "../globals.css";
+
+const geistSans = Geist({
+  variable: "--font-geist-sans",
+  subsets: ["latin"],
+});
+
+const geistMono = Geist_Mono({
+  variable: "--font-geist-mono",
+  subsets: ["latin"],
+});
+
+type Params = Promise<{ locale: string }>;
+
+// Site-wide defaults from the site-settings global in the page's locale;
+// pages add their own title, description and Open Graph data on top (see
+// lib/seo.ts)
+export async function generateMetadata({
+  params,
+}: {
+  params: Params;
+}): Promise<Metadata> {
+  const locale = await pageLocale(params);
+  const settings = await findSiteSettings(locale);
+  return siteMetadata(settings, resolveServerURL(await headers()), locale);
+}
+
+export default async function RootLayout({
+  children,
+  params,
+}: Readonly<{
+  children: React.ReactNode;
+  params: Params;
+}>) {
+  const locale = await pageLocale(params);
+
+  return (
+    <html lang={locale}>
+      <body
+        className={`${geistSans.variable} ${geistMono.variable} antialiased`}
+      >
+        {children}
+      </body>
+    </html>
+  );
+}
@@ -1,21 +1,40 @@
 import { getPayload } from "payload";
 import configPromise from "@payload-config";
 import { headers } from "next/headers";
+import Link from "next/link";
+import { findFallbacks } from "@/lib/locale-fallbacks";
+import { type Locale, localeHref } from "@/lib/localized-paths";
+import { resolveServerURL } from "@/lib/server-url";
+import CategoryTree from "../components/CategoryTree";
+import FallbackBadge from "../components/FallbackBadge";
+import LocaleSwitcher from "../components/LocaleSwitcher";
+import SearchBox from "../components/SearchBox";
+import MediaImage, { type ImageSize } from "../components/MediaImage";
+import { findSiteSettings, pageLocale } from "../locale";
 
 // ============================================================================
 // Types for our data (using string | number for id to match Payload types)
 // ============================================================================
+interface Media {
+  id: string | number;
+  alt: string;
+  url?: string | null;
+  sizes?: Partial<Record<ImageSize, { url?: string | null }>>;
+}
+
 interface Author {
   id: string | number;
   name: string;
   bio?: string | null;
-  avatar?: string | null;
+  avatar?: Media | string | number | null;
 }
 
 interface Category {
   id: string | number;
   title: string;
   description?: string | null;
+  parent?: Category | string | number | null;
+  path?: string | null;
 }
 
 interface Post {
@@ -23,7 +42,8 @@ interface Post {
   title: string;
   slug: string;
   excerpt?: string | null;
-  status?: "draft" | "published" | null;
+  featuredImage?: Media | string | number | null;
+  _status?: "draft" | "published" | null;
   publishedOn?: string | null;
   author?: Author | string | number | null;
   categories?: (Category | string | number)[] | null;
@@ -33,7 +53,19 @@ interface PostStats {
   total: number;
   published: number;
   draft: number;
+  archived: number;
+  localeCompleteness: {
+    locale: string;
+    complete: number;
+    missing: number;
+    percent: number;
+  }[];
+  publishedOverTime: {
+    interval: "day" | "week" | "month";
+    series: { period: string; count: number }[];
+  };
   timestamp: string;
+  cached: boolean;
 }
 
 interface GraphQLResponse {
@@ -50,26 +82,47 @@ interface GraphQLResponse {
 // ============================================================================
 
 async function getBaseUrlFromRequestHeaders(): Promise<string> {
-  const h = await headers();
-
-  const proto = h.get("x-forwarded-proto") ?? "http";
-  const host = h.get("x-forwarded-host") ?? h.get("host");
-  if (host) {
-    return `${proto}://${host}`;
-  }
-
-  return process.env.NEXT_PUBLIC_SERVER_URL || "http://localhost:3000";
+  return resolveServerURL(await headers());
 }
 
-// LOCAL API - Direct database access (most performant)
-async function fetchWithLocalAPI() {
+// LOCAL API - Direct database access (most performant). Reads in `locale`
+// fall back to the default locale; `fallbacks` says which fields did.
+async function fetchWithLocalAPI(locale: Locale) {
   const payload = await getPayload({ config: configPromise });
 
   const [authors, posts, categories] = await Promise.all([
-    payload.find({ collection: "authors", limit: 10 }),
-    payload.find({ collection: "posts", limit: 10, depth: 1 }),
-    payload.find({ collection: "categories", limit: 10 }),
+    payload.find({ collection: "authors", limit: 10, locale }),
+    payload.find({ collection: "posts", limit: 10, depth: 1, locale }),
+    // Sorted by path so every subcategory follows its parent
+    payload.find({
+      collection: "categories",
+      limit: 100,
+      sort: "path",
+      depth: 0,
+      locale,
+    }),
   ]);
+  const [authorFallbacks, postFallbacks, categoryFallbacks] =
+    await Promise.all([
+      findFallbacks(payload, {
+        collection: "authors",
+        docs: authors.docs,
+        locale,
+        fields: ["name"],
+      }),
+      findFallbacks(payload, {
+        collection: "posts",
+        docs: posts.docs,
+        locale,
+        fields: ["title", "excerpt"],
+      }),
+      findFallbacks(payload, {
+        collection: "categories",
+        docs: categories.docs,
+        locale,
+        fields: ["title"],
+      }),
+    ]);
 
   return {
     authors: authors.docs as Author[],
@@ -78,31 +131,39 @@ async function fetchWithLocalAPI() {
     totalAuthors: authors.totalDocs,
     totalPosts: posts.totalDocs,
     totalCategories: categories.totalDocs,
+    fallbacks: {
+      authors: authorFallbacks,
+      posts: postFallbacks,
+      categories: categoryFallbacks,
+    },
   };
 }
 
-// GRAPHQL - Query via GraphQL endpoint
-async function fetchWithGraphQL(baseUrl: string): Promise<GraphQLResponse> {
+// GRAPHQL - Query via GraphQL endpoint, in the page's locale
+async function fetchWithGraphQL(
+  baseUrl: string,
+  locale: Locale
+): Promise<GraphQLResponse> {
   const query = `
-    query DashboardData {
-      Authors(limit: 10) {
+    query DashboardData($locale: LocaleInputType) {
+      Authors(limit: 10, locale: $locale) {
         docs {
           id
           name
           bio
         }
       }
-      Posts(limit: 10) {
+      Posts(limit: 10, locale: $locale) {
         docs {
           id
           title
           slug
           excerpt
-          status
+          _status
           publishedOn
         }
       }
-      Categories(limit: 10) {
+      Categories(limit: 10, locale: $locale) {
         docs {
           id
           title
@@ -116,7 +177,7 @@ async function fetchWithGraphQL(baseUrl: string): Promise<GraphQLResponse> {
     const response = await fetch(`${baseUrl}/api/graphql`, {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({ query }),
+      body: JSON.stringify({ query, variables: { locale } }),
       cache: "no-store",
     });
 
@@ -130,7 +191,7 @@ async function fetchWithGraphQL(baseUrl: string): Promise<GraphQLResponse> {
 // REST API - Fetch via custom endpoint
 async function fetchPostStats(baseUrl: string): Promise<PostStats | null> {
   try {
-    const response = await fetch(`${baseUrl}/api/posts/stats`, {
+    const response = await fetch(`${baseUrl}/api/posts/stats?interval=week`, {
       cache: "no-store",
     });
 
@@ -166,14 +227,54 @@ function Card({
   );
 }
 
+// Change between the last two periods of a series, e.g. "+2 vs last week"
+interface Trend {
+  series: number[];
+  period: string;
+}
+
+function TrendLine({ series, period }: Trend) {
+  const current = series[series.length - 1] ?? 0;
+  const previous = series[series.length - 2] ?? 0;
+  const delta = current - previous;
+  const max = Math.max(1, ...series);
+
+  const color =
+    delta > 0
+      ? "text-green-600 dark:text-green-400"
+      : delta < 0
+        ? "text-red-600 dark:text-red-400"
+        : "text-zinc-500 dark:text-zinc-400";
+
+  return (
+    <div className="mt-2 flex items-end gap-3">
+      <div className="flex h-6 items-end gap-0.5" aria-hidden>
+        {series.map((count, index) => (
+          <span
+            key={index}
+            className="w-1.5 rounded-sm bg-indigo-300 dark:bg-indigo-700"
+            style={{ height: `${Math.max(8, (count / max) * 100)}%` }}
+          />
+        ))}
+      </div>
+      <p className={`text-xs font-medium ${color}`}>
+        {delta > 0 ? "▲" : delta < 0 ? "▼" : "■"} {delta > 0 ? "+" : ""}
+        {delta} vs last {period}
+      </p>
+    </div>
+  );
+}
+
 function StatCard({
   label,
   value,
   icon,
+  trend,
 }: {
   label: string;
   value: number | string;
   icon: string;
+  trend?: Trend;
 }) {
   return (
     <div className="flex items-center gap-4 rounded-lg border border-zinc-200 bg-zinc-50 p-4 dark:border-zinc-700 dark:bg-zinc-800">
@@ -183,6 +284,7 @@ function StatCard({
           {value}
         </p>
         <p className="text-sm text-zinc-500 dark:text-zinc-400">{label}</p>
+        {trend && trend.series.length > 1 && <TrendLine {...trend} />}
       </div>
     </div>
   );
@@ -238,8 +340,14 @@ function SectionHeader({
 // Main Dashboard Page
 // ============================================================================
 
-export default async function PayloadDashboard() {
+export default async function PayloadDashboard({
+  params,
+}: {
+  params: Promise<{ locale: string }>;
+}) {
+  const locale = await pageLocale(params);
   const baseUrl = await getBaseUrlFromRequestHeaders();
+  const settings = await findSiteSettings(locale);
 
   // Fetch data using different methods
   let localData: Awaited<ReturnType<typeof fetchWithLocalAPI>> = {
@@ -249,18 +357,19 @@ export default async function PayloadDashboard() {
     totalAuthors: 0,
     totalPosts: 0,
     totalCategories: 0,
+    fallbacks: { authors: {}, posts: {}, categories: {} },
   };
   let localError: string | null = null;
 
   try {
-    localData = await fetchWithLocalAPI();
+    localData = await fetchWithLocalAPI(locale);
   } catch (e) {
     console.error("Local API error:", e);
     localError =
       "Payload is not started yet, or the database is unavailable. Start the dev server and ensure migrations can run.";
   }
 
-  const graphqlData = await fetchWithGraphQL(baseUrl);
+  const graphqlData = await fetchWithGraphQL(baseUrl, locale);
   const postStats = await fetchPostStats(baseUrl);
 
   return (
@@ -271,18 +380,31 @@ export default async function PayloadDashboard() {
           <div className="flex items-center justify-between">
             <div>
               <h1 className="text-3xl font-bold text-zinc-900 dark:text-zinc-100">
-                🚀 Payload + Next.js Dashboard
+                🚀 {settings.siteName}
               </h1>
               <p className="mt-1 text-zinc-600 dark:text-zinc-400">
-                Showcasing Payload CMS integration with Next.js 15
+                {settings.tagline ||
+                  "Showcasing Payload CMS integration with Next.js 15"}
               </p>
             </div>
-            <a
-              href="/admin"
-              className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-500 transition-colors"
-            >
-              Open Admin Panel →
-            </a>
+            <div className="flex items-center gap-3">
+              <SearchBox locale={locale} className="hidden w-64 md:block" />
+              <div className="text-sm font-medium text-zinc-600 dark:text-zinc-400">
+                <LocaleSwitcher locale={locale} path="/" />
+              </div>
+              <Link
+                href={localeHref("/posts", locale)}
+                className="rounded-lg border border-zinc-200 px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-100 transition-colors dark:border-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-800"
+              >
+                Read the Blog
+              </Link>
+              <a
+                href="/admin"
+                className="rounded-lg bg-indigo-600 px-4 py-2 text-sm font-medium text-white hover:bg-indigo-500 transition-colors"
+              >
+                Open Admin Panel →
+              </a>
+            </div>
           </div>
         </div>
       </header>
@@ -320,6 +442,16 @@ export default async function PayloadDashboard() {
               icon="✅"
               label="Published"
               value={postStats?.published ?? 0}
+              trend={
+                postStats
+                  ? {
+                      series: postStats.publishedOverTime.series.map(
+                        (entry) => entry.count
+                      ),
+                      period: postStats.publishedOverTime.interval,
+                    }
+                  : undefined
+              }
             />
           </div>
         </section>
@@ -346,13 +478,27 @@ export default async function PayloadDashboard() {
                       key={author.id}
                       className="flex items-center gap-3 rounded-lg bg-zinc-50 p-3 dark:bg-zinc-800"
                     >
-                      <div className="flex h-10 w-10 items-center justify-center rounded-full bg-indigo-100 text-indigo-600 dark:bg-indigo-900 dark:text-indigo-300">
-                        {author.name?.charAt(0)?.toUpperCase() || "?"}
-                      </div>
+                      <MediaImage
+                        media={author.avatar}
+                        size="thumbnail"
+                        className="h-10 w-10 rounded-full object-cover"
+                        fallback={
+                          <div className="flex h-10 w-10 items-center justify-center rounded-full bg-indigo-100 text-indigo-600 dark:bg-indigo-900 dark:text-indigo-300">
+                            {author.name?.charAt(0)?.toUpperCase() || "?"}
+                          </div>
+                        }
+                      />
                       <div>
-                        <p className="font-medium text-zinc-900 dark:text-zinc-100">
+                        <Link
+                          href={localeHref(`/authors/${author.id}`, locale)}
+                          className="font-medium text-zinc-900 hover:text-indigo-600 dark:text-zinc-100"
+                        >
                           {author.name}
-                        </p>
+                        </Link>
+                        <FallbackBadge
+                          fields={localData.fallbacks.authors[Number(author.id)]}
+                          className="ml-2 align-middle"
+                        />
                         {author.bio && (
                           <p className="text-sm text-zinc-500 dark:text-zinc-400 truncate max-w-[200px]">
                             {author.bio}
@@ -378,17 +524,39 @@ export default async function PayloadDashboard() {
                       key={post.id}
                       className="rounded-lg bg-zinc-50 p-3 dark:bg-zinc-800"
                     >
+                      <MediaImage
+                        media={post.featuredImage}
+                        size="card"
+                        className="mb-3 aspect-video w-full rounded-md object-cover"
+                      />
                       <div className="flex items-start justify-between">
-                        <p className="font-medium text-zinc-900 dark:text-zinc-100">
-                          {post.title}
-                        </p>
-                        <Badge
-                          variant={
-                            post.status === "published" ? "success" : "warning"
-                          }
-                        >
-                          {post.status}
-                        </Badge>
+                        {/* Drafts have no public page yet */}
+                        {post._status === "published" ? (
+                          <Link
+                            href={localeHref(`/posts/${post.slug}`, locale)}
+                            className="font-medium text-zinc-900 hover:text-indigo-600 dark:text-zinc-100"
+                          >
+                            {post.title}
+                          </Link>
+                        ) : (
+                          <p className="font-medium text-zinc-900 dark:text-zinc-100">
+                            {post.title}
+                          </p>
+                        )}
+                        <div className="flex shrink-0 items-center gap-1">
+                          <FallbackBadge
+                            fields={localData.fallbacks.posts[Number(post.id)]}
+                          />
+                          <Badge
+                            variant={
+                              post._status === "published"
+                                ? "success"
+                                : "warning"
+                            }
+                          >
+                            {post._status ?? "draft"}
+                          </Badge>
+                        </div>
                       </div>
                       {post.excerpt && (
                         <p className="mt-1 text-sm text-zinc-500 dark:text-zinc-400 line-clamp-2">
@@ -408,16 +576,11 @@ export default async function PayloadDashboard() {
                   No categories yet. Create one in the admin panel!
                 </p>
               ) : (
-                <div className="flex flex-wrap gap-2">
-                  {localData.categories.map((cat) => (
-                    <span
-                      key={cat.id}
-                      className="inline-flex items-center rounded-full bg-indigo-100 px-3 py-1 text-sm font-medium text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200"
-                    >
-                      {cat.title}
-                    </span>
-                  ))}
-                </div>
+                <CategoryTree
+                  categories={localData.categories}
+                  locale={locale}
+                  fallbacks={localData.fallbacks.categories}
+                />
               )}
             </Card>
           </div>
@@ -440,7 +603,8 @@ const posts = await payload.find({
   collection: "posts",
   limit: 10,
   depth: 1, // Populate relationships
-  where: { status: { equals: "published" } },
+  locale: "zh", // Untranslated fields fall back to "en"
+  where: { _status: { equals: "published" } },
 });`}</code>
             </pre>
           </Card>
@@ -497,14 +661,14 @@ const posts = await payload.find({
               <pre className="overflow-x-auto rounded-lg bg-zinc-900 p-4 text-sm text-zinc-100">
                 <code>{`// GraphQL Query
 const query = \`
-  query DashboardData {
-    Authors(limit: 10) {
+  query DashboardData($locale: LocaleInputType) {
+    Authors(limit: 10, locale: $locale) {
       docs { id, name, bio }
     }
-    Posts(limit: 10) {
-      docs { id, title, status }
+    Posts(limit: 10, locale: $locale) {
+      docs { id, title, _status }
     }
-    Categories(limit: 10) {
+    Categories(limit: 10, locale: $locale) {
       docs { id, title }
     }
   }
@@ -513,7 +677,7 @@ const query = \`
 const response = await fetch("/api/graphql", {
   method: "POST",
   headers: { "Content-Type": "application/json" },
-  body: JSON.stringify({ query }),
+  body: JSON.stringify({ query, variables: { locale: "zh" } }),
 });`}</code>
               </pre>
             </Card>
@@ -559,8 +723,19 @@ const response = await fetch("/api/graphql", {
                       </p>
                     </div>
                   </div>
+                  <div className="flex flex-wrap gap-2">
+                    {postStats.localeCompleteness.map((entry) => (
+                      <span
+                        key={entry.locale}
+                        className="rounded-full bg-zinc-100 px-3 py-1 text-xs text-zinc-600 dark:bg-zinc-800 dark:text-zinc-300"
+                      >
+                        {entry.locale.toUpperCase()}: {entry.percent}% translated
+                      </span>
+                    ))}
+                  </div>
                   <p className="text-xs text-zinc-400 dark:text-zinc-500">
                     Last updated: {postStats.timestamp}
+                    {postStats.cached && " (cached)"}
                   </p>
                 </div>
               ) : (
@@ -586,7 +761,7 @@ const postsStatsEndpoint: Endpoint = {
     return Response.json({
       total: posts.totalDocs,
       published: posts.docs.filter(
-        p => p.status === "published"
+        p => p._status === "published"
       ).length,
     });
   },
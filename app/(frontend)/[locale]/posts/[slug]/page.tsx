@@ -0,0 +1,159 @@
+import type { Metadata } from "next";
+import { headers } from "next/headers";
+import { notFound, redirect } from "next/navigation";
+import { cache } from "react";
+import { getPayload } from "payload";
+import configPromise from "@payload-config";
+import { findFallbacks } from "@/lib/locale-fallbacks";
+import { localeHref, type Locale } from "@/lib/localized-paths";
+import { PREVIEW_TOKEN_PARAM, verifyPreviewToken } from "@/lib/preview";
+import { postMetadata } from "@/lib/seo";
+import { resolveServerURL } from "@/lib/server-url";
+import type { Post } from "@/payload-types";
+import LivePreviewPost from "../../../components/LivePreviewPost";
+import PostArticle from "../../../components/PostArticle";
+import SiteHeader from "../../../components/SiteHeader";
+import { findSiteSettings, pageLocale } from "../../../locale";
+
+// ============================================================================
+// /posts/[slug] - Single post, drafts only with a valid preview token
+// ============================================================================
+
+type Params = Promise<{ locale: string; slug: string }>;
+type SearchParams = Promise<Record<string, string | string[] | undefined>>;
+
+// Without a token only the published version is served. A valid token loads
+// the latest draft of the post it was issued for; that lookup goes by ID
+// because an unpublished post's slug still follows its title. A token opened
+// under another post's slug, or an outdated one, redirects to the previewed
+// post's own URL so the page never shows one post under another's address.
+// Slugs are the same in every locale; `locale` picks the translation shown.
+// Cached for the request: `generateMetadata` and the page share the lookup
+const findPost = cache(async function findPost(
+  slug: string,
+  token: string | undefined,
+  locale: Locale
+): Promise<{ post: Post; isPreview: boolean } | null> {
+  const payload = await getPayload({ config: configPromise });
+
+  const claims = verifyPreviewToken(payload.secret, token);
+  if (claims?.collection === "posts") {
+    const draft = await payload.findByID({
+      collection: "posts",
+      id: claims.id,
+      draft: true,
+      depth: 2,
+      locale,
+      disableErrors: true,
+    });
+    if (draft) {
+      // Matches the fallback to the ID in the admin's preview URL
+      const canonical = draft.slug || String(draft.id);
+      const encoded = encodeURIComponent(canonical);
+      if (slug !== canonical && slug !== encoded) {
+        const path = localeHref(`/posts/${encoded}`, locale);
+        redirect(`${path}?${PREVIEW_TOKEN_PARAM}=${token}`);
+      }
+      return { post: draft, isPreview: true };
+    }
+  }
+
+  const { docs } = await payload.find({
+    collection: "posts",
+    where: {
+      and: [
+        { slug: { equals: slug } },
+        { _status: { equals: "published" } },
+      ],
+    },
+    limit: 1,
+    depth: 2,
+    locale,
+  });
+
+  return docs[0] ? { post: docs[0], isPreview: false } : null;
+});
+
+export async function generateMetadata({
+  params,
+  searchParams,
+}: {
+  params: Params;
+  searchParams: SearchParams;
+}): Promise<Metadata> {
+  const locale = await pageLocale(params);
+  const { slug } = await params;
+  const token = (await searchParams)[PREVIEW_TOKEN_PARAM];
+  const result = await findPost(
+    slug,
+    typeof token === "string" ? token : undefined,
+    locale
+  );
+  if (!result) return {};
+
+  const settings = await findSiteSettings(locale);
+  return postMetadata(result.post, settings, {
+    isPreview: result.isPreview,
+    locale,
+  });
+}
+
+export default async function PostPage({
+  params,
+  searchParams,
+}: {
+  params: Params;
+  searchParams: SearchParams;
+}) {
+  const locale = await pageLocale(params);
+  const { slug } = await params;
+  const token = (await searchParams)[PREVIEW_TOKEN_PARAM];
+  const result = await findPost(
+    slug,
+    typeof token === "string" ? token : undefined,
+    locale
+  );
+
+  if (!result) notFound();
+
+  const { post, isPreview } = result;
+  const payload = await getPayload({ config: configPromise });
+  const fallbacks = await findFallbacks(payload, {
+    collection: "posts",
+    docs: [post],
+    locale,
+    fields: ["title", "excerpt", "content"],
+    draft: isPreview,
+  });
+
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-zinc-950">
+      <SiteHeader locale={locale} path={`/posts/${post.slug}`} />
+
+      {isPreview && (
+        <div className="border-b border-yellow-200 bg-yellow-50 px-4 py-2 text-center text-sm text-yellow-900 dark:border-yellow-900/40 dark:bg-yellow-950/40 dark:text-yellow-100">
+          Preview – you are viewing the latest{" "}
+          {post._status === "published" ? "saved" : "draft"} version of this
+          post.
+        </div>
+      )}
+
+      <main className="mx-auto max-w-3xl px-4 py-10 sm:px-6 lg:px-8">
+        {isPreview ? (
+          <LivePreviewPost
+            initialPost={post}
+            serverURL={resolveServerURL(await headers())}
+            locale={locale}
+            fallbacks={fallbacks[post.id]}
+          />
+        ) : (
+          <PostArticle
+            post={post}
+            locale={locale}
+            fallbacks={fallbacks[post.id]}
+          />
+        )}
+      </main>
+    </div>
+  );
+}
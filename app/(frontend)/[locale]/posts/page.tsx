@@ -0,0 +1,87 @@
+import type { Metadata } from "next";
+import { getPayload } from "payload";
+import configPromise from "@payload-config";
+import { findFallbacks } from "@/lib/locale-fallbacks";
+import { localeHref } from "@/lib/localized-paths";
+import { findPublishedPosts, parsePageParam } from "@/lib/posts";
+import FeedLinks from "../../components/FeedLinks";
+import Pagination from "../../components/Pagination";
+import PostCard from "../../components/PostCard";
+import SiteHeader from "../../components/SiteHeader";
+import { pageLocale } from "../../locale";
+
+// ============================================================================
+// /posts - Paginated list of published posts
+// ============================================================================
+
+type Params = Promise<{ locale: string }>;
+
+export async function generateMetadata({
+  params,
+}: {
+  params: Params;
+}): Promise<Metadata> {
+  const locale = await pageLocale(params);
+  return {
+    title: "Posts",
+    alternates: { canonical: localeHref("/posts", locale) },
+  };
+}
+
+export default async function PostsPage({
+  params,
+  searchParams,
+}: {
+  params: Params;
+  searchParams: Promise<{ page?: string | string[] }>;
+}) {
+  const locale = await pageLocale(params);
+  const page = parsePageParam((await searchParams).page);
+  const payload = await getPayload({ config: configPromise });
+  const posts = await findPublishedPosts(payload, { page, locale });
+  const fallbacks = await findFallbacks(payload, {
+    collection: "posts",
+    docs: posts.docs,
+    locale,
+    fields: ["title", "excerpt"],
+  });
+
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-zinc-950">
+      <SiteHeader locale={locale} path="/posts" />
+      <main className="mx-auto max-w-4xl px-4 py-10 sm:px-6 lg:px-8">
+        <h1 className="mb-2 text-3xl font-bold text-zinc-900 dark:text-zinc-100">
+          Posts
+        </h1>
+        <p className="text-zinc-600 dark:text-zinc-400">
+          {posts.totalDocs} published{" "}
+          {posts.totalDocs === 1 ? "post" : "posts"}
+        </p>
+        <FeedLinks locale={locale} className="mb-8 mt-2" />
+
+        {posts.docs.length === 0 ? (
+          <p className="text-zinc-500 italic dark:text-zinc-400">
+            Nothing published yet.
+          </p>
+        ) : (
+          <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+            {posts.docs.map((post) => (
+              <PostCard
+                key={post.id}
+                post={post}
+                locale={locale}
+                fallbacks={fallbacks[post.id]}
+              />
+            ))}
+          </div>
+        )}
+
+        <Pagination
+          basePath={localeHref("/posts", locale)}
+          page={posts.page ?? page}
+          totalPages={posts.totalPages}
+        />
+      </main>
+    </div>
+  );
+}
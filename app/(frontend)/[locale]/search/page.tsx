@@ -0,0 +1,185 @@
+import type { Metadata } from "next";
+import Link from "next/link";
+import { getPayload } from "payload";
+import configPromise from "@payload-config";
+import { LOCALES, localeHref } from "@/lib/localized-paths";
+import { parsePageParam } from "@/lib/posts";
+import {
+  parseSearchTerms,
+  SEARCHABLE_COLLECTIONS,
+  searchIndex,
+  type SearchableCollection,
+  type SearchResult,
+} from "@/lib/search";
+import Pagination from "../../components/Pagination";
+import SearchBox from "../../components/SearchBox";
+import SiteHeader from "../../components/SiteHeader";
+import { pageLocale } from "../../locale";
+
+// ============================================================================
+// /search - Published posts, authors and categories matching `?q=` in the
+// page's locale, with `?type=` narrowing the results
+// ============================================================================
+
+const RESULTS_PER_PAGE = 10;
+
+const typeLabels: Record<SearchableCollection, string> = {
+  posts: "Posts",
+  authors: "Authors",
+  categories: "Categories",
+};
+
+// Result pages are endless query permutations; robots.txt disallows them too
+export const metadata: Metadata = {
+  title: "Search",
+  robots: { index: false, follow: true },
+};
+
+const first = (value: string | string[] | undefined) =>
+  (Array.isArray(value) ? value[0] : value) ?? "";
+
+export default async function SearchPage({
+  params: routeParams,
+  searchParams,
+}: {
+  params: Promise<{ locale: string }>;
+  searchParams: Promise<{
+    q?: string | string[];
+    type?: string | string[];
+    page?: string | string[];
+  }>;
+}) {
+  const locale = await pageLocale(routeParams);
+  const params = await searchParams;
+  const q = first(params.q).trim().slice(0, 200);
+  const page = parsePageParam(params.page);
+  const payload = await getPayload({ config: configPromise });
+
+  const type = SEARCHABLE_COLLECTIONS.find((slug) => slug === first(params.type));
+
+  const results: SearchResult | null =
+    parseSearchTerms(q).length > 0
+      ? await searchIndex(payload, {
+          q,
+          locale,
+          collections: type ? [type] : undefined,
+          page,
+          limit: RESULTS_PER_PAGE,
+        })
+      : null;
+
+  // The current filters, with `changes` applied, as URL params
+  const filters = (changes: { type?: string } = {}) => {
+    const query = new URLSearchParams({ q });
+    const nextType = "type" in changes ? changes.type : type;
+    if (nextType) query.set("type", nextType);
+    return query;
+  };
+  const searchHref = (changes: { type?: string }) =>
+    `${localeHref("/search", locale)}?${filters(changes)}`;
+  const facetClass = (active: boolean) =>
+    `rounded-full px-3 py-1 text-sm font-medium ${
+      active
+        ? "bg-indigo-600 text-white"
+        : "bg-zinc-100 text-zinc-700 hover:bg-zinc-200 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
+    }`;
+
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-zinc-950">
+      <SiteHeader locale={locale} path={`/search?${filters()}`} />
+      <main className="mx-auto max-w-4xl px-4 py-10 sm:px-6 lg:px-8">
+        <h1 className="mb-6 text-3xl font-bold text-zinc-900 dark:text-zinc-100">
+          Search
+        </h1>
+        <SearchBox locale={locale} defaultValue={q} className="mb-8" />
+
+        {!results ? (
+          <p className="text-zinc-500 italic dark:text-zinc-400">
+            Type a word or a &quot;quoted phrase&quot; to search posts,
+            authors and categories.
+          </p>
+        ) : (
+          <>
+            <div className="mb-6 flex flex-wrap items-center gap-2">
+              <Link
+                href={searchHref({ type: undefined })}
+                className={facetClass(!type)}
+              >
+                All (
+                {Object.values(results.facets.collection).reduce(
+                  (sum, count) => sum + count,
+                  0
+                )}
+                )
+              </Link>
+              {SEARCHABLE_COLLECTIONS.map((slug) => (
+                <Link
+                  key={slug}
+                  href={searchHref({ type: slug })}
+                  className={facetClass(type === slug)}
+                >
+                  {typeLabels[slug]} ({results.facets.collection[slug]})
+                </Link>
+              ))}
+              <span className="mx-2 h-5 border-l border-zinc-300 dark:border-zinc-700" />
+              {/* The same search in another locale switches the site to it,
+                  like the header's locale switcher */}
+              {LOCALES.map(({ code }) => (
+                <a
+                  key={code}
+                  href={`/${code}/search?${filters()}`}
+                  hrefLang={code}
+                  className={facetClass(locale === code)}
+                >
+                  {code.toUpperCase()} ({results.facets.locale[code] ?? 0})
+                </a>
+              ))}
+            </div>
+
+            {results.docs.length === 0 ? (
+              <p className="text-zinc-500 italic dark:text-zinc-400">
+                No results for &quot;{q}&quot;.
+              </p>
+            ) : (
+              <ol className="space-y-4">
+                {results.docs.map((hit) => (
+                  <li
+                    key={hit.id}
+                    className="rounded-xl border border-zinc-200 bg-white p-5 dark:border-zinc-800 dark:bg-zinc-900"
+                  >
+                    <span className="text-xs font-semibold uppercase tracking-wide text-indigo-600 dark:text-indigo-400">
+                      {typeLabels[hit.collection]}
+                    </span>
+                    {/* Highlights are escaped by the search library; only
+                        <mark> is real markup */}
+                    <Link
+                      href={hit.url}
+                      className="mt-1 block text-lg font-semibold text-zinc-900 hover:text-indigo-600 dark:text-zinc-100 dark:hover:text-indigo-400 [&_mark]:bg-yellow-200 dark:[&_mark]:bg-yellow-700"
+                      dangerouslySetInnerHTML={{ __html: hit.highlights.title }}
+                    />
+                    {hit.highlights.snippet && (
+                      <p
+                        className="mt-2 text-sm text-zinc-600 dark:text-zinc-400 [&_mark]:bg-yellow-200 dark:[&_mark]:bg-yellow-700"
+                        dangerouslySetInnerHTML={{
+                          __html: hit.highlights.snippet,
+                        }}
+                      />
+                    )}
+                  </li>
+                ))}
+              </ol>
+            )}
+
+            <Pagination
+              basePath={localeHref("/search", locale)}
+              page={results.page}
+              totalPages={results.totalPages}
+              params={Object.fromEntries(filters())}
+              labels={{ previous: "← Previous", next: "Next →" }}
+            />
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import Link from "next/link";
+import { localeHref } from "@/lib/localized-paths";
+import FallbackBadge from "./FallbackBadge";
+
+// Only what the tree needs, so both the dashboard's own types and the
+// generated Payload types fit
+export interface CategoryNode {
+  id: string | number;
+  title: string;
+  parent?: string | number | { id: string | number } | null;
+}
+
+const parentId = (category: CategoryNode) =>
+  category.parent && typeof category.parent === "object"
+    ? category.parent.id
+    : (category.parent ?? null);
+
+// Renders a flat list of categories as nested lists. Categories whose parent
+// isn't in the list are shown at the top level. `fallbacks` are the fields
+// of each category shown untranslated, by ID.
+export default function CategoryTree({
+  categories,
+  locale,
+  fallbacks = {},
+}: {
+  categories: CategoryNode[];
+  locale: string;
+  fallbacks?: Record<string | number, string[]>;
+}) {
+  const ids = new Set(categories.map((category) => category.id));
+  const children = new Map<string | number | null, CategoryNode[]>();
+  for (const category of categories) {
+    const parent = parentId(category);
+    const key = parent !== null && ids.has(parent) ? parent : null;
+    children.set(key, [...(children.get(key) ?? []), category]);
+  }
+
+  const renderLevel = (parent: string | number | null, depth: number) => {
+    const level = children.get(parent);
+    if (!level) return null;
+
+    return (
+      <ul
+        className={
+          depth === 0
+            ? "space-y-1"
+            : "ml-3 mt-1 space-y-1 border-l border-zinc-200 pl-3 dark:border-zinc-700"
+        }
+      >
+        {level.map((category) => (
+          <li key={category.id}>
+            <Link
+              href={localeHref(`/categories/${category.id}`, locale)}
+              className="inline-flex items-center rounded-full bg-indigo-100 px-3 py-1 text-sm font-medium text-indigo-800 hover:bg-indigo-200 dark:bg-indigo-900 dark:text-indigo-200 dark:hover:bg-indigo-800"
+            >
+              {category.title}
+            </Link>
+            <FallbackBadge
+              fields={fallbacks[category.id]}
+              className="ml-2 align-middle"
+            />
+            {renderLevel(category.id, depth + 1)}
+          </li>
+        ))}
+      </ul>
+    );
+  };
+
+  return renderLevel(null, 0);
+}
@@ -0,0 +1,22 @@
+import { DEFAULT_LOCALE, localeLabel } from "@/lib/localized-paths";
+
+// Marks content shown in the default locale because it has no translation
+// yet; `fields` are the untranslated ones (see lib/locale-fallbacks.ts)
+export default function FallbackBadge({
+  fields,
+  className = "",
+}: {
+  fields: string[] | undefined;
+  className?: string;
+}) {
+  if (!fields?.length) return null;
+
+  return (
+    <span
+      title={`Not translated yet: ${fields.join(", ")}`}
+      className={`${className} inline-flex items-center rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800 dark:bg-amber-900 dark:text-amber-200`}
+    >
+      {localeLabel(DEFAULT_LOCALE)}
+    </span>
+  );
+}
@@ -0,0 +1,38 @@
+import { localeHref } from "@/lib/localized-paths";
+
+// RSS / Atom / JSON Feed links for the page's locale; `query` narrows the
+// feeds, e.g. "category=3"
+export default function FeedLinks({
+  locale,
+  query,
+  className = "mt-3",
+}: {
+  locale: string;
+  query?: string;
+  className?: string;
+}) {
+  const suffix = query ? `?${query}` : "";
+  const feeds = [
+    { label: "RSS", href: `${localeHref("/feed.xml", locale)}${suffix}` },
+    { label: "Atom", href: `${localeHref("/atom.xml", locale)}${suffix}` },
+    {
+      label: "JSON Feed",
+      href: `${localeHref("/feed.json", locale)}${suffix}`,
+    },
+  ];
+
+  return (
+    <p className={`${className} flex items-center gap-3 text-sm text-zinc-500 dark:text-zinc-400`}>
+      <span>Subscribe:</span>
+      {feeds.map((feed) => (
+        <a
+          key={feed.label}
+          href={feed.href}
+          className="font-medium text-orange-600 hover:underline dark:text-orange-400"
+        >
+          {feed.label}
+        </a>
+      ))}
+    </p>
+  );
+}
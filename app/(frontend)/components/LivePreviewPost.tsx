@@ -0,0 +1,29 @@
+"use client";
+
+import { useLivePreview } from "@payloadcms/live-preview-react";
+import type { Post } from "@/payload-types";
+import PostArticle from "./PostArticle";
+
+// Inside the admin's Live Preview iframe the edit form posts its unsaved
+// state on every change; the hook merges it into the server-rendered post
+// and re-populates relationships (author, categories, uploads, links in the
+// rich text) through the REST API at the same depth and locale the page used.
+export default function LivePreviewPost({
+  initialPost,
+  serverURL,
+  locale,
+  fallbacks,
+}: {
+  initialPost: Post;
+  serverURL: string;
+  locale: string;
+  fallbacks?: string[];
+}) {
+  const { data } = useLivePreview<Post>({
+    initialData: initialPost,
+    serverURL,
+    depth: 2,
+  });
+
+  return <PostArticle post={data} locale={locale} fallbacks={fallbacks} />;
+}
@@ -0,0 +1,34 @@
+import { LOCALES, type Locale } from "@/lib/localized-paths";
+
+// Links to `path` in every locale. They always carry the locale prefix, so
+// middleware.ts remembers the choice (the default locale's prefix redirects
+// to the plain path). Plain anchors: a prefetch would store the choice too.
+export default function LocaleSwitcher({
+  locale,
+  path,
+}: {
+  locale: Locale;
+  path: string;
+}) {
+  return (
+    <ul className="flex items-center gap-1" aria-label="Language">
+      {LOCALES.map(({ code, label }) => (
+        <li key={code}>
+          <a
+            href={`/${code}${path === "/" ? "" : path}`}
+            hrefLang={code}
+            lang={code}
+            aria-current={code === locale ? "page" : undefined}
+            className={
+              code === locale
+                ? "rounded px-2 py-1 font-semibold text-zinc-900 dark:text-zinc-100"
+                : "rounded px-2 py-1 hover:text-zinc-900 dark:hover:text-zinc-100"
+            }
+          >
+            {label}
+          </a>
+        </li>
+      ))}
+    </ul>
+  );
+}
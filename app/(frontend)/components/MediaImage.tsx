@@ -0,0 +1,28 @@
+export type ImageSize = "thumbnail" | "card" | "hero";
+
+export interface MediaLike {
+  alt: string;
+  url?: string | null;
+  sizes?: Partial<Record<ImageSize, { url?: string | null }>>;
+}
+
+// Renders the requested size variant of an upload, falling back to the
+// original file (sharp skips sizes larger than the source image)
+export default function MediaImage({
+  media,
+  size,
+  className,
+  fallback = null,
+}: {
+  media: MediaLike | string | number | null | undefined;
+  size: ImageSize;
+  className?: string;
+  fallback?: React.ReactNode;
+}) {
+  if (!media || typeof media !== "object") return fallback;
+
+  const src = media.sizes?.[size]?.url || media.url;
+  if (!src) return fallback;
+
+  return <img src={src} alt={media.alt} className={className} />;
+}
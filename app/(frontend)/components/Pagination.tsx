@@ -0,0 +1,54 @@
+import Link from "next/link";
+
+// Previous/next links for a paginated `payload.find()` result. `params` are
+// kept on every link (e.g. the search query); `labels` replace the default
+// newer/older wording for lists that aren't sorted by date.
+export default function Pagination({
+  basePath,
+  page,
+  totalPages,
+  params,
+  labels = { previous: "← Newer", next: "Older →" },
+}: {
+  basePath: string;
+  page: number;
+  totalPages: number;
+  params?: Record<string, string>;
+  labels?: { previous: string; next: string };
+}) {
+  if (totalPages <= 1) return null;
+
+  const href = (target: number) => {
+    const query = new URLSearchParams(params);
+    if (target > 1) query.set("page", String(target));
+    const search = query.toString();
+    return search ? `${basePath}?${search}` : basePath;
+  };
+  const linkClass =
+    "rounded-lg border border-zinc-200 bg-white px-4 py-2 text-sm font-medium text-zinc-700 hover:bg-zinc-100 dark:border-zinc-800 dark:bg-zinc-900 dark:text-zinc-300 dark:hover:bg-zinc-800";
+
+  return (
+    <nav
+      aria-label="Pagination"
+      className="mt-10 flex items-center justify-between"
+    >
+      {page > 1 ? (
+        <Link href={href(page - 1)} className={linkClass}>
+          {labels.previous}
+        </Link>
+      ) : (
+        <span />
+      )}
+      <span className="text-sm text-zinc-500 dark:text-zinc-400">
+        Page {page} of {totalPages}
+      </span>
+      {page < totalPages ? (
+        <Link href={href(page + 1)} className={linkClass}>
+          {labels.next}
+        </Link>
+      ) : (
+        <span />
+      )}
+    </nav>
+  );
+}
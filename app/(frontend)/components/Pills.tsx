@@ -0,0 +1,62 @@
+import Link from "next/link";
+import { localeHref } from "@/lib/localized-paths";
+import type { Author, Category } from "@/payload-types";
+import MediaImage from "./MediaImage";
+
+// Relationship values are plain IDs when the query depth didn't reach them;
+// those are skipped rather than rendered as bare numbers
+export function AuthorPill({
+  author,
+  locale,
+}: {
+  author: Author | number | null | undefined;
+  locale: string;
+}) {
+  if (!author || typeof author !== "object") return null;
+
+  return (
+    <Link
+      href={localeHref(`/authors/${author.id}`, locale)}
+      className="inline-flex items-center gap-2 rounded-full bg-zinc-100 py-1 pl-1 pr-3 text-sm font-medium text-zinc-800 hover:bg-zinc-200 dark:bg-zinc-800 dark:text-zinc-200 dark:hover:bg-zinc-700"
+    >
+      <MediaImage
+        media={author.avatar}
+        size="thumbnail"
+        className="h-6 w-6 rounded-full object-cover"
+        fallback={
+          <span className="flex h-6 w-6 items-center justify-center rounded-full bg-indigo-100 text-xs text-indigo-600 dark:bg-indigo-900 dark:text-indigo-300">
+            {author.name?.charAt(0)?.toUpperCase() || "?"}
+          </span>
+        }
+      />
+      {author.name}
+    </Link>
+  );
+}
+
+export function CategoryPills({
+  categories,
+  locale,
+}: {
+  categories: (Category | number)[] | null | undefined;
+  locale: string;
+}) {
+  const populated = (categories ?? []).filter(
+    (category): category is Category => typeof category === "object"
+  );
+  if (populated.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {populated.map((category) => (
+        <Link
+          key={category.id}
+          href={localeHref(`/categories/${category.id}`, locale)}
+          className="inline-flex items-center rounded-full bg-indigo-100 px-3 py-1 text-sm font-medium text-indigo-800 hover:bg-indigo-200 dark:bg-indigo-900 dark:text-indigo-200 dark:hover:bg-indigo-800"
+        >
+          {category.title}
+        </Link>
+      ))}
+    </div>
+  );
+}
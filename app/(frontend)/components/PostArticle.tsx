@@ -0,0 +1,51 @@
+import type { Post } from "@/payload-types";
+import FallbackBadge from "./FallbackBadge";
+import MediaImage from "./MediaImage";
+import { AuthorPill, CategoryPills } from "./Pills";
+import { formatDate } from "./PostCard";
+import RichText from "./RichText";
+
+// Body of /posts/[slug]; shared by the server render and the live preview.
+// `fallbacks` are the fields shown untranslated, for the badge.
+export default function PostArticle({
+  post,
+  locale,
+  fallbacks,
+}: {
+  post: Post;
+  locale: string;
+  fallbacks?: string[];
+}) {
+  const published = formatDate(post.publishedOn, locale);
+
+  return (
+    <article>
+      <header className="mb-8 space-y-4">
+        <CategoryPills categories={post.categories} locale={locale} />
+        <h1 className="text-4xl font-bold text-zinc-900 dark:text-zinc-100">
+          {post.title}
+        </h1>
+        {post.excerpt && (
+          <p className="text-lg text-zinc-600 dark:text-zinc-400">
+            {post.excerpt}
+          </p>
+        )}
+        <div className="flex flex-wrap items-center gap-3 text-sm text-zinc-500 dark:text-zinc-400">
+          <AuthorPill author={post.author} locale={locale} />
+          {published && <span>{published}</span>}
+          <FallbackBadge fields={fallbacks} />
+        </div>
+      </header>
+
+      <MediaImage
+        media={post.featuredImage}
+        size="hero"
+        className="mb-10 aspect-video w-full rounded-lg object-cover"
+      />
+
+      <div className="text-zinc-800 dark:text-zinc-200">
+        <RichText data={post.content} locale={locale} />
+      </div>
+    </article>
+  );
+}
@@ -0,0 +1,66 @@
+import Link from "next/link";
+import { localeHref } from "@/lib/localized-paths";
+import type { Post } from "@/payload-types";
+import FallbackBadge from "./FallbackBadge";
+import MediaImage from "./MediaImage";
+import { AuthorPill, CategoryPills } from "./Pills";
+
+export function formatDate(
+  value: string | null | undefined,
+  locale: string
+): string | null {
+  if (!value) return null;
+  return new Date(value).toLocaleDateString(locale, {
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+}
+
+// `fallbacks` are the fields shown untranslated, for the badge
+export default function PostCard({
+  post,
+  locale,
+  fallbacks,
+}: {
+  post: Post;
+  locale: string;
+  fallbacks?: string[];
+}) {
+  const published = formatDate(post.publishedOn, locale);
+  const href = localeHref(`/posts/${post.slug}`, locale);
+
+  return (
+    <article className="overflow-hidden rounded-lg border border-zinc-200 bg-white shadow-sm dark:border-zinc-800 dark:bg-zinc-900">
+      <Link href={href}>
+        <MediaImage
+          media={post.featuredImage}
+          size="card"
+          className="aspect-video w-full object-cover"
+        />
+      </Link>
+      <div className="space-y-3 p-6">
+        {published && (
+          <p className="text-sm text-zinc-500 dark:text-zinc-400">
+            {published}
+          </p>
+        )}
+        <h2 className="text-xl font-semibold text-zinc-900 dark:text-zinc-100">
+          <Link href={href} className="hover:text-indigo-600">
+            {post.title}
+          </Link>
+          <FallbackBadge fields={fallbacks} className="ml-2 align-middle" />
+        </h2>
+        {post.excerpt && (
+          <p className="text-zinc-600 line-clamp-3 dark:text-zinc-400">
+            {post.excerpt}
+          </p>
+        )}
+        <div className="flex flex-wrap items-center gap-2">
+          <AuthorPill author={post.author} locale={locale} />
+          <CategoryPills categories={post.categories} locale={locale} />
+        </div>
+      </div>
+    </article>
+  );
+}
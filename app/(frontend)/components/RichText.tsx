@@ -0,0 +1,42 @@
+import {
+  LinkJSXConverter,
+  RichText as LexicalRichText,
+  type JSXConvertersFunction,
+} from "@payloadcms/richtext-lexical/react";
+import type { DefaultNodeTypes } from "@payloadcms/richtext-lexical";
+import type { SerializedEditorState } from "@payloadcms/richtext-lexical/lexical";
+import { internalDocToHref } from "@/lib/internal-links";
+import { localeHref } from "@/lib/localized-paths";
+
+// Internal links stay in the locale of the page they're on
+const converters =
+  (locale: string): JSXConvertersFunction<DefaultNodeTypes> =>
+  ({ defaultConverters }) => ({
+    ...defaultConverters,
+    ...LinkJSXConverter({
+      internalDocToHref: (args) => {
+        const href = internalDocToHref(args);
+        return href === "#" ? href : localeHref(href, locale);
+      },
+    }),
+  });
+
+// Lexical `content` rendered to HTML on the server; styles live under
+// `.post-content` in globals.css
+export default function RichText({
+  data,
+  locale,
+}: {
+  data: SerializedEditorState | null | undefined;
+  locale: string;
+}) {
+  if (!data) return null;
+
+  return (
+    <LexicalRichText
+      className="post-content"
+      converters={converters(locale)}
+      data={data}
+    />
+  );
+}
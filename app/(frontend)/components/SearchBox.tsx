@@ -0,0 +1,30 @@
+import { localeHref } from "@/lib/localized-paths";
+
+// Plain GET form, so searching works without client-side JavaScript
+export default function SearchBox({
+  locale,
+  defaultValue,
+  className = "",
+}: {
+  locale: string;
+  defaultValue?: string;
+  className?: string;
+}) {
+  return (
+    <form
+      action={localeHref("/search", locale)}
+      method="get"
+      role="search"
+      className={className}
+    >
+      <input
+        type="search"
+        name="q"
+        defaultValue={defaultValue}
+        placeholder="Search posts, authors, categories…"
+        aria-label="Search"
+        className="w-full rounded-lg border border-zinc-200 bg-white px-3 py-1.5 text-sm text-zinc-900 placeholder:text-zinc-400 focus:border-indigo-500 focus:outline-none dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-100"
+      />
+    </form>
+  );
+}
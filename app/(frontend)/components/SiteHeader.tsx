@@ -0,0 +1,56 @@
+import Link from "next/link";
+import { type Locale, localeHref } from "@/lib/localized-paths";
+import { findSiteSettings } from "../locale";
+import LocaleSwitcher from "./LocaleSwitcher";
+import SearchBox from "./SearchBox";
+
+// Shared header for the public pages (the dashboard at `/` has its own).
+// `path` is the current page without its locale prefix, for the switcher.
+export default async function SiteHeader({
+  locale,
+  path,
+}: {
+  locale: Locale;
+  path: string;
+}) {
+  const settings = await findSiteSettings(locale);
+
+  return (
+    <header className="border-b border-zinc-200 bg-white dark:border-zinc-800 dark:bg-zinc-900">
+      <div className="mx-auto flex max-w-4xl items-center justify-between px-4 py-4 sm:px-6 lg:px-8">
+        <Link href={localeHref("/posts", locale)}>
+          <span className="block text-lg font-bold text-zinc-900 dark:text-zinc-100">
+            {settings.siteName}
+          </span>
+          {settings.tagline && (
+            <span className="block text-xs text-zinc-500 dark:text-zinc-400">
+              {settings.tagline}
+            </span>
+          )}
+        </Link>
+        <nav className="flex items-center gap-6 text-sm font-medium text-zinc-600 dark:text-zinc-400">
+          <SearchBox locale={locale} className="hidden w-56 sm:block" />
+          <Link
+            href={localeHref("/", locale)}
+            className="hover:text-zinc-900 dark:hover:text-zinc-100"
+          >
+            Dashboard
+          </Link>
+          <Link
+            href={localeHref("/posts", locale)}
+            className="hover:text-zinc-900 dark:hover:text-zinc-100"
+          >
+            Posts
+          </Link>
+          <LocaleSwitcher locale={locale} path={path} />
+          <a
+            href="/admin"
+            className="rounded-lg bg-indigo-600 px-3 py-1.5 text-white transition-colors hover:bg-indigo-500"
+          >
+            Admin →
+          </a>
+        </nav>
+      </div>
+    </header>
+  );
+}
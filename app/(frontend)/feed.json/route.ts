@@ -0,0 +1,9 @@
+import { getPayload } from "payload";
+import configPromise from "@payload-config";
+import { feedResponse } from "@/lib/feeds";
+
+// GET /feed.json - see lib/feeds.ts
+export async function GET(request: Request) {
+  const payload = await getPayload({ config: configPromise });
+  return feedResponse(payload, request, { format: "json" });
+}
@@ -0,0 +1,25 @@
+import { notFound } from "next/navigation";
+import { cache } from "react";
+import { getPayload } from "payload";
+import configPromise from "@payload-config";
+import { type Locale, parseLocale } from "@/lib/localized-paths";
+
+// ============================================================================
+// Shared by the pages under [locale]/ (middleware.ts maps URLs onto them)
+// ============================================================================
+
+// The `[locale]` route segment; anything else is a 404
+export async function pageLocale(
+  params: Promise<{ locale: string }>
+): Promise<Locale> {
+  return parseLocale((await params).locale) ?? notFound();
+}
+
+// The site-settings global in `locale`, falling back to the default locale.
+// Cached for the request: the layout, header and pages all read it.
+export const findSiteSettings = cache(async function findSiteSettings(
+  locale: Locale
+) {
+  const payload = await getPayload({ config: configPromise });
+  return payload.findGlobal({ slug: "site-settings", depth: 1, locale });
+});
@@ -0,0 +1,9 @@
+import { getPayload } from "payload";
+import configPromise from "@payload-config";
+import { robotsResponse } from "@/lib/sitemap";
+
+// GET /robots.txt - rules from the site-settings global, see lib/sitemap.ts
+export async function GET(request: Request) {
+  const payload = await getPayload({ config: configPromise });
+  return robotsResponse(payload, request);
+}
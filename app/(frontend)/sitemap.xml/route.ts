@@ -0,0 +1,9 @@
+import { getPayload } from "payload";
+import configPromise from "@payload-config";
+import { sitemapResponse } from "@/lib/sitemap";
+
+// GET /sitemap.xml - see lib/sitemap.ts
+export async function GET(request: Request) {
+  const payload = await getPayload({ config: configPromise });
+  return sitemapResponse(payload, request);
+}
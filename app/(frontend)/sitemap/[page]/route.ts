@@ -0,0 +1,17 @@
+import { getPayload } from "payload";
+import configPromise from "@payload-config";
+import { sitemapResponse } from "@/lib/sitemap";
+
+// GET /sitemap/2.xml - one part of a sitemap index, see lib/sitemap.ts
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ page: string }> }
+) {
+  const match = /^(\d+)\.xml$/.exec((await params).page);
+  if (!match) {
+    return Response.json({ error: "Not Found" }, { status: 404 });
+  }
+
+  const payload = await getPayload({ config: configPromise });
+  return sitemapResponse(payload, request, { page: Number(match[1]) });
+}
@@ -1,3 +1,7 @@
+import { default as default_3a451097d169df19a53c72f8cd278f42 } from 'app/(payload)/components/ImportExportMenu'
+import { default as default_f564872c2b0d5c2ddf78b69b2a46a78a } from 'app/(payload)/components/TranslateFieldButton'
+import { default as default_5e0093af32318794454db0c8754a6f7f } from 'app/(payload)/components/TranslationStatusField'
+import { default as default_1f88f7be6ef30aa8c2c5e0796dad1d3f } from 'app/(payload)/components/SlugField'
 import { RscEntryLexicalCell as RscEntryLexicalCell_44fe37237e0ebf4470c9990d8cb7b07e } from '@payloadcms/richtext-lexical/rsc'
 import { RscEntryLexicalField as RscEntryLexicalField_44fe37237e0ebf4470c9990d8cb7b07e } from '@payloadcms/richtext-lexical/rsc'
 import { LexicalDiffComponent as LexicalDiffComponent_44fe37237e0ebf4470c9990d8cb7b07e } from '@payloadcms/richtext-lexical/rsc'
@@ -21,9 +25,19 @@ import { StrikethroughFeatureClient as StrikethroughFeatureClient_e70f5e05f09f93
 import { UnderlineFeatureClient as UnderlineFeatureClient_e70f5e05f09f93e00b997edb1ef0c864 } from '@payloadcms/richtext-lexical/client'
 import { BoldFeatureClient as BoldFeatureClient_e70f5e05f09f93e00b997edb1ef0c864 } from '@payloadcms/richtext-lexical/client'
 import { ItalicFeatureClient as ItalicFeatureClient_e70f5e05f09f93e00b997edb1ef0c864 } from '@payloadcms/richtext-lexical/client'
+import { default as default_e3e27af07c889d34464dc1a8ac990130 } from 'app/(payload)/components/SeoMetaField'
 import { default as default_1bdace49fb33fab48fd6c9cf207a75ae } from 'app/(payload)/components/CustomSaveButton'
+import { default as default_eff8d2e30a6f89adeb4ea75039153ba6 } from 'app/(payload)/components/LocaleComparisonView'
+import { default as default_52f85d4cc097788946db6dbf4b3c4bf8 } from 'app/(payload)/components/RedeliverButton'
+import { default as default_efb156e540373ffa809f84ee86753a67 } from 'app/(payload)/components/TranslationsNavLink'
+import { default as default_b421521303b0b000f4a104d317d637fe } from 'app/(payload)/components/TranslationsView'
+import { default as default_8e1180be0f14f261a076755602691e8b } from 'app/(payload)/components/ImportView'
 
 export const importMap = {
+  "app/(payload)/components/ImportExportMenu#default": default_3a451097d169df19a53c72f8cd278f42,
+  "app/(payload)/components/TranslateFieldButton#default": default_f564872c2b0d5c2ddf78b69b2a46a78a,
+  "app/(payload)/components/TranslationStatusField#default": default_5e0093af32318794454db0c8754a6f7f,
+  "app/(payload)/components/SlugField#default": default_1f88f7be6ef30aa8c2c5e0796dad1d3f,
   "@payloadcms/richtext-lexical/rsc#RscEntryLexicalCell": RscEntryLexicalCell_44fe37237e0ebf4470c9990d8cb7b07e,
   "@payloadcms/richtext-lexical/rsc#RscEntryLexicalField": RscEntryLexicalField_44fe37237e0ebf4470c9990d8cb7b07e,
   "@payloadcms/richtext-lexical/rsc#LexicalDiffComponent": LexicalDiffComponent_44fe37237e0ebf4470c9990d8cb7b07e,
@@ -47,5 +61,11 @@ export const importMap = {
   "@payloadcms/richtext-lexical/client#UnderlineFeatureClient": UnderlineFeatureClient_e70f5e05f09f93e00b997edb1ef0c864,
   "@payloadcms/richtext-lexical/client#BoldFeatureClient": BoldFeatureClient_e70f5e05f09f93e00b997edb1ef0c864,
   "@payloadcms/richtext-lexical/client#ItalicFeatureClient": ItalicFeatureClient_e70f5e05f09f93e00b997edb1ef0c864,
-  "app/(payload)/components/CustomSaveButton#default": default_1bdace49fb33fab48fd6c9cf207a75ae
+  "app/(payload)/components/SeoMetaField#default": default_e3e27af07c889d34464dc1a8ac990130,
+  "app/(payload)/components/CustomSaveButton#default": default_1bdace49fb33fab48fd6c9cf207a75ae,
+  "app/(payload)/components/LocaleComparisonView#default": default_eff8d2e30a6f89adeb4ea75039153ba6,
+  "app/(payload)/components/RedeliverButton#default": default_52f85d4cc097788946db6dbf4b3c4bf8,
+  "app/(payload)/components/TranslationsNavLink#default": default_efb156e540373ffa809f84ee86753a67,
+  "app/(payload)/components/TranslationsView#default": default_b421521303b0b000f4a104d317d637fe,
+  "app/(payload)/components/ImportView#default": default_8e1180be0f14f261a076755602691e8b
 }
@@ -1,22 +1,37 @@
 "use client";
 
 import { useRef } from "react";
-import { FormSubmit, useForm, useFormModified } from "@payloadcms/ui";
-import { useHotkey } from "@payloadcms/ui/hooks/useHotkey";
-import { useDocumentInfo } from "@payloadcms/ui/providers/DocumentInfo";
-import { useEditDepth } from "@payloadcms/ui/providers/EditDepth";
-import { useOperation } from "@payloadcms/ui/providers/Operation";
-import { useTranslation } from "@payloadcms/ui/providers/Translation";
+import {
+  FormSubmit,
+  useConfig,
+  useDocumentInfo,
+  useEditDepth,
+  useForm,
+  useFormModified,
+  useHotkey,
+  useLocale,
+  useOperation,
+  useTranslation,
+} from "@payloadcms/ui";
 
 type Props = {
   label?: string;
 };
 
+type SubmitOptions = {
+  action?: string;
+  method?: string;
+  overrides?: Record<string, unknown>;
+  skipValidation?: boolean;
+};
+
 export default function CustomSaveButton({ label: labelProp }: Props) {
-  const { uploadStatus } = useDocumentInfo();
+  const { id, collectionSlug, uploadStatus } = useDocumentInfo();
+  const { config, getEntityConfig } = useConfig();
+  const { code: localeCode } = useLocale();
   const { t } = useTranslation();
   const { submit } = useForm() as unknown as {
-    submit?: () => Promise<unknown> | void;
+    submit?: (options?: SubmitOptions) => Promise<unknown> | void;
   };
   const modified = useFormModified();
   const editDepth = useEditDepth();
@@ -27,7 +42,18 @@ export default function CustomSaveButton({ label: labelProp }: Props) {
       ? labelProp
       : undefined;
 
-  const defaultSaveLabel = t("general:save") || "Save";
+  // In collections with drafts (e.g. Posts) this button is registered as the
+  // SaveDraftButton, so it saves a new draft revision instead of publishing.
+  const collectionConfig = collectionSlug
+    ? getEntityConfig({ collectionSlug })
+    : undefined;
+  const savesDraft = Boolean(
+    collectionConfig?.versions && collectionConfig.versions.drafts
+  );
+
+  const defaultSaveLabel = savesDraft
+    ? t("version:saveDraft") || "Save Draft"
+    : t("general:save") || "Save";
   const label = passedLabel || `${defaultSaveLabel} (Log)`;
   const ref = useRef<HTMLButtonElement | null>(null);
 
@@ -51,7 +77,7 @@ export default function CustomSaveButton({ label: labelProp }: Props) {
       return;
     }
 
-    console.log("[ADMIN] Custom save clicked");
+    console.log("[ADMIN] Custom save clicked", { savesDraft });
 
     if (typeof submit !== "function") {
       console.error(
@@ -60,6 +86,19 @@ export default function CustomSaveButton({ label: labelProp }: Props) {
       return;
     }
 
+    if (savesDraft && collectionSlug) {
+      // Mirrors Payload's own SaveDraftButton request
+      const search = `?locale=${localeCode}&depth=0&fallback-locale=null&draft=true`;
+      return void submit({
+        action: `${config.serverURL}${config.routes.api}/${collectionSlug}${
+          id ? `/${id}` : ""
+        }${search}`,
+        method: id ? "PATCH" : "POST",
+        overrides: { _status: "draft" },
+        skipValidation: true,
+      });
+    }
+
     return void submit();
   };
 
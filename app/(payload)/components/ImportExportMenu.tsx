@@ -0,0 +1,61 @@
+"use client";
+
+import { PopupList, useConfig, useListQuery } from "@payloadcms/ui";
+import type { ExportFormat } from "@/lib/import-export";
+
+// EXPORT_FORMATS; lib/import-export.ts itself is server-only
+const FORMATS: ExportFormat[] = ["csv", "json", "ndjson"];
+
+// List view "…" menu entries: downloads of the documents matching the list's
+// current filters, search and sort from GET /api/<slug>/export, and a link
+// to the /admin/import view for collections that can be imported into.
+export default function ImportExportMenu({
+  collectionSlug,
+  hasCreatePermission,
+}: {
+  collectionSlug: string;
+  hasCreatePermission?: boolean;
+}) {
+  const { config, getEntityConfig } = useConfig();
+  const { query } = useListQuery();
+  const collection = getEntityConfig({ collectionSlug });
+
+  const exportURL = (format: string) => {
+    const params = new URLSearchParams({ format, relationships: "slug" });
+    if (query.where && Object.keys(query.where).length > 0) {
+      params.set("where", JSON.stringify(query.where));
+    }
+    if (typeof query.sort === "string" && query.sort) {
+      params.set("sort", query.sort);
+    }
+    if (query.search) params.set("search", query.search);
+    const api = `${config.serverURL}${config.routes.api}`;
+    return `${api}/${collectionSlug}/export?${params}`;
+  };
+
+  const canImport =
+    hasCreatePermission &&
+    collection &&
+    !("upload" in collection && collection.upload) &&
+    !("auth" in collection && collection.auth);
+
+  return (
+    <PopupList.ButtonGroup>
+      {FORMATS.map((format) => (
+        <PopupList.Button
+          key={format}
+          onClick={() => window.location.assign(exportURL(format))}
+        >
+          Export {format.toUpperCase()}
+        </PopupList.Button>
+      ))}
+      {canImport ? (
+        <PopupList.Button
+          href={`${config.routes.admin}/import?collection=${collectionSlug}`}
+        >
+          Import…
+        </PopupList.Button>
+      ) : null}
+    </PopupList.ButtonGroup>
+  );
+}
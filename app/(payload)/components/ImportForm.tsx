@@ -0,0 +1,300 @@
+"use client";
+
+import { useState, type ChangeEvent } from "react";
+import Link from "next/link";
+import { Button, toast, useConfig } from "@payloadcms/ui";
+import { CSV_BOM, csvLine } from "@/lib/csv";
+import type {
+  ExportFormat,
+  ImportMode,
+  ImportResult,
+} from "@/lib/import-export";
+
+type Props = {
+  collections: {
+    slug: string;
+    label: string;
+    columns: string[];
+    canUpsert: boolean;
+  }[];
+  initialCollection: string;
+};
+
+const formatOf = (fileName: string): ExportFormat =>
+  /\.(ndjson|jsonl)$/i.test(fileName)
+    ? "ndjson"
+    : /\.json$/i.test(fileName)
+      ? "json"
+      : "csv";
+
+// The failed rows, one line per problem, for fixing the file in a spreadsheet
+const errorReport = (result: ImportResult) =>
+  CSV_BOM +
+  csvLine(["row", "slug", "column", "error"]) +
+  result.rows
+    .filter(({ status }) => status === "failed")
+    .flatMap(({ row, slug, error, errors }) =>
+      errors?.length
+        ? errors.map(({ path, message }) =>
+            csvLine([String(row), slug ?? "", path, message])
+          )
+        : [csvLine([String(row), slug ?? "", "", error ?? ""])]
+    )
+    .join("");
+
+// File, collection and mode; "Preview" runs the import as a dry run and shows
+// what each row would do, and "Import" runs the same file for real once it
+// has been previewed. Any change to the inputs asks for a new preview.
+export default function ImportForm({ collections, initialCollection }: Props) {
+  const { config } = useConfig();
+  const [collection, setCollection] = useState(initialCollection);
+  const [mode, setMode] = useState<ImportMode>("create");
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [pending, setPending] = useState(false);
+
+  const target = collections.find(({ slug }) => slug === collection);
+  const previewed = result?.dryRun === true;
+  const failed = result?.summary.failed ?? 0;
+
+  const reset = () => setResult(null);
+
+  const run = async (dryRun: boolean) => {
+    if (!file) return;
+    setPending(true);
+    try {
+      const params = new URLSearchParams({
+        format,
+        mode,
+        dryRun: String(dryRun),
+      });
+      const response = await fetch(
+        `${config.serverURL}${config.routes.api}/${collection}/import?${params}`,
+        {
+          method: "POST",
+          credentials: "include",
+          headers: { "Content-Type": "text/plain; charset=utf-8" },
+          body: await file.text(),
+        }
+      );
+      const body = await response.json();
+
+      if (!response.ok) {
+        const details = (body.errors ?? [])
+          .map((error: { path: string; message: string }) =>
+            `${error.path}: ${error.message}`
+          )
+          .join("; ");
+        toast.error(details ? `${body.error} (${details})` : body.error);
+        setResult(null);
+        return;
+      }
+
+      const imported = body as ImportResult;
+      setResult(imported);
+      if (!dryRun) {
+        const saved =
+          (imported.summary.created ?? 0) + (imported.summary.updated ?? 0);
+        toast.success(`Imported ${saved} of ${imported.rows.length} rows`);
+      }
+    } catch (error) {
+      console.error("[ADMIN] Import failed:", error);
+      toast.error("Import failed");
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const downloadErrors = () => {
+    if (!result) return;
+    const url = URL.createObjectURL(
+      new Blob([errorReport(result)], { type: "text/csv;charset=utf-8" })
+    );
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${result.collection}-import-errors.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="import-form">
+      <div className="import-form__fields">
+        <label>
+          <span>Collection</span>
+          <select
+            value={collection}
+            onChange={(event: ChangeEvent<HTMLSelectElement>) => {
+              setCollection(event.target.value);
+              if (
+                !collections.find(({ slug }) => slug === event.target.value)
+                  ?.canUpsert
+              ) {
+                setMode("create");
+              }
+              reset();
+            }}
+          >
+            {collections.map(({ slug, label }) => (
+              <option key={slug} value={slug}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          <span>File</span>
+          <input
+            type="file"
+            accept=".csv,.json,.ndjson,.jsonl,text/csv,application/json"
+            onChange={(event: ChangeEvent<HTMLInputElement>) => {
+              const chosen = event.target.files?.[0] ?? null;
+              setFile(chosen);
+              if (chosen) setFormat(formatOf(chosen.name));
+              reset();
+            }}
+          />
+        </label>
+
+        <label>
+          <span>Format</span>
+          <select
+            value={format}
+            onChange={(event: ChangeEvent<HTMLSelectElement>) => {
+              setFormat(event.target.value as ExportFormat);
+              reset();
+            }}
+          >
+            <option value="csv">CSV</option>
+            <option value="json">JSON</option>
+            <option value="ndjson">NDJSON</option>
+          </select>
+        </label>
+
+        <label>
+          <span>Mode</span>
+          <select
+            value={mode}
+            onChange={(event: ChangeEvent<HTMLSelectElement>) => {
+              setMode(event.target.value as ImportMode);
+              reset();
+            }}
+          >
+            <option value="create">Create new documents</option>
+            <option value="upsert" disabled={!target?.canUpsert}>
+              Update by slug, create the rest
+            </option>
+          </select>
+        </label>
+      </div>
+
+      {target ? (
+        <details className="import-form__columns">
+          <summary>Columns</summary>
+          <p>
+            {target.columns.join(", ")}. An export of this collection has the
+            same columns; <code>id</code>, <code>createdAt</code> and{" "}
+            <code>updatedAt</code> are ignored on import.
+          </p>
+        </details>
+      ) : null}
+
+      <div className="import-form__actions">
+        <Button
+          buttonStyle="secondary"
+          disabled={!file || pending}
+          onClick={() => run(true)}
+          size="medium"
+        >
+          {pending && !previewed ? "Checking…" : "Preview"}
+        </Button>
+        <Button
+          disabled={!previewed || pending || failed === result?.rows.length}
+          onClick={() => run(false)}
+          size="medium"
+        >
+          {pending && previewed ? "Importing…" : "Import"}
+        </Button>
+      </div>
+
+      {result ? (
+        <section className="import-form__result">
+          <h2>{result.dryRun ? "Preview" : "Result"}</h2>
+          <p className="import-form__summary">
+            {Object.entries(result.summary).map(([status, count]) => (
+              <span
+                key={status}
+                className={`import-status import-status--${status}`}
+              >
+                {count} {status}
+              </span>
+            ))}
+            {failed > 0 ? (
+              <button
+                type="button"
+                className="import-form__report"
+                onClick={downloadErrors}
+              >
+                Download error report
+              </button>
+            ) : null}
+          </p>
+          {result.dryRun && failed > 0 ? (
+            <p>Rows that fail are skipped; the others are imported.</p>
+          ) : null}
+
+          <table className="import-form__table">
+            <thead>
+              <tr>
+                <th>Row</th>
+                <th>Status</th>
+                <th>Document</th>
+                <th>Problems</th>
+              </tr>
+            </thead>
+            <tbody>
+              {result.rows.map((row) => (
+                <tr key={row.row}>
+                  <td>{row.row}</td>
+                  <td>
+                    <span
+                      className={`import-status import-status--${row.status}`}
+                    >
+                      {row.status}
+                    </span>
+                  </td>
+                  <td>
+                    {!result.dryRun && row.id !== undefined ? (
+                      <Link
+                        href={`${config.routes.admin}/collections/${result.collection}/${row.id}`}
+                      >
+                        {row.slug ?? row.id}
+                      </Link>
+                    ) : (
+                      (row.slug ?? "—")
+                    )}
+                  </td>
+                  <td>
+                    {row.errors?.length ? (
+                      <ul>
+                        {row.errors.map(({ path, message }) => (
+                          <li key={`${path}:${message}`}>
+                            <code>{path}</code>: {message}
+                          </li>
+                        ))}
+                      </ul>
+                    ) : (
+                      (row.error ?? "")
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { redirect } from "next/navigation";
+import type { AdminViewServerProps } from "payload";
+import { DefaultTemplate } from "@payloadcms/next/templates";
+import { Gutter, SetStepNav } from "@payloadcms/ui";
+import {
+  collectionColumns,
+  hasSlugField,
+  importBlockedReason,
+} from "@/lib/import-export";
+import ImportForm from "./ImportForm";
+
+const first = (value: string | string[] | undefined) =>
+  (Array.isArray(value) ? value[0] : value) ?? "";
+
+// /admin/import - uploads a CSV, JSON or NDJSON file into a collection the
+// user can create documents in, with a preview (dry run) before the import.
+// `?collection=` preselects the collection, as the list view menu does.
+export default async function ImportView({
+  initPageResult,
+  params,
+  searchParams = {},
+}: AdminViewServerProps) {
+  const { locale, permissions, req, visibleEntities } = initPageResult;
+  const { i18n, payload, user } = req;
+  const adminRoute = payload.config.routes.admin;
+
+  if (!user) {
+    const next = encodeURIComponent(`${adminRoute}/import`);
+    redirect(`${adminRoute}/login?redirect=${next}`);
+  }
+
+  const collections = payload.config.collections
+    .filter(
+      ({ slug, endpoints }) =>
+        permissions.collections?.[slug]?.create &&
+        !importBlockedReason(payload, slug) &&
+        (endpoints || []).some(({ path }) => path === "/import")
+    )
+    .map(({ slug, labels }) => ({
+      slug,
+      label: typeof labels.plural === "string" ? labels.plural : slug,
+      columns: collectionColumns(payload, slug).map(({ key }) => key),
+      canUpsert: hasSlugField(payload, slug),
+    }));
+  const selected =
+    collections.find(({ slug }) => slug === first(searchParams.collection))
+      ?.slug ?? collections[0]?.slug;
+
+  return (
+    <DefaultTemplate
+      i18n={i18n}
+      locale={locale}
+      params={params}
+      payload={payload}
+      permissions={permissions}
+      searchParams={searchParams}
+      user={user}
+      visibleEntities={visibleEntities}
+    >
+      <SetStepNav nav={[{ label: "Import" }]} />
+      <Gutter className="import-view">
+        <h1>Import</h1>
+        {!selected ? (
+          <p>There is no collection you can import into.</p>
+        ) : (
+          <ImportForm collections={collections} initialCollection={selected} />
+        )}
+      </Gutter>
+    </DefaultTemplate>
+  );
+}
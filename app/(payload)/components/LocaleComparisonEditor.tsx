@@ -0,0 +1,331 @@
+"use client";
+
+import { useState, type ChangeEvent } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import {
+  Button,
+  TextareaInput,
+  TextInput,
+  toast,
+  useConfig,
+} from "@payloadcms/ui";
+import type { TranslatableField, TranslationState } from "@/lib/translations";
+
+type LocaleValues = {
+  code: string;
+  label: string;
+  // Plain text per field path; rich text is flattened for reading
+  values: Record<string, string>;
+};
+
+type Props = {
+  collection: string;
+  id: number | string;
+  drafts: boolean;
+  fields: TranslatableField[];
+  source: LocaleValues;
+  translation: LocaleValues;
+  otherLocales: { code: string; label: string }[];
+  status: {
+    id: number;
+    status: TranslationState;
+    missingFields: string[];
+    machineTranslatedFields: string[];
+    sourceChangedAt: string | null;
+    translatedAt: string | null;
+  } | null;
+};
+
+// `{ "seo.metaTitle": "…" }` -> `{ seo: { metaTitle: "…" } }`
+const nest = (values: Record<string, string>) => {
+  const data: Record<string, unknown> = {};
+  for (const [path, value] of Object.entries(values)) {
+    const keys = path.split(".");
+    let target = data;
+    for (const key of keys.slice(0, -1)) {
+      target = (target[key] ??= {}) as Record<string, unknown>;
+    }
+    target[keys[keys.length - 1]] = value;
+  }
+  return data;
+};
+
+// Source text on the left, the translation's inputs on the right. Saving
+// only sends the translation's locale; on collections with drafts it is
+// saved as a draft to publish from the Edit tab like any other change.
+// "Translate" fills an input with a machine translation to review first;
+// rich text and "Translate missing fields" are saved straight away.
+export default function LocaleComparisonEditor({
+  collection,
+  id,
+  drafts,
+  fields,
+  source,
+  translation,
+  otherLocales,
+  status,
+}: Props) {
+  const { config } = useConfig();
+  const router = useRouter();
+  const [values, setValues] = useState(translation.values);
+  const [pending, setPending] = useState(false);
+
+  const editable = fields.filter(({ type }) => type !== "richText");
+  const changed = editable.filter(
+    ({ path }) => values[path] !== translation.values[path]
+  );
+  const apiURL = `${config.serverURL}${config.routes.api}`;
+  const editURL = `${config.routes.admin}/collections/${collection}/${id}`;
+  const translateURL = `${apiURL}/translation-status/translate`;
+  const translateInit = (fields: string[] | undefined, save: boolean) => ({
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ collection, id, to: translation.code, fields, save }),
+  });
+
+  const request = async (url: string, init: RequestInit, success: string) => {
+    setPending(true);
+    try {
+      const response = await fetch(url, { ...init, credentials: "include" });
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(
+          result.errors?.[0]?.message ?? result.error ?? "Request failed"
+        );
+        return;
+      }
+      toast.success(success);
+      router.refresh();
+    } catch (error) {
+      console.error("[ADMIN] Translation request failed:", error);
+      toast.error("Request failed");
+    } finally {
+      setPending(false);
+    }
+  };
+
+  const save = () =>
+    request(
+      `${apiURL}/${collection}/${id}?locale=${translation.code}${
+        drafts ? "&draft=true" : ""
+      }`,
+      {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(
+          nest(Object.fromEntries(changed.map(({ path }) => [path, values[path]])))
+        ),
+      },
+      drafts
+        ? "Translation saved as a draft. Publish it from the Edit tab."
+        : "Translation saved"
+    );
+
+  const markDone = () =>
+    status &&
+    request(
+      `${apiURL}/translation-status/${status.id}/mark-done`,
+      { method: "POST" },
+      status.status === "review" ? "Marked as reviewed" : "Marked as up to date"
+    );
+
+  // Without `fields`, the ones still missing
+  const translateAndSave = (fields?: string[]) =>
+    request(
+      translateURL,
+      translateInit(fields, true),
+      drafts
+        ? "Machine translation saved as a draft. Review it before publishing."
+        : "Machine translation saved. Review it."
+    );
+
+  const translateInput = async (path: string) => {
+    setPending(true);
+    try {
+      const response = await fetch(translateURL, {
+        ...translateInit([path], false),
+        credentials: "include",
+      });
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(
+          result.errors?.[0]?.message ?? result.error ?? "Translation failed"
+        );
+        return;
+      }
+      const value = result.values[path];
+      if (typeof value === "string") {
+        setValues((current) => ({ ...current, [path]: value }));
+      }
+    } catch (error) {
+      console.error("[ADMIN] Machine translation failed:", error);
+      toast.error("Translation failed");
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <div className="locale-comparison__editor">
+      <header className="locale-comparison__header">
+        <div>
+          <h2>
+            {source.label} → {translation.label}
+          </h2>
+          {status ? (
+            <p>
+              <span
+                className={`translation-status translation-status--${status.status}`}
+              >
+                {status.status}
+              </span>{" "}
+              {status.status === "outdated"
+                ? `The ${source.label} text changed on ${new Date(
+                    status.sourceChangedAt ?? ""
+                  ).toLocaleString()}, after this translation.`
+                : status.status === "review"
+                  ? "Machine-translated fields are waiting for a review."
+                  : null}
+            </p>
+          ) : null}
+        </div>
+        <div className="locale-comparison__actions">
+          {otherLocales.length > 1
+            ? otherLocales.map((locale) => (
+                <Link
+                  key={locale.code}
+                  href={`${editURL}/translate?locale=${locale.code}`}
+                  aria-current={locale.code === translation.code}
+                >
+                  {locale.label}
+                </Link>
+              ))
+            : null}
+          {status?.missingFields.length ? (
+            <Button
+              buttonStyle="secondary"
+              size="medium"
+              disabled={pending || changed.length > 0}
+              onClick={() => translateAndSave()}
+            >
+              Translate missing fields
+            </Button>
+          ) : null}
+          {status?.status === "outdated" || status?.status === "review" ? (
+            <Button
+              buttonStyle="secondary"
+              size="medium"
+              disabled={pending || changed.length > 0}
+              onClick={markDone}
+            >
+              {status.status === "review"
+                ? "Mark as reviewed"
+                : "Mark as up to date"}
+            </Button>
+          ) : null}
+          <Button
+            size="medium"
+            disabled={pending || changed.length === 0}
+            onClick={save}
+          >
+            {pending ? "Saving…" : `Save ${translation.label}`}
+          </Button>
+        </div>
+      </header>
+
+      {fields.map((field) => {
+        const missing = status?.missingFields.includes(field.path);
+        const machine = status?.machineTranslatedFields.includes(field.path);
+        return (
+          <div
+            key={field.path}
+            className={`locale-comparison__row${
+              missing ? " locale-comparison__row--missing" : ""
+            }${machine ? " locale-comparison__row--machine" : ""}`}
+          >
+            <div className="locale-comparison__source">
+              <p className="locale-comparison__label">
+                {field.label}
+                {machine ? (
+                  <span className="locale-comparison__machine">
+                    Machine-translated
+                  </span>
+                ) : null}
+              </p>
+              <p className="locale-comparison__text">
+                {source.values[field.path] || <em>Empty</em>}
+              </p>
+            </div>
+            <div className="locale-comparison__target">
+              {field.type === "richText" ? (
+                <>
+                  <p className="locale-comparison__text">
+                    {values[field.path] || <em>Not translated</em>}
+                  </p>
+                  <Link href={`${editURL}?locale=${translation.code}`}>
+                    Edit rich text in {translation.label}
+                  </Link>
+                  <Button
+                    buttonStyle="none"
+                    className="locale-comparison__copy"
+                    disabled={
+                      pending || changed.length > 0 || !source.values[field.path]
+                    }
+                    onClick={() => translateAndSave([field.path])}
+                  >
+                    Translate and save
+                  </Button>
+                </>
+              ) : (
+                <>
+                  {field.type === "textarea" ? (
+                    <TextareaInput
+                      path={field.path}
+                      value={values[field.path]}
+                      rows={4}
+                      onChange={(event) =>
+                        setValues({ ...values, [field.path]: event.target.value })
+                      }
+                    />
+                  ) : (
+                    <TextInput
+                      path={field.path}
+                      value={values[field.path]}
+                      onChange={(event: ChangeEvent<HTMLInputElement>) =>
+                        setValues({ ...values, [field.path]: event.target.value })
+                      }
+                    />
+                  )}
+                  <Button
+                    buttonStyle="none"
+                    className="locale-comparison__copy"
+                    disabled={!source.values[field.path]}
+                    onClick={() =>
+                      setValues({
+                        ...values,
+                        [field.path]: source.values[field.path],
+                      })
+                    }
+                  >
+                    Copy {source.label}
+                  </Button>
+                  <Button
+                    buttonStyle="none"
+                    className="locale-comparison__copy"
+                    disabled={pending || !source.values[field.path]}
+                    onClick={() => translateInput(field.path)}
+                  >
+                    Translate
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,112 @@
+import type { DocumentViewServerProps } from "payload";
+import { Gutter } from "@payloadcms/ui";
+import { lexicalToPlainText } from "@/lib/search";
+import {
+  fieldsForTarget,
+  localeOptions,
+  readLocales,
+  targetWhere,
+  TRANSLATION_COLLECTIONS,
+  valueAt,
+  type TranslationTarget,
+} from "@/lib/translations";
+import LocaleComparisonEditor from "./LocaleComparisonEditor";
+
+const first = (value: string | string[] | undefined) =>
+  (Array.isArray(value) ? value[0] : value) ?? "";
+
+// "Translate" tab: the source locale next to one translation, field by field.
+// `?locale=` picks the translation (the first non-default locale otherwise).
+export default async function LocaleComparisonView({
+  initPageResult,
+  searchParams = {},
+}: DocumentViewServerProps) {
+  const { collectionConfig, docID, req } = initPageResult;
+  const collection = TRANSLATION_COLLECTIONS.find(
+    (slug) => slug === collectionConfig?.slug
+  );
+  if (!collection || docID === undefined) return null;
+
+  const target: TranslationTarget = { collection, id: docID };
+  const { defaultLocale, localeCodes } = localeOptions(req.payload);
+  const targetLocales = localeCodes.filter((code) => code !== defaultLocale);
+  const targetLocale =
+    targetLocales.find((code) => code === first(searchParams.locale)) ??
+    targetLocales[0];
+
+  // Read as the current user, so the view shows no more than the Edit tab
+  const [docs, { docs: entries }] = await Promise.all([
+    readLocales(req, target, { overrideAccess: false }),
+    req.payload.find({
+      collection: "translation-status",
+      where: { and: [targetWhere(target), { locale: { equals: targetLocale } }] },
+      depth: 0,
+      limit: 1,
+    }),
+  ]);
+  const fields = fieldsForTarget(req.payload, target);
+  const textValues = (doc: Record<string, unknown> | null) =>
+    Object.fromEntries(
+      fields.map(({ path, type }) => {
+        const value = valueAt(doc, path);
+        return [
+          path,
+          type === "richText"
+            ? lexicalToPlainText(value)
+            : typeof value === "string"
+              ? value
+              : "",
+        ];
+      })
+    );
+  const localeLabels = new Map(
+    (req.payload.config.localization
+      ? req.payload.config.localization.locales
+      : []
+    ).map((option) => [option.code, String(option.label ?? option.code)])
+  );
+  const entry = entries[0];
+
+  return (
+    <Gutter className="locale-comparison">
+      {!targetLocale || !docs[defaultLocale] ? (
+        <p>There is nothing to translate here.</p>
+      ) : (
+        <LocaleComparisonEditor
+          // A fresh editor after every save, seeded with the saved values
+          key={`${targetLocale}:${String(docs[targetLocale]?.updatedAt)}`}
+          collection={collection}
+          id={docID}
+          drafts={Boolean(collectionConfig?.versions?.drafts)}
+          fields={fields}
+          source={{
+            code: defaultLocale,
+            label: localeLabels.get(defaultLocale) ?? defaultLocale,
+            values: textValues(docs[defaultLocale]),
+          }}
+          translation={{
+            code: targetLocale,
+            label: localeLabels.get(targetLocale) ?? targetLocale,
+            values: textValues(docs[targetLocale]),
+          }}
+          otherLocales={targetLocales.map((code) => ({
+            code,
+            label: localeLabels.get(code) ?? code,
+          }))}
+          status={
+            entry
+              ? {
+                  id: entry.id,
+                  status: entry.status,
+                  missingFields: entry.missingFields ?? [],
+                  machineTranslatedFields: entry.machineTranslatedFields ?? [],
+                  sourceChangedAt: entry.sourceChangedAt ?? null,
+                  translatedAt: entry.translatedAt ?? null,
+                }
+              : null
+          }
+        />
+      )}
+    </Gutter>
+  );
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { Button, toast, useConfig, useDocumentInfo } from "@payloadcms/ui";
+
+// Sidebar button on a webhook delivery: queues the same payload again via
+// POST /api/webhook-deliveries/:id/redeliver and opens the new log entry.
+export default function RedeliverButton() {
+  const { id } = useDocumentInfo();
+  const { config } = useConfig();
+  const router = useRouter();
+  const [pending, setPending] = useState(false);
+
+  if (!id) return null;
+
+  const redeliver = async () => {
+    setPending(true);
+    try {
+      const response = await fetch(
+        `${config.serverURL}${config.routes.api}/webhook-deliveries/${id}/redeliver`,
+        { method: "POST", credentials: "include" }
+      );
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(result.error ?? "Redelivery failed");
+        return;
+      }
+
+      toast.success("Redelivery queued");
+      router.push(
+        `${config.routes.admin}/collections/webhook-deliveries/${result.delivery.id}`
+      );
+    } catch (error) {
+      console.error("[ADMIN] Redelivery failed:", error);
+      toast.error("Redelivery failed");
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <Button
+      buttonStyle="secondary"
+      disabled={pending}
+      onClick={redeliver}
+      size="medium"
+    >
+      {pending ? "Queuing…" : "Redeliver"}
+    </Button>
+  );
+}
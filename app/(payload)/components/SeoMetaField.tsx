@@ -0,0 +1,98 @@
+"use client";
+
+import type { ChangeEvent } from "react";
+import type { TextFieldClientComponent } from "payload";
+import {
+  Button,
+  FieldLabel,
+  TextareaInput,
+  TextInput,
+  useField,
+  useFormFields,
+} from "@payloadcms/ui";
+
+type SeoMetaFieldProps = {
+  // Field the value can be filled from, e.g. "title" or "excerpt"
+  source?: string;
+  min: number;
+  max: number;
+  multiline?: boolean;
+};
+
+// Cuts at the last whole word that fits, so filled-in text doesn't end
+// mid-word
+const fitToLength = (text: string, max: number) => {
+  const clean = text.replace(/\s+/g, " ").trim();
+  if (clean.length <= max) return clean;
+
+  const cut = clean.slice(0, max - 1);
+  const lastSpace = cut.lastIndexOf(" ");
+  return `${lastSpace > max / 2 ? cut.slice(0, lastSpace) : cut}…`;
+};
+
+// Meta title / description input with a live character count that warns
+// outside the recommended length, and a button filling it from the post's
+// title or excerpt. Empty fields fall back to those on the site anyway.
+const SeoMetaField: TextFieldClientComponent = (props) => {
+  const { field, path, readOnly } = props;
+  const { source, min, max, multiline } = props as unknown as SeoMetaFieldProps;
+  const { value = "", setValue, showError } = useField<string>({ path });
+  const sourceValue = useFormFields(([fields]) =>
+    source ? fields[source]?.value : undefined
+  ) as string | undefined;
+
+  const length = value.length;
+  const status =
+    length === 0 ? "empty" : length < min ? "short" : length > max ? "long" : "ok";
+  const hint = {
+    empty: source ? `Empty - the ${source} is used.` : "Empty.",
+    short: `Short - aim for ${min}-${max} characters.`,
+    long: `Too long - search engines cut it off after about ${max} characters.`,
+    ok: "Good length.",
+  }[status];
+
+  const onChange = (
+    event: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+  ) => setValue(event.target.value);
+  const input = {
+    path,
+    value,
+    readOnly,
+    showError,
+    description: field.admin?.description,
+    AfterInput: (
+      <p className={`seo-meta-field__count seo-meta-field__count--${status}`}>
+        {length}/{max} · {hint}
+      </p>
+    ),
+  };
+
+  return (
+    <div className="field-type seo-meta-field">
+      <div className="seo-meta-field__header">
+        <FieldLabel
+          htmlFor={`field-${path.replace(/\./g, "__")}`}
+          label={field.label}
+          localized={field.localized}
+        />
+        {source ? (
+          <Button
+            buttonStyle="none"
+            className="seo-meta-field__fill"
+            disabled={readOnly || !sourceValue}
+            onClick={() => setValue(fitToLength(sourceValue ?? "", max))}
+          >
+            Fill from {source}
+          </Button>
+        ) : null}
+      </div>
+      {multiline ? (
+        <TextareaInput {...input} rows={3} onChange={onChange} />
+      ) : (
+        <TextInput {...input} onChange={onChange} />
+      )}
+    </div>
+  );
+};
+
+export default SeoMetaField;
@@ -0,0 +1,86 @@
+"use client";
+
+import { useEffect, type ChangeEvent } from "react";
+import type { TextFieldClientComponent } from "payload";
+import {
+  Button,
+  FieldLabel,
+  TextInput,
+  useConfig,
+  useField,
+  useFormFields,
+  useLocale,
+} from "@payloadcms/ui";
+import { slugify } from "@/lib/slugify";
+
+// Sidebar slug field for Posts with a live preview. In "auto" mode the slug
+// follows the title as you type; the server-side `generatePostSlug` hook has
+// the final say and appends "-2", "-3", … if the slug is already taken.
+const SlugField: TextFieldClientComponent = ({ field, path, readOnly }) => {
+  const { value = "", setValue } = useField<string>({ path });
+  const { value: isAuto = true, setValue: setIsAuto } = useField<boolean>({
+    path: "slugLock",
+  });
+  const title = useFormFields(([fields]) => fields.title?.value) as
+    | string
+    | undefined;
+  const publishedOn = useFormFields(([fields]) => fields.publishedOn?.value);
+  const { code: localeCode } = useLocale();
+  const { config } = useConfig();
+
+  const defaultLocale = config.localization
+    ? config.localization.defaultLocale
+    : undefined;
+  const isDefaultLocale = !defaultLocale || localeCode === defaultLocale;
+
+  // Slugs come from the default-locale title and freeze once published
+  const followsTitle =
+    isAuto && !publishedOn && (isDefaultLocale || !value);
+
+  useEffect(() => {
+    if (!followsTitle) return;
+
+    const next = slugify(title ?? "");
+    if (next !== value) {
+      setValue(next);
+    }
+  }, [followsTitle, title, value, setValue]);
+
+  return (
+    <div className="field-type slug-field">
+      <div className="slug-field__header">
+        <FieldLabel
+          htmlFor={`field-${path}`}
+          label={field.label}
+          required={field.required}
+        />
+        <Button
+          buttonStyle="none"
+          className="slug-field__toggle"
+          disabled={readOnly}
+          onClick={() => setIsAuto(!isAuto)}
+        >
+          {isAuto ? "Edit" : "Auto"}
+        </Button>
+      </div>
+      <TextInput
+        path={path}
+        value={value}
+        onChange={(e: ChangeEvent<HTMLInputElement>) =>
+          setValue(e.target.value)
+        }
+        readOnly={readOnly || isAuto}
+      />
+      <p className="slug-field__preview">
+        /posts/{(isAuto ? value : slugify(value)) || "…"}
+      </p>
+      {isAuto && publishedOn ? (
+        <p className="slug-field__hint">
+          Locked after the first publish so live links keep working.
+        </p>
+      ) : null}
+    </div>
+  );
+};
+
+export default SlugField;
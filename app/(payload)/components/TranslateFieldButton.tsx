@@ -0,0 +1,105 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Button,
+  toast,
+  useConfig,
+  useDocumentInfo,
+  useField,
+  useForm,
+  useLocale,
+} from "@payloadcms/ui";
+
+type TranslateFieldButtonProps = {
+  path: string;
+  field: { type: string };
+  readOnly?: boolean;
+};
+
+// Under a localized field's input while editing a translation: fills the
+// field with a machine translation of its default-locale value, to review
+// and save like typed text. Until the field is edited or the translation is
+// marked done, its translation status shows it as machine-translated.
+export default function TranslateFieldButton({
+  path,
+  field,
+  readOnly,
+}: TranslateFieldButtonProps) {
+  const { config } = useConfig();
+  const locale = useLocale();
+  const { id, collectionSlug, globalSlug } = useDocumentInfo();
+  const { setValue } = useField({ path });
+  const { dispatchFields, setModified } = useForm();
+  const [pending, setPending] = useState(false);
+
+  const localization = config.localization || null;
+  // Nothing to translate from in the default locale, or before the first save
+  if (!localization || locale.code === localization.defaultLocale) return null;
+  if ((!globalSlug && !id) || readOnly) return null;
+
+  const source = localization.locales.find(
+    ({ code }) => code === localization.defaultLocale
+  );
+  const sourceLabel =
+    typeof source?.label === "string" ? source.label : localization.defaultLocale;
+
+  const translate = async () => {
+    setPending(true);
+    try {
+      const response = await fetch(
+        `${config.serverURL}${config.routes.api}/translation-status/translate`,
+        {
+          method: "POST",
+          credentials: "include",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            ...(globalSlug
+              ? { global: globalSlug }
+              : { collection: collectionSlug, id }),
+            to: locale.code,
+            fields: [path],
+          }),
+        }
+      );
+      const result = await response.json();
+
+      if (!response.ok) {
+        toast.error(
+          result.errors?.[0]?.message ?? result.error ?? "Translation failed"
+        );
+        return;
+      }
+      if (!(path in result.values)) {
+        toast.info(`There is no ${sourceLabel} text to translate yet`);
+        return;
+      }
+
+      const value = result.values[path];
+      if (field.type === "richText") {
+        // The rich text editor only reloads when its initial value changes
+        dispatchFields({ type: "UPDATE", path, value, initialValue: value });
+        setModified(true);
+      } else {
+        setValue(value);
+      }
+      toast.success(`Translated from ${sourceLabel}. Review it, then save.`);
+    } catch (error) {
+      console.error("[ADMIN] Machine translation failed:", error);
+      toast.error("Translation failed");
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <Button
+      buttonStyle="none"
+      className="translate-field-button"
+      disabled={pending}
+      onClick={translate}
+    >
+      {pending ? "Translating…" : `Translate from ${sourceLabel}`}
+    </Button>
+  );
+}
@@ -0,0 +1,93 @@
+import Link from "next/link";
+import type { UIFieldServerComponent } from "payload";
+import {
+  localeOptions,
+  targetWhere,
+  TRANSLATION_COLLECTIONS,
+  TRANSLATION_GLOBALS,
+  type TranslationTarget,
+} from "@/lib/translations";
+
+type TranslationStatusFieldProps = {
+  // Set for globals, which have no `collectionSlug`
+  globalSlug?: string;
+};
+
+// Sidebar list of the document's translations and their status, with a link
+// to edit each locale (and to compare it with the source, for posts)
+const TranslationStatusField: UIFieldServerComponent = async (props) => {
+  const { collectionSlug, id, payload, req } = props;
+  const { globalSlug } = props as TranslationStatusFieldProps;
+
+  const collection = TRANSLATION_COLLECTIONS.find((slug) => slug === collectionSlug);
+  const global = TRANSLATION_GLOBALS.find((slug) => slug === globalSlug);
+  const target: TranslationTarget | null =
+    collection && id !== undefined
+      ? { collection, id }
+      : global
+        ? { global }
+        : null;
+  if (!target) return null;
+
+  const { docs: entries } = await payload.find({
+    collection: "translation-status",
+    where: targetWhere(target),
+    sort: "locale",
+    depth: 0,
+    pagination: false,
+  });
+  const { defaultLocale } = localeOptions(payload);
+  const localeLabels = new Map(
+    (payload.config.localization ? payload.config.localization.locales : []).map(
+      (locale) => [locale.code, String(locale.label ?? locale.code)]
+    )
+  );
+  const adminRoute = payload.config.routes.admin;
+  const editURL = collection
+    ? `${adminRoute}/collections/${collection}/${id}`
+    : `${adminRoute}/globals/${global}`;
+
+  return (
+    <div className="field-type translation-status-field">
+      <p className="translation-status-field__label">Translations</p>
+      {entries.length === 0 ? (
+        <p className="translation-status-field__empty">
+          Tracked once the document is saved.
+        </p>
+      ) : (
+        <ul className="translation-status-field__list">
+          {entries.map((entry) => (
+            <li key={entry.id} className="translation-status-field__item">
+              <span>{localeLabels.get(entry.locale) ?? entry.locale}</span>
+              <span
+                className={`translation-status translation-status--${entry.status}`}
+              >
+                {entry.status}
+              </span>
+              <Link
+                href={
+                  collection === "posts"
+                    ? `${editURL}/translate?locale=${entry.locale}`
+                    : `${editURL}?locale=${entry.locale}`
+                }
+              >
+                {collection === "posts" ? "Compare" : "Edit"}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      )}
+      {/* The header's locale switcher is hidden, so this is the way back */}
+      {req.locale && req.locale !== defaultLocale ? (
+        <Link
+          className="translation-status-field__source"
+          href={`${editURL}?locale=${defaultLocale}`}
+        >
+          Back to {localeLabels.get(defaultLocale) ?? defaultLocale}
+        </Link>
+      ) : null}
+    </div>
+  );
+};
+
+export default TranslationStatusField;
@@ -0,0 +1,16 @@
+import Link from "next/link";
+import type { ServerProps } from "payload";
+
+// Nav entry for the /admin/translations view, for the roles that can see it
+export default function TranslationsNavLink({ payload, user }: ServerProps) {
+  if (!user || (user.role !== "admin" && user.role !== "editor")) return null;
+
+  return (
+    <Link
+      className="nav__link translations-nav-link"
+      href={`${payload.config.routes.admin}/translations`}
+    >
+      <span className="nav__link-label">Translations</span>
+    </Link>
+  );
+}
@@ -0,0 +1,292 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import type { AdminViewServerProps, Where } from "payload";
+import { DefaultTemplate } from "@payloadcms/next/templates";
+import { Gutter, SetStepNav } from "@payloadcms/ui";
+import { formatDate } from "@payloadcms/ui/shared";
+import {
+  localeOptions,
+  TRANSLATION_COLLECTIONS,
+  TRANSLATION_STATES,
+  type TranslationState,
+} from "@/lib/translations";
+
+const PAGE_SIZE = 25;
+
+const first = (value: string | string[] | undefined) =>
+  (Array.isArray(value) ? value[0] : value) ?? "";
+
+// /admin/translations - "Translations needed": per-locale counts, and the
+// documents whose translation is missing, outdated or awaiting review of a
+// machine translation, oldest source change first. `?status=`, `?locale=` and `?collection=` narrow the list.
+export default async function TranslationsView({
+  initPageResult,
+  params,
+  searchParams = {},
+}: AdminViewServerProps) {
+  const { locale, permissions, req, visibleEntities } = initPageResult;
+  const { i18n, payload, user } = req;
+  const adminRoute = payload.config.routes.admin;
+
+  if (!user) {
+    const next = encodeURIComponent(`${adminRoute}/translations`);
+    redirect(`${adminRoute}/login?redirect=${next}`);
+  }
+
+  const { defaultLocale, localeCodes } = localeOptions(payload);
+  const targetLocales = localeCodes.filter((code) => code !== defaultLocale);
+  const localeLabels = new Map(
+    (payload.config.localization ? payload.config.localization.locales : []).map(
+      (option) => [option.code, String(option.label ?? option.code)]
+    )
+  );
+
+  const status = TRANSLATION_STATES.find(
+    (state) => state === first(searchParams.status)
+  );
+  const filterLocale = targetLocales.find(
+    (code) => code === first(searchParams.locale)
+  );
+  const collection = TRANSLATION_COLLECTIONS.find(
+    (slug) => slug === first(searchParams.collection)
+  );
+  const page = Math.max(1, Number.parseInt(first(searchParams.page), 10) || 1);
+  const allowed = user.role === "admin" || user.role === "editor";
+
+  const where: Where = {
+    and: [
+      status ? { status: { equals: status } } : { status: { not_equals: "done" } },
+      ...(filterLocale ? [{ locale: { equals: filterLocale } }] : []),
+      ...(collection ? [{ collectionSlug: { equals: collection } }] : []),
+    ],
+  };
+  const [entries, counts] = allowed
+    ? await Promise.all([
+        payload.find({
+          collection: "translation-status",
+          where,
+          sort: "sourceChangedAt",
+          page,
+          limit: PAGE_SIZE,
+          depth: 0,
+        }),
+        Promise.all(
+          targetLocales.map(async (code) => ({
+            locale: code,
+            counts: Object.fromEntries(
+              await Promise.all(
+                TRANSLATION_STATES.map(async (state) => [
+                  state,
+                  (
+                    await payload.count({
+                      collection: "translation-status",
+                      where: {
+                        and: [
+                          { locale: { equals: code } },
+                          { status: { equals: state } },
+                        ],
+                      },
+                    })
+                  ).totalDocs,
+                ])
+              )
+            ) as Record<TranslationState, number>,
+          }))
+        ),
+      ])
+    : [null, []];
+
+  // The current filters, with `changes` applied
+  const filterHref = (
+    changes: {
+      status?: string;
+      locale?: string;
+      collection?: string;
+      page?: number;
+    } = {}
+  ) => {
+    const query = new URLSearchParams();
+    const next = {
+      status: "status" in changes ? changes.status : status,
+      locale: "locale" in changes ? changes.locale : filterLocale,
+      collection: "collection" in changes ? changes.collection : collection,
+      page: changes.page,
+    };
+    if (next.status) query.set("status", next.status);
+    if (next.locale) query.set("locale", next.locale);
+    if (next.collection) query.set("collection", next.collection);
+    if (next.page && next.page > 1) query.set("page", String(next.page));
+    const search = query.toString();
+    return `${adminRoute}/translations${search ? `?${search}` : ""}`;
+  };
+  const date = (value: string | null | undefined) =>
+    value
+      ? formatDate({ date: value, i18n, pattern: payload.config.admin.dateFormat })
+      : "—";
+
+  return (
+    <DefaultTemplate
+      i18n={i18n}
+      locale={locale}
+      params={params}
+      payload={payload}
+      permissions={permissions}
+      searchParams={searchParams}
+      user={user}
+      visibleEntities={visibleEntities}
+    >
+      <SetStepNav nav={[{ label: "Translations" }]} />
+      <Gutter className="translations-view">
+        <h1>Translations needed</h1>
+        {!entries ? (
+          <p>Only admins and editors can see the translation status.</p>
+        ) : (
+          <>
+            <div className="translations-view__summary">
+              {counts.map(({ locale: code, counts: byState }) => (
+                <div key={code} className="translations-view__card">
+                  <h3>{localeLabels.get(code) ?? code}</h3>
+                  {TRANSLATION_STATES.map((state) => (
+                    <Link
+                      key={state}
+                      href={filterHref({ status: state, locale: code })}
+                      className={`translation-status translation-status--${state}`}
+                    >
+                      {byState[state]} {state}
+                    </Link>
+                  ))}
+                </div>
+              ))}
+            </div>
+
+            <nav className="translations-view__filters">
+              <Link href={filterHref({ status: undefined })} aria-current={!status}>
+                Needs work
+              </Link>
+              {TRANSLATION_STATES.map((state) => (
+                <Link
+                  key={state}
+                  href={filterHref({ status: state })}
+                  aria-current={status === state}
+                >
+                  {state}
+                </Link>
+              ))}
+              <span className="translations-view__divider" />
+              <Link
+                href={filterHref({ collection: undefined })}
+                aria-current={!collection}
+              >
+                All types
+              </Link>
+              {TRANSLATION_COLLECTIONS.map((slug) => (
+                <Link
+                  key={slug}
+                  href={filterHref({ collection: slug })}
+                  aria-current={collection === slug}
+                >
+                  {slug}
+                </Link>
+              ))}
+              {targetLocales.length > 1 ? (
+                <>
+                  <span className="translations-view__divider" />
+                  <Link
+                    href={filterHref({ locale: undefined })}
+                    aria-current={!filterLocale}
+                  >
+                    All locales
+                  </Link>
+                  {targetLocales.map((code) => (
+                    <Link
+                      key={code}
+                      href={filterHref({ locale: code })}
+                      aria-current={filterLocale === code}
+                    >
+                      {localeLabels.get(code) ?? code}
+                    </Link>
+                  ))}
+                </>
+              ) : null}
+            </nav>
+
+            {entries.docs.length === 0 ? (
+              <p className="translations-view__empty">Nothing to translate here.</p>
+            ) : (
+              <table className="translations-view__table">
+                <thead>
+                  <tr>
+                    <th>Document</th>
+                    <th>Type</th>
+                    <th>Locale</th>
+                    <th>Status</th>
+                    <th>Missing fields</th>
+                    <th>Machine-translated</th>
+                    <th>Source changed</th>
+                    <th>Translated</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {entries.docs.map((entry) => {
+                    const editURL = entry.collectionSlug
+                      ? `${adminRoute}/collections/${entry.collectionSlug}/` +
+                        entry.documentId
+                      : `${adminRoute}/globals/${entry.globalSlug}`;
+                    return (
+                      <tr key={entry.id}>
+                        <td>
+                          <Link href={`${editURL}?locale=${entry.locale}`}>
+                            {entry.title}
+                          </Link>
+                        </td>
+                        <td>{entry.collectionSlug ?? entry.globalSlug}</td>
+                        <td>{localeLabels.get(entry.locale) ?? entry.locale}</td>
+                        <td>
+                          <span
+                            className={`translation-status translation-status--${entry.status}`}
+                          >
+                            {entry.status}
+                          </span>
+                        </td>
+                        <td>{(entry.missingFields ?? []).join(", ") || "—"}</td>
+                        <td>
+                          {(entry.machineTranslatedFields ?? []).join(", ") || "—"}
+                        </td>
+                        <td>{date(entry.sourceChangedAt)}</td>
+                        <td>{date(entry.translatedAt)}</td>
+                        <td>
+                          {entry.collectionSlug === "posts" ? (
+                            <Link
+                              href={`${editURL}/translate?locale=${entry.locale}`}
+                            >
+                              Compare
+                            </Link>
+                          ) : null}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            )}
+
+            {entries.totalPages > 1 ? (
+              <nav className="translations-view__pages">
+                {entries.hasPrevPage ? (
+                  <Link href={filterHref({ page: page - 1 })}>← Previous</Link>
+                ) : null}
+                <span>
+                  Page {entries.page} of {entries.totalPages}
+                </span>
+                {entries.hasNextPage ? (
+                  <Link href={filterHref({ page: page + 1 })}>Next →</Link>
+                ) : null}
+              </nav>
+            ) : null}
+          </>
+        )}
+      </Gutter>
+    </DefaultTemplate>
+  );
+}
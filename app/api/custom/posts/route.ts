@@ -1,84 +1,496 @@
-import { getPayload } from "payload";
+import { getPayload, type Payload, type Sort, type TypedLocale, type Where } from "payload";
 import configPromise from "@payload-config";
-
-function slugify(input: string): string {
-  return input
-    .toLowerCase()
-    .trim()
-    .replace(/[^a-z0-9\s-]/g, "")
-    .replace(/\s+/g, "-")
-    .replace(/-+/g, "-");
-}
+import { errorResponse, invalidRequest, type FieldError } from "@/lib/api-errors";
+import type { Post } from "@/payload-types";
 
 // Custom API example (does NOT replace Payload's built-in /api/posts CRUD)
 // GET  /api/custom/posts  -> list posts
 // POST /api/custom/posts  -> create a post with custom logic
+//
+// Both run as the caller (session cookie or `Authorization: JWT …` header)
+// with collection access enforced: anonymous callers only see published
+// posts and cannot create any. Bad input is answered with a 400 listing the
+// offending paths: `{ error, errors: [{ path, message }] }`.
 
-export async function GET(req: Request) {
-  const payload = await getPayload({ config: configPromise });
-  const url = new URL(req.url);
+const MAX_LIMIT = 100;
+const DEFAULT_LIMIT = 10;
 
-  const limit = Number(url.searchParams.get("limit") ?? "10");
+// Fields that can be sorted on (prefix with "-" for descending). Keyset
+// (cursor) pagination needs a value on every post, which rules out localized
+// fields like `title`: a post may not have one in the requested locale.
+const SORTABLE_FIELDS = ["createdAt", "updatedAt", "slug"] as const;
+type SortableField = (typeof SORTABLE_FIELDS)[number];
 
-  const result = await payload.find({
-    collection: "posts",
-    limit: Number.isFinite(limit) ? limit : 10,
-    depth: 1,
-    overrideAccess: true,
-  });
+const POST_BODY_FIELDS = [
+  "title",
+  "slug",
+  "excerpt",
+  "content",
+  "status",
+  "authorId",
+  "categoryIds",
+] as const;
+
+// ============================================================================
+// Request parsing
+// ============================================================================
+
+type ID = number;
+
+// Post, author and category IDs are SQLite integer keys
+function parseId(value: unknown): ID | null {
+  const id = typeof value === "string" && value.trim() !== "" ? Number(value) : value;
+  return typeof id === "number" && Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function parseIntParam(
+  params: URLSearchParams,
+  name: string,
+  errors: FieldError[],
+  { min, max, fallback }: { min: number; max?: number; fallback: number }
+): number {
+  const raw = params.get(name);
+  if (raw === null) return fallback;
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < min || (max && value > max)) {
+    errors.push({
+      path: name,
+      message: max
+        ? `Must be an integer between ${min} and ${max}`
+        : `Must be an integer of at least ${min}`,
+    });
+    return fallback;
+  }
+  return value;
+}
+
+function parseLocale(
+  payload: Payload,
+  params: URLSearchParams,
+  errors: FieldError[]
+): TypedLocale | undefined {
+  const locale = params.get("locale");
+  if (locale === null) return undefined;
+
+  const codes = payload.config.localization
+    ? payload.config.localization.localeCodes
+    : [];
+  if (!codes.includes(locale)) {
+    errors.push({
+      path: "locale",
+      message: `Must be one of: ${codes.join(", ")}`,
+    });
+    return undefined;
+  }
+  return locale as TypedLocale;
+}
+
+interface Cursor {
+  // Sort-field value and ID of the last post on the previous page. Only the
+  // slug can be missing; null is kept apart from the string "null".
+  value: string | null;
+  id: ID;
+}
+
+// Encoded as the JSON tuple `[value, id]`
+function encodeCursor({ value, id }: Cursor): string {
+  return Buffer.from(JSON.stringify([value, id])).toString("base64url");
+}
+
+function decodeCursor(raw: string): Cursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (!Array.isArray(cursor) || cursor.length !== 2) return null;
+
+    const [value, id] = cursor;
+    return (typeof value === "string" || value === null) &&
+      parseId(id) !== null
+      ? { value, id }
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+// Posts after the cursor in the requested order. SQLite sorts nulls before
+// every other value, so they come first ascending and last descending.
+function afterCursor(
+  sortField: SortableField,
+  descending: boolean,
+  { value, id }: Cursor
+): Where {
+  const after = descending ? "less_than" : "greater_than";
+  const sameValueAfter: Where = {
+    and: [
+      value === null
+        ? { [sortField]: { exists: false } }
+        : { [sortField]: { equals: value } },
+      { id: { [after]: id } },
+    ],
+  };
+
+  if (value === null) {
+    return descending
+      ? sameValueAfter
+      : { or: [{ [sortField]: { exists: true } }, sameValueAfter] };
+  }
+  return {
+    or: [
+      { [sortField]: { [after]: value } },
+      sameValueAfter,
+      ...(descending ? [{ [sortField]: { exists: false } }] : []),
+    ],
+  };
+}
 
-  return Response.json({
-    source: "custom-api",
-    note: "This response is from /api/custom/posts (custom route), not Payload's built-in CRUD.",
-    ...result,
+interface ListQuery {
+  limit: number;
+  page?: number;
+  cursor?: Cursor;
+  sortField: SortableField;
+  descending: boolean;
+  where: Where[];
+  locale?: TypedLocale;
+}
+
+function parseListQuery(payload: Payload, params: URLSearchParams): ListQuery {
+  const errors: FieldError[] = [];
+
+  const limit = parseIntParam(params, "limit", errors, {
+    min: 1,
+    max: MAX_LIMIT,
+    fallback: DEFAULT_LIMIT,
   });
+  const page = params.has("page")
+    ? parseIntParam(params, "page", errors, { min: 1, fallback: 1 })
+    : undefined;
+
+  let cursor: Cursor | undefined;
+  const rawCursor = params.get("cursor");
+  if (rawCursor !== null) {
+    cursor = decodeCursor(rawCursor) ?? undefined;
+    if (!cursor) {
+      errors.push({ path: "cursor", message: "Invalid cursor" });
+    }
+    if (page !== undefined) {
+      errors.push({
+        path: "cursor",
+        message: "Use either `cursor` or `page`, not both",
+      });
+    }
+  }
+
+  const sort = params.get("sort") ?? "-createdAt";
+  const descending = sort.startsWith("-");
+  const sortField = (descending ? sort.slice(1) : sort) as SortableField;
+  if (!SORTABLE_FIELDS.includes(sortField)) {
+    errors.push({
+      path: "sort",
+      message: `Must be one of: ${SORTABLE_FIELDS.join(", ")} (prefix "-" for descending)`,
+    });
+  }
+
+  const where: Where[] = [];
+
+  const rawWhere = params.get("where");
+  if (rawWhere !== null) {
+    try {
+      const parsed = JSON.parse(rawWhere);
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        throw new Error("not an object");
+      }
+      where.push(parsed as Where);
+    } catch {
+      errors.push({
+        path: "where",
+        message: 'Must be a JSON object, e.g. {"title":{"like":"hello"}}',
+      });
+    }
+  }
+
+  const status = params.get("status");
+  if (status !== null) {
+    if (status === "draft" || status === "published") {
+      where.push({ _status: { equals: status } });
+    } else {
+      errors.push({ path: "status", message: "Must be draft or published" });
+    }
+  }
+
+  for (const [param, field] of [
+    ["author", "author"],
+    ["category", "categories"],
+  ] as const) {
+    const raw = params.get(param);
+    if (raw === null) continue;
+
+    const id = parseId(raw);
+    if (id === null) {
+      errors.push({ path: param, message: "Must be a numeric ID" });
+    } else {
+      where.push({ [field]: field === "categories" ? { in: [id] } : { equals: id } });
+    }
+  }
+
+  const locale = parseLocale(payload, params, errors);
+
+  if (errors.length > 0) throw invalidRequest(errors);
+
+  return { limit, page, cursor, sortField, descending, where, locale };
 }
 
-export async function POST(req: Request) {
-  const payload = await getPayload({ config: configPromise });
-  const body = await req.json().catch(() => ({}));
-
-  const title = typeof body.title === "string" ? body.title : "Custom API Post";
-  const slug = typeof body.slug === "string" ? body.slug : slugify(title);
-
-  // Demo override logic: if caller doesn't provide authorId, create/use an "API Bot" author.
-  let authorId = body.authorId;
-  if (authorId === undefined || authorId === null || authorId === "") {
-    const existing = await payload.find({
-      collection: "authors",
-      where: { name: { equals: "API Bot" } },
-      limit: 1,
+interface CreatePostInput {
+  title: string;
+  slug?: string;
+  excerpt?: string | null;
+  content?: Record<string, unknown> | null;
+  status: "draft" | "published";
+  authorId?: ID;
+  categoryIds?: ID[];
+}
+
+function parseCreateBody(body: unknown): CreatePostInput {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw invalidRequest([
+      { path: "", message: "Request body must be a JSON object" },
+    ]);
+  }
+
+  const input = body as Record<string, unknown>;
+  const errors: FieldError[] = [];
+
+  for (const key of Object.keys(input)) {
+    if (!(POST_BODY_FIELDS as readonly string[]).includes(key)) {
+      errors.push({ path: key, message: "Unknown field" });
+    }
+  }
+
+  const { title, slug, excerpt, content, status, authorId, categoryIds } =
+    input;
+
+  if (typeof title !== "string" || title.trim() === "") {
+    errors.push({ path: "title", message: "Required, must be a non-empty string" });
+  }
+  if (slug !== undefined && typeof slug !== "string") {
+    errors.push({ path: "slug", message: "Must be a string" });
+  }
+  if (excerpt !== undefined && excerpt !== null && typeof excerpt !== "string") {
+    errors.push({ path: "excerpt", message: "Must be a string or null" });
+  }
+  if (
+    content !== undefined &&
+    content !== null &&
+    (typeof content !== "object" || Array.isArray(content))
+  ) {
+    errors.push({
+      path: "content",
+      message: "Must be a Lexical editor state object or null",
+    });
+  }
+  if (status !== undefined && status !== "draft" && status !== "published") {
+    errors.push({ path: "status", message: "Must be draft or published" });
+  }
+  if (authorId !== undefined && authorId !== null && parseId(authorId) === null) {
+    errors.push({ path: "authorId", message: "Must be a numeric ID" });
+  }
+  if (categoryIds !== undefined) {
+    if (!Array.isArray(categoryIds)) {
+      errors.push({ path: "categoryIds", message: "Must be an array of IDs" });
+    } else {
+      categoryIds.forEach((id, index) => {
+        if (parseId(id) === null) {
+          errors.push({
+            path: `categoryIds.${index}`,
+            message: "Must be a numeric ID",
+          });
+        }
+      });
+    }
+  }
+
+  if (errors.length > 0) throw invalidRequest(errors);
+
+  return {
+    title: (title as string).trim(),
+    slug: slug as string | undefined,
+    excerpt: excerpt as string | null | undefined,
+    content: content as Record<string, unknown> | null | undefined,
+    status: status === "published" ? "published" : "draft",
+    authorId: parseId(authorId) ?? undefined,
+    categoryIds: Array.isArray(categoryIds)
+      ? categoryIds.map((id) => parseId(id) as ID)
+      : undefined,
+  };
+}
+
+// Payload stores relationship IDs without checking that they exist, which
+// would surface as a foreign key error; report unknown IDs as bad input
+async function assertRelationsExist(payload: Payload, input: CreatePostInput) {
+  const errors: FieldError[] = [];
+
+  const checks = [
+    { collection: "authors", path: "authorId", ids: input.authorId ? [input.authorId] : [] },
+    { collection: "categories", path: "categoryIds", ids: input.categoryIds ?? [] },
+  ] as const;
+
+  for (const { collection, path, ids } of checks) {
+    if (ids.length === 0) continue;
+
+    const { docs } = await payload.find({
+      collection,
+      where: { id: { in: ids } },
+      limit: ids.length,
+      depth: 0,
+      pagination: false,
       overrideAccess: true,
     });
+    const found = new Set(docs.map((doc) => doc.id));
 
-    if (existing.docs[0]?.id) {
-      authorId = existing.docs[0].id;
-    } else {
-      const createdAuthor = await payload.create({
+    ids.forEach((id, index) => {
+      if (!found.has(id)) {
+        errors.push({
+          path: path === "authorId" ? path : `${path}.${index}`,
+          message: `No ${collection === "authors" ? "author" : "category"} with ID ${id}`,
+        });
+      }
+    });
+  }
+
+  if (errors.length > 0) throw invalidRequest(errors);
+}
+
+// ============================================================================
+// Handlers
+// ============================================================================
+
+export async function GET(req: Request) {
+  try {
+    const payload = await getPayload({ config: configPromise });
+    const { user } = await payload.auth({ headers: req.headers });
+    const query = parseListQuery(payload, new URL(req.url).searchParams);
+
+    const { sortField, descending, cursor } = query;
+    const direction = descending ? "-" : "";
+    // The ID breaks ties so equal sort values never repeat or skip a post
+    const sort: Sort = [`${direction}${sortField}`, `${direction}id`];
+
+    const where: Where[] = [...query.where];
+    if (cursor) where.push(afterCursor(sortField, descending, cursor));
+
+    const options = {
+      collection: "posts" as const,
+      where: where.length > 0 ? { and: where } : undefined,
+      sort,
+      depth: 1,
+      locale: query.locale,
+      user,
+      overrideAccess: false,
+    };
+
+    // Cursor mode skips the count query and fetches one extra post to learn
+    // whether another page follows
+    const result = cursor
+      ? await payload.find({ ...options, limit: query.limit + 1, pagination: false })
+      : await payload.find({ ...options, limit: query.limit, page: query.page ?? 1 });
+
+    const hasNextPage = cursor
+      ? result.docs.length > query.limit
+      : result.hasNextPage;
+    const docs = result.docs.slice(0, query.limit);
+    const last = docs[docs.length - 1];
+    const nextCursor =
+      hasNextPage && last
+        ? encodeCursor({ value: last[sortField] ?? null, id: last.id })
+        : null;
+
+    return Response.json({
+      source: "custom-api",
+      note: "This response is from /api/custom/posts (custom route), not Payload's built-in CRUD.",
+      ...(cursor
+        ? { docs, limit: query.limit, hasNextPage }
+        : { ...result, docs }),
+      nextCursor,
+    });
+  } catch (error) {
+    return errorResponse(error, "[CUSTOM API]");
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    const payload = await getPayload({ config: configPromise });
+    const { user, permissions } = await payload.auth({ headers: req.headers });
+
+    if (!user) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!permissions.collections?.posts?.create) {
+      return Response.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    const localeErrors: FieldError[] = [];
+    const locale = parseLocale(payload, new URL(req.url).searchParams, localeErrors);
+    if (localeErrors.length > 0) throw invalidRequest(localeErrors);
+
+    const body = await req.json().catch(() => {
+      throw invalidRequest([{ path: "", message: "Request body must be valid JSON" }]);
+    });
+    const input = parseCreateBody(body);
+    await assertRelationsExist(payload, input);
+
+    // Demo override logic: if the caller doesn't provide authorId, use their
+    // own linked Author, or else create/use an "API Bot" author.
+    let authorId: ID | undefined = input.authorId;
+    if (authorId === undefined && user.author) {
+      authorId =
+        typeof user.author === "object" ? user.author.id : user.author;
+    }
+    if (authorId === undefined) {
+      const existing = await payload.find({
         collection: "authors",
-        data: { name: "API Bot", bio: "Created automatically by /api/custom/posts" },
+        where: { name: { equals: "API Bot" } },
+        limit: 1,
         overrideAccess: true,
       });
-      authorId = createdAuthor.id;
+
+      if (existing.docs[0]?.id) {
+        authorId = existing.docs[0].id;
+      } else {
+        const createdAuthor = await payload.create({
+          collection: "authors",
+          data: { name: "API Bot", bio: "Created automatically by /api/custom/posts" },
+          overrideAccess: true,
+        });
+        authorId = createdAuthor.id;
+      }
     }
-  }
 
-  const created = await payload.create({
-    collection: "posts",
-    data: {
-      title,
-      slug,
-      excerpt: typeof body.excerpt === "string" ? body.excerpt : "Created by custom API",
-      status: body.status === "published" ? "published" : "draft",
-      author: authorId,
-      categories: Array.isArray(body.categoryIds) ? body.categoryIds : undefined,
-      publishedOn: body.status === "published" ? new Date().toISOString() : undefined,
-    },
-    overrideAccess: true,
-  });
+    const created = await payload.create({
+      collection: "posts",
+      data: {
+        title: input.title,
+        // Left empty, the Posts `generatePostSlug` hook derives a unique slug
+        slug: input.slug as string,
+        excerpt: input.excerpt,
+        content: input.content as Post["content"],
+        _status: input.status,
+        author: authorId,
+        categories: input.categoryIds,
+      },
+      locale,
+      user,
+      overrideAccess: false,
+    });
 
-  return Response.json({
-    source: "custom-api",
-    created,
-  });
+    return Response.json(
+      {
+        source: "custom-api",
+        created,
+      },
+      { status: 201 }
+    );
+  } catch (error) {
+    return errorResponse(error, "[CUSTOM API]");
+  }
 }
@@ -0,0 +1,65 @@
+import { APIError, QueryError, ValidationError } from "payload";
+
+export interface FieldError {
+  path: string;
+  message: string;
+}
+
+// Error body shared by the custom routes:
+// `{ error: "…", errors?: [{ path: "title", message: "…" }] }`
+export interface ErrorBody {
+  error: string;
+  errors?: FieldError[];
+}
+
+// Malformed input is reported the same way Payload reports invalid fields,
+// so callers see one error shape whether a check failed here or in a hook
+export function invalidRequest(errors: FieldError[]): ValidationError {
+  return new ValidationError({ errors });
+}
+
+// Status and body for anything thrown while handling a request. Payload's
+// own errors keep their status (400 validation, 401, 403, 404); anything
+// unexpected is logged and reported as a bare 500.
+export function describeError(
+  error: unknown,
+  logPrefix: string
+): { status: number; body: ErrorBody } {
+  if (error instanceof ValidationError) {
+    return {
+      status: 400,
+      body: {
+        error: error.message,
+        errors: error.data.errors.map(({ path, message }) => ({
+          path,
+          message,
+        })),
+      },
+    };
+  }
+
+  if (error instanceof QueryError) {
+    return {
+      status: 400,
+      body: {
+        error: error.message,
+        errors: error.data.map(({ path }) => ({
+          path,
+          message: "This path cannot be queried",
+        })),
+      },
+    };
+  }
+
+  if (error instanceof APIError && error.status < 500) {
+    return { status: error.status, body: { error: error.message } };
+  }
+
+  console.error(`${logPrefix} Unhandled error:`, error);
+  return { status: 500, body: { error: "Internal server error" } };
+}
+
+export function errorResponse(error: unknown, logPrefix: string): Response {
+  const { status, body } = describeError(error, logPrefix);
+  return Response.json(body, { status });
+}
@@ -0,0 +1,326 @@
+import type { PayloadRequest } from "payload";
+import type { Post } from "../payload-types";
+import { invalidatePostStats } from "./post-stats";
+import { indexDocument } from "./search";
+
+// ============================================================================
+// Keeps `posts.categories` and `categories.posts` pointing at each other.
+//
+// Saving a post makes its `categories` authoritative for that post's links;
+// saving a category does the same for its `posts`. The other side is written
+// straight through the database adapter, so no hooks run for the mirrored
+// write (nothing recurses), and a published post keeps its status and any
+// newer draft instead of going through Payload's draft/publish update path.
+// What those hooks would have done is done here instead: the mirrored
+// document is re-indexed for search and the cached post stats are dropped.
+// The audit log, webhooks and translation status are not: a mirrored change
+// shows up there only as part of the save that caused it.
+//
+// Deleting either document removes its rows from the other side's `_rels`
+// table through the foreign key cascade.
+// ============================================================================
+
+type Relation = number | { id: number };
+
+export type PostCategoryLink = { post: number; category: number };
+
+export const repairStrategies = ["union", "posts", "categories"] as const;
+export type RepairStrategy = (typeof repairStrategies)[number];
+
+export interface PostCategoryMismatch extends PostCategoryLink {
+  // The side that is missing the link
+  missingFrom: "posts.categories" | "categories.posts";
+  action: "link" | "unlink";
+}
+
+export interface RepairResult {
+  strategy: RepairStrategy;
+  dryRun: boolean;
+  checked: { posts: number; categories: number };
+  mismatches: PostCategoryMismatch[];
+  summary: {
+    linked: number;
+    unlinked: number;
+    postsUpdated: number;
+    categoriesUpdated: number;
+  };
+}
+
+const ids = (values: Relation[] | null | undefined): number[] =>
+  (values ?? []).map((value) =>
+    typeof value === "object" ? value.id : value
+  );
+
+const sameIds = (a: number[], b: number[]) =>
+  a.length === b.length && a.every((id, index) => id === b[index]);
+
+// ----------------------------------------------------------------------------
+// Mirror writes
+// ----------------------------------------------------------------------------
+
+async function afterMirrorWrite(
+  req: PayloadRequest,
+  collection: "posts" | "categories",
+  id: number
+) {
+  await indexDocument(req, collection, id);
+  invalidatePostStats();
+}
+
+async function writeCategoryPosts(
+  req: PayloadRequest,
+  id: number,
+  posts: number[]
+) {
+  await req.payload.db.updateOne({
+    collection: "categories",
+    id,
+    data: { posts },
+    req,
+    returning: false,
+  });
+  await afterMirrorWrite(req, "categories", id);
+}
+
+// Updates the live document and its newest version, so the admin form (which
+// loads the newest version) shows the same categories
+async function writePostCategories(
+  req: PayloadRequest,
+  id: number,
+  categories: number[]
+) {
+  await req.payload.db.updateOne({
+    collection: "posts",
+    id,
+    data: { categories },
+    req,
+    returning: false,
+  });
+
+  const { docs } = await req.payload.db.findVersions({
+    collection: "posts",
+    where: { parent: { equals: id } },
+    sort: "-updatedAt",
+    limit: 1,
+    pagination: false,
+    req,
+  });
+  if (docs[0]) {
+    await req.payload.db.updateVersion<Pick<Post, "categories">>({
+      collection: "posts",
+      id: docs[0].id,
+      versionData: { version: { categories } },
+      req,
+      returning: false,
+    });
+  }
+  await afterMirrorWrite(req, "posts", id);
+}
+
+// ----------------------------------------------------------------------------
+// Hook helpers
+// ----------------------------------------------------------------------------
+
+// Reads the post's live document rather than the hook's `doc`: a draft save
+// doesn't change the live categories, so there is nothing to mirror yet
+export async function syncCategoriesOfPost(
+  req: PayloadRequest,
+  postId: number
+) {
+  const post = await req.payload.findByID({
+    collection: "posts",
+    id: postId,
+    depth: 0,
+    select: { categories: true },
+    disableErrors: true,
+    req,
+  });
+  if (!post) return;
+
+  const wanted = new Set(ids(post.categories));
+  const { docs: linked } = await req.payload.find({
+    collection: "categories",
+    where: { posts: { in: [postId] } },
+    depth: 0,
+    pagination: false,
+    select: { posts: true },
+    req,
+  });
+  const linkedIds = new Set(linked.map((category) => category.id));
+
+  for (const category of linked) {
+    if (!wanted.has(category.id)) {
+      const posts = ids(category.posts).filter((id) => id !== postId);
+      await writeCategoryPosts(req, category.id, posts);
+    }
+  }
+
+  const missing = [...wanted].filter((id) => !linkedIds.has(id));
+  if (missing.length === 0) return;
+
+  const { docs: toLink } = await req.payload.find({
+    collection: "categories",
+    where: { id: { in: missing } },
+    depth: 0,
+    pagination: false,
+    select: { posts: true },
+    req,
+  });
+  for (const category of toLink) {
+    await writeCategoryPosts(req, category.id, [
+      ...ids(category.posts),
+      postId,
+    ]);
+  }
+}
+
+export async function syncPostsOfCategory(
+  req: PayloadRequest,
+  categoryId: number,
+  postIds: number[]
+) {
+  const wanted = new Set(postIds);
+  const { docs: linked } = await req.payload.find({
+    collection: "posts",
+    where: { categories: { in: [categoryId] } },
+    depth: 0,
+    pagination: false,
+    select: { categories: true },
+    req,
+  });
+  const linkedIds = new Set(linked.map((post) => post.id));
+
+  for (const post of linked) {
+    if (!wanted.has(post.id)) {
+      const categories = ids(post.categories).filter(
+        (id) => id !== categoryId
+      );
+      await writePostCategories(req, post.id, categories);
+    }
+  }
+
+  const missing = [...wanted].filter((id) => !linkedIds.has(id));
+  if (missing.length === 0) return;
+
+  const { docs: toLink } = await req.payload.find({
+    collection: "posts",
+    where: { id: { in: missing } },
+    depth: 0,
+    pagination: false,
+    select: { categories: true },
+    req,
+  });
+  for (const post of toLink) {
+    await writePostCategories(req, post.id, [
+      ...ids(post.categories),
+      categoryId,
+    ]);
+  }
+}
+
+// ----------------------------------------------------------------------------
+// Repair - compares every link on both sides and fixes the differences
+// ----------------------------------------------------------------------------
+
+// `union` keeps a link found on either side; `posts` / `categories` treat
+// that side as the truth and remove links only the other side has
+export async function repairPostCategoryLinks(
+  req: PayloadRequest,
+  { strategy, dryRun }: { strategy: RepairStrategy; dryRun: boolean }
+): Promise<RepairResult> {
+  const [posts, categories] = await Promise.all([
+    req.payload.find({
+      collection: "posts",
+      depth: 0,
+      pagination: false,
+      select: { categories: true },
+      req,
+    }),
+    req.payload.find({
+      collection: "categories",
+      depth: 0,
+      pagination: false,
+      select: { posts: true },
+      req,
+    }),
+  ]);
+
+  const postCategories = new Map(
+    posts.docs.map((post) => [post.id, ids(post.categories)])
+  );
+  const categoryPosts = new Map(
+    categories.docs.map((category) => [category.id, ids(category.posts)])
+  );
+
+  const mismatches: PostCategoryMismatch[] = [];
+  for (const [post, categoryIds] of postCategories) {
+    for (const category of categoryIds) {
+      if (!categoryPosts.get(category)?.includes(post)) {
+        mismatches.push({
+          post,
+          category,
+          missingFrom: "categories.posts",
+          action: strategy === "categories" ? "unlink" : "link",
+        });
+      }
+    }
+  }
+  for (const [category, postIds] of categoryPosts) {
+    for (const post of postIds) {
+      if (!postCategories.get(post)?.includes(category)) {
+        mismatches.push({
+          post,
+          category,
+          missingFrom: "posts.categories",
+          action: strategy === "posts" ? "unlink" : "link",
+        });
+      }
+    }
+  }
+
+  // Apply every mismatch to copies of both sides, then write what changed
+  const nextPostCategories = new Map(
+    [...postCategories].map(([id, list]) => [id, [...list]])
+  );
+  const nextCategoryPosts = new Map(
+    [...categoryPosts].map(([id, list]) => [id, [...list]])
+  );
+  const remove = (map: Map<number, number[]>, key: number, id: number) =>
+    map.set(key, (map.get(key) ?? []).filter((value) => value !== id));
+
+  for (const { post, category, missingFrom, action } of mismatches) {
+    if (missingFrom === "categories.posts") {
+      if (action === "link") nextCategoryPosts.get(category)?.push(post);
+      else remove(nextPostCategories, post, category);
+    } else {
+      if (action === "link") nextPostCategories.get(post)?.push(category);
+      else remove(nextCategoryPosts, category, post);
+    }
+  }
+
+  let postsUpdated = 0;
+  let categoriesUpdated = 0;
+  for (const [id, list] of nextPostCategories) {
+    if (sameIds(list, postCategories.get(id) ?? [])) continue;
+    postsUpdated++;
+    if (!dryRun) await writePostCategories(req, id, list);
+  }
+  for (const [id, list] of nextCategoryPosts) {
+    if (sameIds(list, categoryPosts.get(id) ?? [])) continue;
+    categoriesUpdated++;
+    if (!dryRun) await writeCategoryPosts(req, id, list);
+  }
+
+  return {
+    strategy,
+    dryRun,
+    checked: { posts: posts.docs.length, categories: categories.docs.length },
+    mismatches,
+    summary: {
+      linked: mismatches.filter(({ action }) => action === "link").length,
+      unlinked: mismatches.filter(({ action }) => action === "unlink").length,
+      postsUpdated,
+      categoriesUpdated,
+    },
+  };
+}
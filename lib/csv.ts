@@ -0,0 +1,61 @@
+// ============================================================================
+// RFC 4180 CSV: comma-separated, CRLF line ends, fields quoted with "" when
+// they hold a comma, quote or line break. Used by the import/export endpoints
+// (lib/import-export.ts).
+// ============================================================================
+
+// Written at the start of exports so spreadsheet apps read the file as UTF-8
+export const CSV_BOM = "﻿";
+
+const quote = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// One record, line end included
+export const csvLine = (values: string[]): string =>
+  `${values.map(quote).join(",")}\r\n`;
+
+// All records of a document, header included. Accepts LF or CRLF line ends
+// and a leading byte order mark; blank lines are skipped. Throws on a quote
+// that is never closed.
+export function parseCSV(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let value = "";
+  let quoted = false;
+  let i = text.startsWith(CSV_BOM) ? 1 : 0;
+
+  const endRecord = () => {
+    record.push(value);
+    if (record.length > 1 || record[0] !== "") records.push(record);
+    record = [];
+    value = "";
+  };
+
+  for (; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"' && value === "") {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(value);
+      value = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRecord();
+    } else {
+      value += char;
+    }
+  }
+
+  if (quoted) throw new Error("A quoted value is never closed");
+  if (value !== "" || record.length > 0) endRecord();
+  return records;
+}
@@ -0,0 +1,432 @@
+import crypto from "crypto";
+import type { Payload, TypedLocale, Where } from "payload";
+import {
+  convertLexicalToHTML,
+  LinkHTMLConverter,
+} from "@payloadcms/richtext-lexical/html";
+import type { SerializedEditorState } from "@payloadcms/richtext-lexical/lexical";
+import type { Author, Category, Media, Post } from "../payload-types";
+import { internalDocToHref } from "./internal-links";
+import { localeHref } from "./localized-paths";
+import { postsInCategoryWhere } from "./posts";
+import { resolveServerURL } from "./server-url";
+import { escapeXML as xml, XML_DECLARATION } from "./xml";
+
+// ============================================================================
+// Syndication feeds of published posts: RSS 2.0 (/feed.xml), Atom
+// (/atom.xml) and JSON Feed 1.1 (/feed.json). Every format has a per-locale
+// variant (/zh/feed.xml) and narrows to one category (including its
+// subcategories) with `?category=<id or path>` or one author with
+// `?author=<id>`.
+// ============================================================================
+
+export const feedFormats = ["rss", "atom", "json"] as const;
+export type FeedFormat = (typeof feedFormats)[number];
+
+const FEED_LIMIT = 20;
+
+const FEED_PATHS: Record<FeedFormat, string> = {
+  rss: "/feed.xml",
+  atom: "/atom.xml",
+  json: "/feed.json",
+};
+
+const CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: "application/rss+xml; charset=utf-8",
+  atom: "application/atom+xml; charset=utf-8",
+  json: "application/feed+json; charset=utf-8",
+};
+
+export interface FeedItem {
+  url: string;
+  title: string;
+  summary: string | null;
+  html: string;
+  image: { url: string; mimeType: string; size: number } | null;
+  published: Date;
+  updated: Date;
+  author: { name: string; url: string; avatar: string | null } | null;
+  categories: string[];
+}
+
+export interface Feed {
+  title: string;
+  description: string | null;
+  language: string;
+  homeURL: string;
+  feedURL: string;
+  // Newest `updatedAt` of the posts, the site settings and the category or
+  // author the feed is narrowed to
+  updated: Date;
+  items: FeedItem[];
+}
+
+// ----------------------------------------------------------------------------
+// Building the feed
+// ----------------------------------------------------------------------------
+
+// Feed readers resolve nothing relative to the feed, so every root-relative
+// link and image in the rendered content gets the site origin
+const absolutize = (html: string, siteURL: string) =>
+  html.replace(/(href|src|srcset)="\/(?!\/)/g, `$1="${siteURL}/`);
+
+const renderContent = (
+  content: Post["content"],
+  siteURL: string,
+  locale: string
+) =>
+  content
+    ? absolutize(
+        convertLexicalToHTML({
+          data: content as unknown as SerializedEditorState,
+          converters: ({ defaultConverters }) => ({
+            ...defaultConverters,
+            // Internal links point at the pages in the feed's locale
+            ...LinkHTMLConverter({
+              internalDocToHref: (args) => {
+                const href = internalDocToHref(args);
+                return href === "#" ? href : localeHref(href, locale);
+              },
+            }),
+          }),
+          disableContainer: true,
+        }),
+        siteURL
+      )
+    : "";
+
+const mediaURL = (media: number | Media | null | undefined, siteURL: string) =>
+  media && typeof media === "object" && media.url
+    ? new URL(media.url, siteURL).toString()
+    : null;
+
+const featuredImage = (
+  media: number | Media | null | undefined,
+  siteURL: string
+): FeedItem["image"] => {
+  const url = mediaURL(media, siteURL);
+  if (!url || !media || typeof media !== "object") return null;
+  return {
+    url,
+    mimeType: media.mimeType ?? "image/jpeg",
+    size: media.filesize ?? 0,
+  };
+};
+
+const newest = (dates: (string | null | undefined)[]) =>
+  new Date(Math.max(0, ...dates.map((date) => (date ? Date.parse(date) : 0))));
+
+type FeedFilter =
+  | { type: "category"; doc: Category }
+  | { type: "author"; doc: Author };
+
+// `?category=` takes an ID or a path like "technology/web"; unknown values
+// resolve to `null` so the route can answer 404
+async function resolveFilter(
+  payload: Payload,
+  params: URLSearchParams,
+  locale: TypedLocale
+): Promise<FeedFilter | undefined | null> {
+  const category = params.get("category");
+  if (category) {
+    const { docs } = await payload.find({
+      collection: "categories",
+      where: /^\d+$/.test(category)
+        ? { id: { equals: Number(category) } }
+        : { path: { equals: category } },
+      locale,
+      depth: 0,
+      limit: 1,
+    });
+    return docs[0] ? { type: "category", doc: docs[0] } : null;
+  }
+
+  const author = params.get("author");
+  if (author) {
+    const doc = /^\d+$/.test(author)
+      ? await payload.findByID({
+          collection: "authors",
+          id: Number(author),
+          locale,
+          depth: 0,
+          disableErrors: true,
+        })
+      : null;
+    return doc ? { type: "author", doc } : null;
+  }
+
+  return undefined;
+}
+
+export async function buildFeed(
+  payload: Payload,
+  {
+    format,
+    locale,
+    siteURL,
+    params,
+    localePath = false,
+  }: {
+    format: FeedFormat;
+    locale: TypedLocale;
+    siteURL: string;
+    params: URLSearchParams;
+    // Requested as /{locale}/feed.xml rather than /feed.xml
+    localePath?: boolean;
+  }
+): Promise<Feed | null> {
+  const filter = await resolveFilter(payload, params, locale);
+  if (filter === null) return null;
+
+  const where: Where[] = [{ _status: { equals: "published" } }];
+  if (filter?.type === "category") where.push(postsInCategoryWhere(filter.doc.id));
+  if (filter?.type === "author") where.push({ author: { equals: filter.doc.id } });
+
+  const [settings, posts] = await Promise.all([
+    payload.findGlobal({ slug: "site-settings", locale, depth: 0 }),
+    payload.find({
+      collection: "posts",
+      where: { and: where },
+      sort: "-publishedOn",
+      limit: FEED_LIMIT,
+      locale,
+      depth: 1,
+    }),
+  ]);
+
+  const feedURL = new URL(
+    `${localePath ? `/${locale}` : ""}${FEED_PATHS[format]}`,
+    siteURL
+  );
+  if (filter) feedURL.searchParams.set(filter.type, String(filter.doc.id));
+  // Pages in the feed's locale, e.g. /zh/posts/hello
+  const pageURL = (path: string) =>
+    new URL(localeHref(path, locale), siteURL).toString();
+
+  const siteName = settings.siteName || "Blog";
+  return {
+    title: filter
+      ? `${siteName} - ${filter.type === "category" ? filter.doc.title : filter.doc.name}`
+      : siteName,
+    description:
+      (filter?.type === "category" ? filter.doc.description : null) ??
+      (filter?.type === "author" ? filter.doc.bio : null) ??
+      settings.tagline ??
+      null,
+    language: locale,
+    homeURL: pageURL(
+      filter?.type === "category"
+        ? `/categories/${filter.doc.id}`
+        : filter?.type === "author"
+          ? `/authors/${filter.doc.id}`
+          : "/posts"
+    ),
+    feedURL: feedURL.toString(),
+    updated: newest([
+      ...posts.docs.map((post) => post.updatedAt),
+      settings.updatedAt,
+      filter?.doc.updatedAt,
+    ]),
+    items: posts.docs.map((post) => {
+      const author = typeof post.author === "object" ? post.author : null;
+      return {
+        url: pageURL(`/posts/${post.slug}`),
+        title: post.title,
+        summary: post.excerpt || null,
+        html: renderContent(post.content, siteURL, locale),
+        image: featuredImage(post.featuredImage, siteURL),
+        published: new Date(post.publishedOn ?? post.createdAt),
+        updated: new Date(post.updatedAt),
+        author: author
+          ? {
+              name: author.name,
+              url: pageURL(`/authors/${author.id}`),
+              avatar: mediaURL(author.avatar, siteURL),
+            }
+          : null,
+        categories: (post.categories ?? [])
+          .filter((category) => typeof category === "object")
+          .map((category) => category.title),
+      };
+    }),
+  };
+}
+
+// ----------------------------------------------------------------------------
+// Rendering
+// ----------------------------------------------------------------------------
+
+export function renderRSS(feed: Feed): string {
+  const items = feed.items.map((item) =>
+    [
+      "<item>",
+      `<title>${xml(item.title)}</title>`,
+      `<link>${xml(item.url)}</link>`,
+      `<guid isPermaLink="true">${xml(item.url)}</guid>`,
+      `<pubDate>${item.published.toUTCString()}</pubDate>`,
+      item.author && `<dc:creator>${xml(item.author.name)}</dc:creator>`,
+      ...item.categories.map((title) => `<category>${xml(title)}</category>`),
+      item.summary && `<description>${xml(item.summary)}</description>`,
+      item.image &&
+        `<enclosure url="${xml(item.image.url)}" length="${item.image.size}" type="${xml(item.image.mimeType)}"/>`,
+      `<content:encoded>${xml(item.html)}</content:encoded>`,
+      "</item>",
+    ]
+      .filter(Boolean)
+      .join("")
+  );
+
+  return [
+    XML_DECLARATION,
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    "<channel>",
+    `<title>${xml(feed.title)}</title>`,
+    `<link>${xml(feed.homeURL)}</link>`,
+    `<description>${xml(feed.description ?? feed.title)}</description>`,
+    `<language>${xml(feed.language)}</language>`,
+    `<lastBuildDate>${feed.updated.toUTCString()}</lastBuildDate>`,
+    `<atom:link href="${xml(feed.feedURL)}" rel="self" type="application/rss+xml"/>`,
+    "<generator>Payload</generator>",
+    ...items,
+    "</channel>",
+    "</rss>",
+  ].join("\n");
+}
+
+export function renderAtom(feed: Feed): string {
+  const entries = feed.items.map((item) =>
+    [
+      "<entry>",
+      `<title>${xml(item.title)}</title>`,
+      `<link href="${xml(item.url)}"/>`,
+      `<id>${xml(item.url)}</id>`,
+      `<published>${item.published.toISOString()}</published>`,
+      `<updated>${item.updated.toISOString()}</updated>`,
+      item.author &&
+        `<author><name>${xml(item.author.name)}</name><uri>${xml(item.author.url)}</uri></author>`,
+      ...item.categories.map((title) => `<category term="${xml(title)}"/>`),
+      item.summary && `<summary>${xml(item.summary)}</summary>`,
+      `<content type="html">${xml(item.html)}</content>`,
+      "</entry>",
+    ]
+      .filter(Boolean)
+      .join("")
+  );
+
+  return [
+    XML_DECLARATION,
+    `<feed xmlns="http://www.w3.org/2005/Atom" xml:lang="${xml(feed.language)}">`,
+    `<title>${xml(feed.title)}</title>`,
+    feed.description && `<subtitle>${xml(feed.description)}</subtitle>`,
+    `<link href="${xml(feed.homeURL)}"/>`,
+    `<link href="${xml(feed.feedURL)}" rel="self" type="application/atom+xml"/>`,
+    `<id>${xml(feed.feedURL)}</id>`,
+    `<updated>${feed.updated.toISOString()}</updated>`,
+    "<generator>Payload</generator>",
+    ...entries,
+    "</feed>",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+export function renderJSONFeed(feed: Feed): string {
+  return JSON.stringify({
+    version: "https://jsonfeed.org/version/1.1",
+    title: feed.title,
+    home_page_url: feed.homeURL,
+    feed_url: feed.feedURL,
+    ...(feed.description && { description: feed.description }),
+    language: feed.language,
+    items: feed.items.map((item) => ({
+      id: item.url,
+      url: item.url,
+      title: item.title,
+      content_html: item.html,
+      ...(item.summary && { summary: item.summary }),
+      ...(item.image && { image: item.image.url }),
+      date_published: item.published.toISOString(),
+      date_modified: item.updated.toISOString(),
+      ...(item.author && {
+        authors: [
+          {
+            name: item.author.name,
+            url: item.author.url,
+            ...(item.author.avatar && { avatar: item.author.avatar }),
+          },
+        ],
+      }),
+      ...(item.categories.length > 0 && { tags: item.categories }),
+    })),
+  });
+}
+
+const renderers: Record<FeedFormat, (feed: Feed) => string> = {
+  rss: renderRSS,
+  atom: renderAtom,
+  json: renderJSONFeed,
+};
+
+// ----------------------------------------------------------------------------
+// HTTP
+// ----------------------------------------------------------------------------
+
+// Answers a feed request, or 304 when the client's ETag / Last-Modified still
+// matches. The ETag covers every entry's `updatedAt`, so unpublishing or
+// deleting a post changes it even when the newest date stays the same.
+export async function feedResponse(
+  payload: Payload,
+  request: Request,
+  { format, locale }: { format: FeedFormat; locale?: string }
+): Promise<Response> {
+  const localization = payload.config.localization;
+  const localeCodes = localization ? localization.localeCodes : ["en"];
+  if (locale && !localeCodes.includes(locale)) {
+    return Response.json({ error: "Not Found" }, { status: 404 });
+  }
+
+  const params = new URL(request.url).searchParams;
+  const feed = await buildFeed(payload, {
+    format,
+    locale: (locale ??
+      (localization ? localization.defaultLocale : "en")) as TypedLocale,
+    siteURL: resolveServerURL(request.headers),
+    params,
+    localePath: Boolean(locale),
+  });
+  if (!feed) {
+    return Response.json({ error: "Not Found" }, { status: 404 });
+  }
+
+  const etag = `W/"${crypto
+    .createHash("sha1")
+    .update(
+      JSON.stringify([
+        format,
+        feed.feedURL,
+        feed.updated.getTime(),
+        feed.items.map((item) => [item.url, item.updated.getTime()]),
+      ])
+    )
+    .digest("hex")}"`;
+  // HTTP dates have second precision
+  const lastModified = new Date(Math.floor(feed.updated.getTime() / 1000) * 1000);
+  const headers = {
+    "Content-Type": CONTENT_TYPES[format],
+    "Cache-Control": "public, max-age=0, must-revalidate",
+    ETag: etag,
+    "Last-Modified": lastModified.toUTCString(),
+  };
+
+  const ifNoneMatch = request.headers.get("if-none-match");
+  const ifModifiedSince = request.headers.get("if-modified-since");
+  const notModified = ifNoneMatch
+    ? ifNoneMatch.split(",").some((tag) => tag.trim() === etag || tag.trim() === "*")
+    : ifModifiedSince !== null &&
+      Date.parse(ifModifiedSince) >= lastModified.getTime();
+  if (notModified) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  return new Response(renderers[format](feed), { headers });
+}
@@ -0,0 +1,972 @@
+import {
+  APIError,
+  commitTransaction,
+  initTransaction,
+  killTransaction,
+  type CollectionSlug,
+  type Field,
+  type Payload,
+  type PayloadRequest,
+  type Sort,
+  type TypedLocale,
+  type Where,
+} from "payload";
+import { describeError, invalidRequest, type FieldError } from "./api-errors";
+import { CSV_BOM, csvLine, parseCSV } from "./csv";
+import { keepingRequestLocale } from "./request-locale";
+import { localeOptions } from "./translations";
+
+// ============================================================================
+// Import and export of any collection as CSV, JSON or NDJSON.
+//
+// Every format holds the same flat rows, one per document, keyed by column:
+//
+// - localized fields get one column per locale: `title:en`, `title:zh`,
+//   `seo.metaTitle:zh` (a localized group localizes everything inside it)
+// - groups and named tabs are flattened to dot paths: `seo.noindex`
+// - relationships and uploads hold IDs or, for collections with a `slug`
+//   field, slugs; hasMany ones are joined with "|" in CSV and arrays in
+//   JSON, and polymorphic ones are prefixed: `posts:hello-world`
+// - arrays, blocks, rich text, JSON and other structured values are JSON
+//   (encoded as text in CSV)
+// - `id`, `createdAt` and `updatedAt` come first and `_status` follows for
+//   collections with drafts; imports ignore all but `_status`
+// - on import, an empty cell (or null) clears the field, except in locales
+//   other than the default, where it leaves the translation as it is
+//
+// Exports stream page by page and read the latest drafts. Imports validate
+// and save each row in its own transaction, so one bad row doesn't stop the
+// rest; a dry run rolls every row back after the save went through, which
+// runs the same validation and hooks without keeping anything.
+// ============================================================================
+
+export const EXPORT_FORMATS = ["csv", "json", "ndjson"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const RELATIONSHIP_MODES = ["id", "slug"] as const;
+export type RelationshipMode = (typeof RELATIONSHIP_MODES)[number];
+
+// `upsert` updates the document with the row's slug and creates the rest
+export const IMPORT_MODES = ["create", "upsert"] as const;
+export type ImportMode = (typeof IMPORT_MODES)[number];
+
+export const IMPORT_MAX_ROWS = 1_000;
+
+const EXPORT_PAGE_SIZE = 100;
+const LIST_SEPARATOR = "|";
+
+export const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+};
+
+// Exported for reference only; an import leaves them to Payload
+const SYSTEM_COLUMNS = ["id", "createdAt", "updatedAt"];
+
+type ColumnKind =
+  | "text"
+  | "number"
+  | "checkbox"
+  | "date"
+  | "json"
+  | "relationship";
+
+interface Column {
+  // Header, e.g. "seo.metaTitle:zh"
+  key: string;
+  // Where the value sits in a document read in a single locale
+  path: string[];
+  locale: string | null;
+  // Index in `path` of the localized field or group: documents read in every
+  // locale hold a `{ en, zh }` object there
+  localizedAt: number;
+  kind: ColumnKind;
+  hasMany: boolean;
+  relationTo?: string | string[];
+}
+
+type ColumnSpec = Omit<Column, "key" | "locale">;
+
+type Row = Record<string, unknown>;
+
+// ----------------------------------------------------------------------------
+// Columns
+// ----------------------------------------------------------------------------
+
+// Fields nobody edits by hand, e.g. the auth collections' sessions
+const isHidden = (field: Field) => {
+  const admin = (field.admin ?? {}) as { hidden?: boolean; disabled?: boolean };
+  return (
+    ("hidden" in field && field.hidden === true) ||
+    Boolean(admin.hidden || admin.disabled)
+  );
+};
+
+// Walks rows, collapsibles, tabs and groups like translatableFields in
+// lib/translations.ts. Hidden, virtual and UI-only fields are left out.
+function fieldSpecs(
+  fields: Field[],
+  parent: { path: string[]; localizedAt: number } = { path: [], localizedAt: -1 }
+): ColumnSpec[] {
+  return fields.flatMap((field): ColumnSpec[] => {
+    if (field.type === "row" || field.type === "collapsible") {
+      return fieldSpecs(field.fields, parent);
+    }
+    if (field.type === "tabs") {
+      return field.tabs.flatMap((tab) => {
+        if (!("name" in tab && tab.name)) return fieldSpecs(tab.fields, parent);
+        const path = [...parent.path, tab.name];
+        return fieldSpecs(tab.fields, {
+          path,
+          localizedAt:
+            parent.localizedAt < 0 && tab.localized
+              ? path.length - 1
+              : parent.localizedAt,
+        });
+      });
+    }
+    if (!("name" in field) || field.type === "ui" || field.type === "join") {
+      return [];
+    }
+    if (("virtual" in field && field.virtual) || isHidden(field)) return [];
+    const isSystem = [...SYSTEM_COLUMNS, "_status"].includes(field.name);
+    if (parent.path.length === 0 && isSystem) return [];
+
+    const path = [...parent.path, field.name];
+    const localizedAt =
+      parent.localizedAt < 0 && "localized" in field && field.localized
+        ? path.length - 1
+        : parent.localizedAt;
+
+    switch (field.type) {
+      case "group":
+        return fieldSpecs(field.fields, { path, localizedAt });
+      case "text":
+      case "textarea":
+      case "email":
+      case "code":
+      case "radio":
+        return [
+          {
+            path,
+            localizedAt,
+            kind: "hasMany" in field && field.hasMany ? "json" : "text",
+            hasMany: false,
+          },
+        ];
+      case "select":
+        return [
+          {
+            path,
+            localizedAt,
+            kind: field.hasMany ? "json" : "text",
+            hasMany: false,
+          },
+        ];
+      case "number":
+        return [
+          {
+            path,
+            localizedAt,
+            kind: field.hasMany ? "json" : "number",
+            hasMany: false,
+          },
+        ];
+      case "checkbox":
+      case "date":
+        return [{ path, localizedAt, kind: field.type, hasMany: false }];
+      case "relationship":
+      case "upload":
+        return [
+          {
+            path,
+            localizedAt,
+            kind: "relationship",
+            hasMany: Boolean(field.hasMany),
+            relationTo: field.relationTo,
+          },
+        ];
+      default:
+        // array, blocks, richText, json, point
+        return [{ path, localizedAt, kind: "json", hasMany: false }];
+    }
+  });
+}
+
+const hasDrafts = (payload: Payload, slug: string) =>
+  Boolean(payload.collections[slug as CollectionSlug].config.versions?.drafts);
+
+// Upserts and slug references need one
+export const hasSlugField = (payload: Payload, slug: string) =>
+  payload.collections[slug as CollectionSlug]?.config.fields.some(
+    (field) => "name" in field && field.name === "slug"
+  ) ?? false;
+
+// The columns of a collection, in field order with every locale of a
+// localized field side by side
+export function collectionColumns(payload: Payload, slug: string): Column[] {
+  const { localeCodes } = localeOptions(payload);
+  const system: Column[] = [...SYSTEM_COLUMNS, "_status"]
+    .filter((name) => name !== "_status" || hasDrafts(payload, slug))
+    .map((name) => ({
+      key: name,
+      path: [name],
+      locale: null,
+      localizedAt: -1,
+      kind: name === "id" ? "number" : "text",
+      hasMany: false,
+    }));
+
+  const fields = fieldSpecs(
+    payload.collections[slug as CollectionSlug].config.fields
+  ).flatMap((spec): Column[] =>
+    spec.localizedAt < 0
+      ? [{ ...spec, key: spec.path.join("."), locale: null }]
+      : localeCodes.map((locale) => ({
+          ...spec,
+          key: `${spec.path.join(".")}:${locale}`,
+          locale,
+        }))
+  );
+
+  return [...system, ...fields];
+}
+
+// Where a column's value sits in a document read with `locale: "all"`
+const allLocalesPath = (column: Column) =>
+  column.locale === null
+    ? column.path
+    : [
+        ...column.path.slice(0, column.localizedAt + 1),
+        column.locale,
+        ...column.path.slice(column.localizedAt + 1),
+      ];
+
+const valueAt = (doc: unknown, path: string[]): unknown =>
+  path.reduce<unknown>(
+    (value, key) =>
+      value && typeof value === "object"
+        ? (value as Record<string, unknown>)[key]
+        : undefined,
+    doc
+  );
+
+const setValueAt = (doc: Row, path: string[], value: unknown) => {
+  let target = doc;
+  for (const key of path.slice(0, -1)) {
+    if (!target[key] || typeof target[key] !== "object") target[key] = {};
+    target = target[key] as Row;
+  }
+  target[path[path.length - 1]] = value;
+};
+
+// ----------------------------------------------------------------------------
+// Export
+// ----------------------------------------------------------------------------
+
+export interface ExportOptions {
+  format: ExportFormat;
+  relationships: RelationshipMode;
+  where?: Where;
+  sort?: Sort;
+}
+
+// `?format=` (default csv), `?relationships=` (id or slug, default id),
+// `?sort=` and the list view's filters: `?where=` (bracket syntax or JSON)
+// and `?search=`, which matches the title field like the list's search box
+export function parseExportParams(
+  req: PayloadRequest,
+  slug: string
+): ExportOptions {
+  const params = req.searchParams;
+  const errors: FieldError[] = [];
+
+  const format = EXPORT_FORMATS.find(
+    (value) => value === (params.get("format") ?? "csv")
+  );
+  if (!format) {
+    errors.push({
+      path: "format",
+      message: `Must be one of: ${EXPORT_FORMATS.join(", ")}`,
+    });
+  }
+  const relationships = RELATIONSHIP_MODES.find(
+    (value) => value === (params.get("relationships") ?? "id")
+  );
+  if (!relationships) {
+    errors.push({
+      path: "relationships",
+      message: `Must be one of: ${RELATIONSHIP_MODES.join(", ")}`,
+    });
+  }
+
+  const where: Where[] = [];
+  const rawWhere = req.query?.where;
+  if (typeof rawWhere === "string") {
+    try {
+      const parsed: unknown = JSON.parse(rawWhere);
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        throw new Error("not an object");
+      }
+      where.push(parsed as Where);
+    } catch {
+      errors.push({ path: "where", message: "Must be a JSON object" });
+    }
+  } else if (rawWhere && typeof rawWhere === "object") {
+    where.push(rawWhere as Where);
+  }
+
+  const search = params.get("search")?.trim();
+  if (search) {
+    const { admin } = req.payload.collections[slug as CollectionSlug].config;
+    const fields = admin.listSearchableFields?.length
+      ? admin.listSearchableFields
+      : [admin.useAsTitle ?? "id"];
+    where.push({ or: fields.map((field) => ({ [field]: { like: search } })) });
+  }
+
+  if (errors.length > 0) throw invalidRequest(errors);
+
+  return {
+    format: format as ExportFormat,
+    relationships: relationships as RelationshipMode,
+    where: where.length > 0 ? { and: where } : undefined,
+    sort: (params.get("sort") || "id") as Sort,
+  };
+}
+
+// Slugs of related documents, looked up a page at a time
+class SlugCache {
+  private slugs = new Map<string, Map<string | number, string>>();
+
+  constructor(private payload: Payload) {}
+
+  async load(collection: string, ids: (string | number)[]) {
+    if (!hasSlugField(this.payload, collection)) return;
+    const known = this.slugs.get(collection) ?? new Map();
+    this.slugs.set(collection, known);
+
+    const missing = [...new Set(ids)].filter((id) => !known.has(id));
+    if (missing.length === 0) return;
+    const { docs } = await this.payload.find({
+      collection: collection as CollectionSlug,
+      where: { id: { in: missing } },
+      depth: 0,
+      pagination: false,
+      draft: hasDrafts(this.payload, collection),
+    });
+    for (const doc of docs as unknown as Row[]) {
+      if (typeof doc.slug === "string" && doc.slug) {
+        known.set(doc.id as string | number, doc.slug);
+      }
+    }
+  }
+
+  get(collection: string, id: string | number): string | number {
+    return this.slugs.get(collection)?.get(id) ?? id;
+  }
+}
+
+// A relationship value read at depth 0: an ID, or `{ relationTo, value }`
+// for polymorphic relationships
+const relationRefs = (value: unknown) =>
+  (Array.isArray(value) ? value : value == null ? [] : [value]).map((item) =>
+    item && typeof item === "object" && "relationTo" in item
+      ? {
+          collection: String(item.relationTo),
+          id: (item as { value: unknown }).value as string | number,
+          polymorphic: true,
+        }
+      : { collection: "", id: item as string | number, polymorphic: false }
+  );
+
+async function toRows(
+  docs: Row[],
+  columns: Column[],
+  relationships: RelationshipMode,
+  slugs: SlugCache
+): Promise<Row[]> {
+  if (relationships === "slug") {
+    const ids = new Map<string, (string | number)[]>();
+    for (const column of columns) {
+      if (column.kind !== "relationship") continue;
+      for (const doc of docs) {
+        for (const ref of relationRefs(valueAt(doc, allLocalesPath(column)))) {
+          const collection = ref.polymorphic
+            ? ref.collection
+            : String(column.relationTo);
+          ids.set(collection, [...(ids.get(collection) ?? []), ref.id]);
+        }
+      }
+    }
+    for (const [collection, list] of ids) await slugs.load(collection, list);
+  }
+
+  return docs.map((doc) =>
+    Object.fromEntries(
+      columns.map((column) => {
+        const value = valueAt(doc, allLocalesPath(column)) ?? null;
+        if (column.kind !== "relationship" || value === null) {
+          return [column.key, value];
+        }
+        const refs = relationRefs(value).map((ref) => {
+          const collection = ref.polymorphic
+            ? ref.collection
+            : String(column.relationTo);
+          const shown =
+            relationships === "slug" ? slugs.get(collection, ref.id) : ref.id;
+          return ref.polymorphic ? `${collection}:${shown}` : shown;
+        });
+        return [column.key, column.hasMany ? refs : (refs[0] ?? null)];
+      })
+    )
+  );
+}
+
+const csvValue = (column: Column, value: unknown): string => {
+  if (value === null || value === undefined) return "";
+  if (column.kind === "relationship" && Array.isArray(value)) {
+    return value.join(LIST_SEPARATOR);
+  }
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
+
+// The export as a streamed download. The first page is read before the
+// response starts, so a bad `where` is still answered with a 400.
+export async function exportResponse(
+  req: PayloadRequest,
+  slug: string,
+  options: ExportOptions
+): Promise<Response> {
+  const { payload } = req;
+  const columns = collectionColumns(payload, slug);
+  const slugs = new SlugCache(payload);
+
+  const findPage = (page: number) =>
+    payload.find({
+      collection: slug as CollectionSlug,
+      where: options.where,
+      sort: options.sort,
+      locale: "all",
+      depth: 0,
+      draft: hasDrafts(payload, slug),
+      limit: EXPORT_PAGE_SIZE,
+      page,
+      user: req.user,
+      overrideAccess: false,
+    });
+
+  let result = await findPage(1);
+  let rowCount = 0;
+  const encoder = new TextEncoder();
+  const encode = (rows: Row[]) =>
+    rows
+      .map((row) => {
+        const index = rowCount++;
+        switch (options.format) {
+          case "csv":
+            return csvLine(
+              columns.map((column) => csvValue(column, row[column.key]))
+            );
+          case "json":
+            return `${index === 0 ? "" : ",\n"}${JSON.stringify(row)}`;
+          case "ndjson":
+            return `${JSON.stringify(row)}\n`;
+        }
+      })
+      .join("");
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (options.format === "csv") {
+        controller.enqueue(
+          encoder.encode(CSV_BOM + csvLine(columns.map((column) => column.key)))
+        );
+      }
+      if (options.format === "json") controller.enqueue(encoder.encode("[\n"));
+    },
+    async pull(controller) {
+      try {
+        const rows = await toRows(
+          result.docs as unknown as Row[],
+          columns,
+          options.relationships,
+          slugs
+        );
+        controller.enqueue(encoder.encode(encode(rows)));
+
+        if (!result.hasNextPage) {
+          if (options.format === "json") {
+            controller.enqueue(encoder.encode(rowCount > 0 ? "\n]\n" : "]\n"));
+          }
+          console.log(
+            `[CUSTOM API] Exported ${rowCount} ${slug} as ${options.format}`
+          );
+          controller.close();
+          return;
+        }
+        result = await findPage((result.page ?? 1) + 1);
+      } catch (error) {
+        console.error(`[CUSTOM API] Export of ${slug} failed:`, error);
+        controller.error(error);
+      }
+    },
+  });
+
+  const fileName = `${slug}-${new Date().toISOString().slice(0, 10)}`;
+  return new Response(stream, {
+    headers: {
+      "Content-Type": CONTENT_TYPES[options.format],
+      "Content-Disposition": `attachment; filename="${fileName}.${options.format}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+// ----------------------------------------------------------------------------
+// Import
+// ----------------------------------------------------------------------------
+
+export interface ImportOptions {
+  format: ExportFormat;
+  mode: ImportMode;
+  dryRun: boolean;
+}
+
+export type ImportRowStatus =
+  | "created"
+  | "updated"
+  | "would-create"
+  | "would-update"
+  | "failed";
+
+export interface ImportRowResult {
+  // 1-based, counting data rows only (not a CSV header)
+  row: number;
+  status: ImportRowStatus;
+  id?: string | number;
+  slug?: string;
+  error?: string;
+  errors?: FieldError[];
+}
+
+export interface ImportResult {
+  collection: string;
+  mode: ImportMode;
+  dryRun: boolean;
+  columns: string[];
+  summary: Partial<Record<ImportRowStatus, number>>;
+  rows: ImportRowResult[];
+}
+
+// Collections whose documents can't be created from a row alone
+export function importBlockedReason(
+  payload: Payload,
+  slug: string
+): string | null {
+  const { config } = payload.collections[slug as CollectionSlug];
+  if (config.upload) return "Uploads can't be imported without their files";
+  if (config.auth) return "Accounts can't be imported; they need passwords";
+  return null;
+}
+
+// `?format=` wins over the body's Content-Type; `?mode=` (default create) and
+// `?dryRun=true`
+export function parseImportParams(
+  req: PayloadRequest,
+  slug: string
+): ImportOptions {
+  const params = req.searchParams;
+  const errors: FieldError[] = [];
+
+  const contentType = req.headers.get("content-type") ?? "";
+  const format = EXPORT_FORMATS.find(
+    (value) =>
+      value ===
+      (params.get("format") ??
+        (contentType.includes("ndjson")
+          ? "ndjson"
+          : contentType.includes("json")
+            ? "json"
+            : "csv"))
+  );
+  if (!format) {
+    errors.push({
+      path: "format",
+      message: `Must be one of: ${EXPORT_FORMATS.join(", ")}`,
+    });
+  }
+  const mode = IMPORT_MODES.find(
+    (value) => value === (params.get("mode") ?? "create")
+  );
+  if (!mode) {
+    errors.push({
+      path: "mode",
+      message: `Must be one of: ${IMPORT_MODES.join(", ")}`,
+    });
+  } else if (mode === "upsert" && !hasSlugField(req.payload, slug)) {
+    errors.push({
+      path: "mode",
+      message: `${slug} have no slug field to match documents by`,
+    });
+  }
+  const dryRun = params.get("dryRun") ?? "false";
+  if (dryRun !== "true" && dryRun !== "false") {
+    errors.push({ path: "dryRun", message: "Must be true or false" });
+  }
+
+  if (errors.length > 0) throw invalidRequest(errors);
+  return {
+    format: format as ExportFormat,
+    mode: mode as ImportMode,
+    dryRun: dryRun === "true",
+  };
+}
+
+// The rows of an uploaded file. CSV cells are all text; JSON values keep
+// their types.
+export function parseImportRows(text: string, format: ExportFormat): Row[] {
+  const fail = (message: string): never => {
+    throw invalidRequest([{ path: "body", message }]);
+  };
+  const isRow = (value: unknown): value is Row =>
+    Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+  let rows: Row[] = [];
+  switch (format) {
+    case "csv": {
+      let records: string[][] = [];
+      try {
+        records = parseCSV(text);
+      } catch (error) {
+        fail(`Invalid CSV: ${(error as Error).message}`);
+      }
+      const [header, ...data] = records;
+      if (!header) fail("The file is empty");
+      rows = data.map((record) =>
+        Object.fromEntries(
+          header.map((key, index) => [key.trim(), record[index] ?? ""])
+        )
+      );
+      break;
+    }
+    case "json": {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(text);
+      } catch {
+        fail("Invalid JSON");
+      }
+      if (!Array.isArray(parsed) || !parsed.every(isRow)) {
+        fail("Must be a JSON array of objects");
+      }
+      rows = parsed as Row[];
+      break;
+    }
+    case "ndjson":
+      rows = text
+        .split(/\r?\n/)
+        .filter((line) => line.trim() !== "")
+        .map((line, index) => {
+          try {
+            const parsed: unknown = JSON.parse(line);
+            if (isRow(parsed)) return parsed;
+          } catch {
+            // reported below
+          }
+          return fail(`Line ${index + 1} is not a JSON object`);
+        });
+      break;
+  }
+
+  if (rows.length === 0) fail("The file has no rows");
+  if (rows.length > IMPORT_MAX_ROWS) {
+    fail(`At most ${IMPORT_MAX_ROWS} rows can be imported at once`);
+  }
+  return rows;
+}
+
+// Finds related documents by slug for rows that name them that way
+class RelationResolver {
+  private ids = new Map<string, string | number | null>();
+
+  constructor(private payload: Payload) {}
+
+  async resolve(collection: string, ref: unknown): Promise<string | number> {
+    if (typeof ref === "number") return ref;
+    const text = String(ref).trim();
+    if (/^\d+$/.test(text)) return Number(text);
+    if (!hasSlugField(this.payload, collection)) {
+      throw new Error(`"${text}" is not a ${collection} ID`);
+    }
+
+    const key = `${collection}:${text}`;
+    if (!this.ids.has(key)) {
+      const { docs } = await this.payload.find({
+        collection: collection as CollectionSlug,
+        where: { slug: { equals: text } },
+        depth: 0,
+        limit: 1,
+        draft: hasDrafts(this.payload, collection),
+      });
+      this.ids.set(key, docs[0]?.id ?? null);
+    }
+    const id = this.ids.get(key);
+    if (id === null || id === undefined) {
+      throw new Error(`No ${collection} with the slug "${text}"`);
+    }
+    return id;
+  }
+}
+
+// A cell as the value to save; throws with a message for the row report
+async function cellValue(
+  column: Column,
+  cell: unknown,
+  relations: RelationResolver
+): Promise<unknown> {
+  if (cell === null || cell === "") return null;
+  const text = typeof cell === "string" ? cell.trim() : null;
+
+  switch (column.kind) {
+    case "text":
+      return typeof cell === "string" ? cell : String(cell);
+    case "number": {
+      const value = typeof cell === "number" ? cell : Number(text);
+      if (!Number.isFinite(value)) throw new Error("Must be a number");
+      return value;
+    }
+    case "checkbox":
+      if (typeof cell === "boolean") return cell;
+      if (text && ["true", "1", "yes"].includes(text.toLowerCase())) return true;
+      if (text && ["false", "0", "no"].includes(text.toLowerCase())) return false;
+      throw new Error("Must be true or false");
+    case "date": {
+      const date = new Date(text ?? String(cell));
+      if (Number.isNaN(date.getTime())) throw new Error("Must be a date");
+      return date.toISOString();
+    }
+    case "json":
+      if (text === null) return cell;
+      try {
+        return JSON.parse(text);
+      } catch {
+        throw new Error("Must be valid JSON");
+      }
+    case "relationship": {
+      const refs = Array.isArray(cell)
+        ? cell
+        : text !== null
+          ? text.split(LIST_SEPARATOR).filter((ref) => ref.trim() !== "")
+          : [cell];
+      const values = await Promise.all(
+        refs.map(async (ref) => {
+          if (!Array.isArray(column.relationTo)) {
+            return relations.resolve(String(column.relationTo), ref);
+          }
+          const [collection, ...rest] = String(ref).split(":");
+          if (!column.relationTo.includes(collection) || rest.length === 0) {
+            throw new Error(
+              `Must be prefixed with one of: ${column.relationTo.join(", ")}`
+            );
+          }
+          return {
+            relationTo: collection,
+            value: await relations.resolve(collection, rest.join(":")),
+          };
+        })
+      );
+      return column.hasMany ? values : (values[0] ?? null);
+    }
+  }
+}
+
+// Splits a row into the data saved in the default locale (every field that
+// isn't localized, plus the localized ones' default-locale values) and the
+// data for each other locale. Empty cells of other locales are left out:
+// they mean "not translated", and required fields can't be cleared there.
+async function rowData(
+  row: Row,
+  columns: Map<string, Column>,
+  defaultLocale: string,
+  relations: RelationResolver
+): Promise<{ data: Map<string, Row>; errors: FieldError[] }> {
+  const data = new Map<string, Row>([[defaultLocale, {}]]);
+  const errors: FieldError[] = [];
+
+  for (const [key, cell] of Object.entries(row)) {
+    const column = columns.get(key);
+    if (!column || cell === undefined || SYSTEM_COLUMNS.includes(key)) continue;
+    try {
+      const value = await cellValue(column, cell, relations);
+      const locale = column.locale ?? defaultLocale;
+      if (locale !== defaultLocale && value === null) continue;
+      if (!data.has(locale)) data.set(locale, {});
+      setValueAt(data.get(locale) as Row, column.path, value);
+    } catch (error) {
+      errors.push({ path: key, message: (error as Error).message });
+    }
+  }
+  return { data, errors };
+}
+
+export async function importRows(
+  req: PayloadRequest,
+  slug: string,
+  rows: Row[],
+  options: ImportOptions
+): Promise<ImportResult> {
+  const { payload } = req;
+  const collection = slug as CollectionSlug;
+  const { defaultLocale } = localeOptions(payload);
+  const drafts = hasDrafts(payload, slug);
+
+  const blocked = importBlockedReason(payload, slug);
+  if (blocked) throw new APIError(blocked, 400);
+
+  const columns = new Map(
+    collectionColumns(payload, slug).map((column) => [column.key, column])
+  );
+  const keys = [...new Set(rows.flatMap((row) => Object.keys(row)))];
+  const unknown = keys.filter((key) => !columns.has(key));
+  if (unknown.length > 0) {
+    throw invalidRequest(
+      unknown.map((key) => ({ path: key, message: "Unknown column" }))
+    );
+  }
+
+  const relations = new RelationResolver(payload);
+  const results: ImportRowResult[] = [];
+  // Create mode: later rows repeating a slug would fail on save, but a dry
+  // run rolls the earlier row back before they get there
+  const slugRows = new Map<string, number>();
+
+  for (const [index, row] of rows.entries()) {
+    const result: ImportRowResult = { row: index + 1, status: "failed" };
+    results.push(result);
+
+    const { data, errors } = await rowData(
+      row,
+      columns,
+      defaultLocale,
+      relations
+    );
+    const base = data.get(defaultLocale) as Row;
+    const slugValue = typeof base.slug === "string" ? base.slug : undefined;
+    if (slugValue) result.slug = slugValue;
+
+    if (options.mode === "upsert" && !slugValue) {
+      errors.push({
+        path: "slug",
+        message: "Needed to find the document to update",
+      });
+    }
+    if (options.mode === "create" && slugValue) {
+      const previous = slugRows.get(slugValue);
+      if (previous) {
+        errors.push({ path: "slug", message: `Same slug as row ${previous}` });
+      } else {
+        slugRows.set(slugValue, result.row);
+      }
+    }
+    if (errors.length > 0) {
+      result.error = "The row has invalid values";
+      result.errors = errors;
+      continue;
+    }
+
+    await initTransaction(req);
+    try {
+      const existing =
+        options.mode === "upsert"
+          ? (
+              await payload.find({
+                collection,
+                where: { slug: { equals: slugValue } },
+                depth: 0,
+                limit: 1,
+                draft: drafts,
+                user: req.user,
+                overrideAccess: false,
+                req,
+              })
+            ).docs[0]
+          : undefined;
+
+      // Drafts stay drafts: only a row or document that says "published" is
+      // saved as the published version
+      const status =
+        base._status ?? (existing as { _status?: unknown } | undefined)?._status;
+      const draft = drafts && status !== "published";
+      if (drafts) base._status = draft ? "draft" : "published";
+
+      let id: string | number | undefined = existing?.id;
+      for (const [locale, localeData] of data) {
+        if (locale !== defaultLocale && Object.keys(localeData).length === 0) {
+          continue;
+        }
+        const saved = await keepingRequestLocale<{ id: string | number }>(
+          req,
+          () =>
+            id === undefined
+              ? payload.create({
+                  collection,
+                  data: localeData,
+                  locale: locale as TypedLocale,
+                  draft,
+                  depth: 0,
+                  user: req.user,
+                  overrideAccess: false,
+                  req,
+                })
+              : payload.update({
+                  collection,
+                  id,
+                  data: localeData,
+                  locale: locale as TypedLocale,
+                  draft,
+                  depth: 0,
+                  user: req.user,
+                  overrideAccess: false,
+                  req,
+                })
+        );
+        id = saved.id;
+      }
+
+      result.id = id;
+      if (options.dryRun) {
+        await killTransaction(req);
+        result.status = existing ? "would-update" : "would-create";
+      } else {
+        await commitTransaction(req);
+        result.status = existing ? "updated" : "created";
+      }
+    } catch (error) {
+      await killTransaction(req);
+      const { body } = describeError(error, "[CUSTOM API]");
+      result.error = body.error;
+      if (body.errors) result.errors = body.errors;
+    }
+  }
+
+  const summary: Partial<Record<ImportRowStatus, number>> = {};
+  for (const result of results) {
+    summary[result.status] = (summary[result.status] ?? 0) + 1;
+  }
+  console.log(
+    `[CUSTOM API] Import into ${slug} (${options.mode}` +
+      `${options.dryRun ? ", dry run" : ""}):`,
+    summary
+  );
+
+  return {
+    collection: slug,
+    mode: options.mode,
+    dryRun: options.dryRun,
+    columns: keys,
+    summary,
+    rows: results,
+  };
+}
@@ -0,0 +1,23 @@
+import type { SerializedLinkNode } from "@payloadcms/richtext-lexical";
+
+// Internal links in the editor point at a document, not a URL. Shared by the
+// React renderer and the HTML rendered into feeds.
+export function internalDocToHref({
+  linkNode,
+}: {
+  linkNode: SerializedLinkNode;
+}): string {
+  const doc = linkNode.fields.doc;
+  if (!doc || typeof doc.value !== "object") return "#";
+
+  const value = doc.value as { id: string | number; slug?: string };
+  switch (doc.relationTo) {
+    case "posts":
+      return `/posts/${value.slug}`;
+    case "authors":
+    case "categories":
+      return `/${doc.relationTo}/${value.id}`;
+    default:
+      return "#";
+  }
+}
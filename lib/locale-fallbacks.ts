@@ -0,0 +1,66 @@
+import type { Payload, TypedLocale } from "payload";
+import { DEFAULT_LOCALE } from "./localized-paths";
+import { lexicalToPlainText } from "./search";
+
+// ============================================================================
+// Fallback indicators for the public pages. Reads in a non-default locale fall
+// back to the default one field by field; these helpers read the same
+// documents again without fallback to tell which shown fields are borrowed.
+// ============================================================================
+
+type FallbackCollection = "posts" | "authors" | "categories";
+
+const hasValue = (value: unknown) =>
+  typeof value === "string"
+    ? value.trim() !== ""
+    : value !== null && typeof value === "object"
+      ? lexicalToPlainText(value) !== ""
+      : false;
+
+// The `fields` of each document that show the default locale's value, by
+// document ID. Empty in the default locale itself. `draft` matches a read of
+// the latest drafts (previews).
+export async function findFallbacks(
+  payload: Payload,
+  {
+    collection,
+    docs,
+    locale,
+    fields,
+    draft = false,
+  }: {
+    collection: FallbackCollection;
+    docs: { id: number }[];
+    locale: string;
+    fields: string[];
+    draft?: boolean;
+  }
+): Promise<Record<number, string[]>> {
+  if (locale === DEFAULT_LOCALE || docs.length === 0) return {};
+
+  const { docs: own } = await payload.find({
+    collection,
+    where: { id: { in: docs.map(({ id }) => id) } },
+    locale: locale as TypedLocale,
+    fallbackLocale: false,
+    depth: 0,
+    draft,
+    pagination: false,
+  });
+  const ownById = new Map(
+    own.map((doc) => [doc.id, doc as unknown as Record<string, unknown>])
+  );
+
+  return Object.fromEntries(
+    docs.map((doc) => {
+      const shown = doc as unknown as Record<string, unknown>;
+      const translated = ownById.get(doc.id);
+      return [
+        doc.id,
+        fields.filter(
+          (field) => hasValue(shown[field]) && !hasValue(translated?.[field])
+        ),
+      ];
+    })
+  );
+}
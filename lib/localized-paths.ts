@@ -0,0 +1,60 @@
+// The site's locales. payload.config.ts builds its `localization` from these,
+// and middleware.ts, which can't load the Payload config, routes by them.
+export const LOCALES = [
+  { code: "en", label: "English" },
+  { code: "zh", label: "中文" },
+] as const;
+
+export type Locale = (typeof LOCALES)[number]["code"];
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+// Remembers the locale a visitor last picked, over their Accept-Language
+export const LOCALE_COOKIE = "NEXT_LOCALE";
+
+export const parseLocale = (value: string | null | undefined): Locale | null =>
+  LOCALES.find(({ code }) => code === value)?.code ?? null;
+
+export const localeLabel = (locale: string): string =>
+  LOCALES.find(({ code }) => code === locale)?.label ?? locale;
+
+// Pages in the default locale live at their plain path and every other
+// locale gets a prefix: "/posts/hello" and "/zh/posts/hello"
+export function localizedPath(
+  path: string,
+  locale: string,
+  defaultLocale: string
+): string {
+  if (locale === defaultLocale) return path;
+  return path === "/" ? `/${locale}` : `/${locale}${path}`;
+}
+
+// `localizedPath` for the site's own default locale
+export const localeHref = (path: string, locale: string): string =>
+  localizedPath(path, locale, DEFAULT_LOCALE);
+
+// The best match for an Accept-Language header ("zh-CN,zh;q=0.9,en;q=0.8"),
+// by quality and then order; region subtags match their language
+export function preferredLocale(header: string | null): Locale | null {
+  const ranges = (header ?? "")
+    .split(",")
+    .map((part, index) => {
+      const [range, ...params] = part.trim().split(";");
+      const q = params
+        .map((param) => param.trim())
+        .find((param) => param.startsWith("q="));
+      return {
+        language: range.trim().toLowerCase().split("-")[0],
+        quality: q ? Number(q.slice(2)) : 1,
+        index,
+      };
+    })
+    .filter(({ language, quality }) => language && quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  for (const { language } of ranges) {
+    const locale = parseLocale(language);
+    if (locale) return locale;
+  }
+  return null;
+}
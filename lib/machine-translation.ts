@@ -0,0 +1,481 @@
+import {
+  docAccessOperation,
+  docAccessOperationGlobal,
+  Forbidden,
+  NotFound,
+  type Payload,
+  type PayloadRequest,
+  type TypedLocale,
+} from "payload";
+import { invalidRequest, type FieldError } from "./api-errors";
+import { keepingRequestLocale } from "./request-locale";
+import {
+  fieldsForTarget,
+  isEmptyValue,
+  localeOptions,
+  readLocales,
+  recordMachineTranslation,
+  TRANSLATION_COLLECTIONS,
+  TRANSLATION_GLOBALS,
+  valueAt,
+  type TranslationTarget,
+} from "./translations";
+import { escapeXML } from "./xml";
+
+// ============================================================================
+// Machine translation assist.
+//
+// Translates a document's translatable fields (see lib/translations.ts) from
+// the source locale into another one through a TranslationProvider, picked
+// with `TRANSLATION_PROVIDER` (default "mock"). Rich text keeps its Lexical
+// node tree: each paragraph, heading or list item is sent as one text with
+// its text nodes wrapped in tags, and the translation of each tag goes back
+// into the node it came from, so links and formatting stay where they were.
+//
+// The translated values are recorded on the translation-status entry and,
+// once saved, mark it "review" until someone edits those fields or marks
+// the translation done.
+// ============================================================================
+
+// ----------------------------------------------------------------------------
+// Providers
+// ----------------------------------------------------------------------------
+
+export interface TranslationOptions {
+  from: string;
+  to: string;
+  // "xml": the texts hold inline tags (`<x id="0">…</x>`, `<a>`, `<br/>`)
+  // that must come back around the words they wrap
+  format: "text" | "xml";
+}
+
+export interface TranslationProvider {
+  name: string;
+  // One translation per text, in the same order
+  translate(texts: string[], options: TranslationOptions): Promise<string[]>;
+}
+
+// Deterministic stand-in for tests and local development: "[zh] Hello"
+export const mockTranslationProvider: TranslationProvider = {
+  name: "mock",
+  translate: async (texts, { to }) => texts.map((text) => `[${to}] ${text}`),
+};
+
+// https://developers.deepl.com/docs/api-reference/translate - free API keys
+// end in ":fx" and use their own host
+export function deeplTranslationProvider(apiKey: string): TranslationProvider {
+  const host = apiKey.endsWith(":fx") ? "api-free.deepl.com" : "api.deepl.com";
+  return {
+    name: "deepl",
+    async translate(texts, { from, to, format }) {
+      const response = await fetch(`https://${host}/v2/translate`, {
+        method: "POST",
+        headers: {
+          Authorization: `DeepL-Auth-Key ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          text: texts,
+          source_lang: from.toUpperCase(),
+          target_lang: to.toUpperCase(),
+          ...(format === "xml" ? { tag_handling: "xml" } : {}),
+        }),
+      });
+      if (!response.ok) {
+        throw new Error(`DeepL responded with ${response.status}`);
+      }
+      const { translations } = (await response.json()) as {
+        translations: { text: string }[];
+      };
+      return translations.map(({ text }) => text);
+    },
+  };
+}
+
+// Providers by `TRANSLATION_PROVIDER` name; another service plugs in here
+export const translationProviders: Record<string, () => TranslationProvider> = {
+  mock: () => mockTranslationProvider,
+  deepl: () => {
+    const apiKey = process.env.DEEPL_API_KEY;
+    if (!apiKey) throw new Error("DEEPL_API_KEY is not set");
+    return deeplTranslationProvider(apiKey);
+  },
+};
+
+export function getTranslationProvider(
+  name = process.env.TRANSLATION_PROVIDER || "mock"
+): TranslationProvider {
+  const create = translationProviders[name];
+  if (!create) throw new Error(`Unknown translation provider "${name}"`);
+  return create();
+}
+
+const translateAll = (
+  provider: TranslationProvider,
+  texts: string[],
+  options: TranslationOptions
+): Promise<string[]> =>
+  texts.length > 0 ? provider.translate(texts, options) : Promise.resolve([]);
+
+// ----------------------------------------------------------------------------
+// Rich text
+// ----------------------------------------------------------------------------
+
+type LexicalNode = { type?: string; text?: string; children?: LexicalNode[] };
+
+const INLINE_NODES = new Set(["text", "link", "autolink", "linebreak", "tab"]);
+
+interface TextBlock {
+  // The block's text nodes; `markup` refers to them by index
+  nodes: LexicalNode[];
+  markup: string;
+}
+
+const inlineMarkup = (children: LexicalNode[], nodes: LexicalNode[]): string =>
+  children
+    .map((child) => {
+      if (child.type === "text") {
+        nodes.push(child);
+        return `<x id="${nodes.length - 1}">${escapeXML(child.text ?? "")}</x>`;
+      }
+      if (child.type === "link" || child.type === "autolink") {
+        return `<a>${inlineMarkup(child.children ?? [], nodes)}</a>`;
+      }
+      return "<br/>";
+    })
+    .join("");
+
+// Paragraphs, headings, list items etc.: elements holding inline content
+const collectBlocks = (node: LexicalNode, blocks: TextBlock[]) => {
+  const children = node.children ?? [];
+  if (
+    children.length > 0 &&
+    children.every((child) => INLINE_NODES.has(child.type ?? ""))
+  ) {
+    const nodes: LexicalNode[] = [];
+    const markup = inlineMarkup(children, nodes);
+    if (nodes.some(({ text }) => text?.trim())) blocks.push({ nodes, markup });
+    return;
+  }
+  children.forEach((child) => collectBlocks(child, blocks));
+};
+
+const unescapeXML = (text: string) =>
+  text.replace(
+    /&(lt|gt|quot|apos|amp);/g,
+    (_, entity: string) =>
+      ({ lt: "<", gt: ">", quot: '"', apos: "'", amp: "&" })[entity] ?? ""
+  );
+
+// The translated text of each node, or null when the provider lost a tag.
+// Words that ended up between tags join the node before them (or the first
+// one, for words before any tag).
+const parseMarkup = (markup: string, count: number): string[] | null => {
+  const texts: (string | undefined)[] = new Array(count).fill(undefined);
+  let current: number | null = null;
+  let previous: number | null = null;
+  let leading = "";
+
+  const tokens = markup.matchAll(/<x id="(\d+)">|<\/x>|<[^>]*>|[^<]+/g);
+  for (const [token, id] of tokens) {
+    if (id !== undefined) {
+      current = Number(id);
+      if (current >= count) return null;
+      texts[current] ??= previous === null ? leading : "";
+      leading = "";
+    } else if (token === "</x>") {
+      previous = current;
+      current = null;
+    } else if (!token.startsWith("<")) {
+      const text = unescapeXML(token);
+      if (current !== null) texts[current] += text;
+      else if (previous !== null) texts[previous] += text;
+      else leading += text;
+    }
+  }
+  return texts.every((text) => text !== undefined) ? (texts as string[]) : null;
+};
+
+// Translates a Lexical editor state's text in place, block by block
+async function translateRichText(
+  provider: TranslationProvider,
+  states: unknown[],
+  options: Omit<TranslationOptions, "format">
+): Promise<void> {
+  const blocks: TextBlock[] = [];
+  for (const state of states) {
+    const root = (state as { root?: LexicalNode } | null)?.root;
+    if (root) collectBlocks(root, blocks);
+  }
+
+  const translated = await translateAll(
+    provider,
+    blocks.map(({ markup }) => markup),
+    { ...options, format: "xml" }
+  );
+  // Blocks whose tags didn't survive fall back to one text per node
+  const fallback: LexicalNode[] = [];
+  blocks.forEach(({ nodes }, index) => {
+    const texts = parseMarkup(translated[index] ?? "", nodes.length);
+    if (!texts) {
+      fallback.push(...nodes.filter(({ text }) => text?.trim()));
+      return;
+    }
+    nodes.forEach((node, nodeIndex) => {
+      node.text = texts[nodeIndex];
+    });
+  });
+
+  const texts = await translateAll(
+    provider,
+    fallback.map(({ text }) => text ?? ""),
+    { ...options, format: "text" }
+  );
+  fallback.forEach((node, index) => {
+    node.text = texts[index];
+  });
+}
+
+// ----------------------------------------------------------------------------
+// Documents
+// ----------------------------------------------------------------------------
+
+export interface MachineTranslationRequest {
+  target: TranslationTarget;
+  from: string;
+  to: string;
+  // Paths to translate; by default the fields still missing in `to`
+  fields?: string[];
+  // Save the translation into `to` (as a draft where the collection has
+  // drafts) rather than only returning it
+  save: boolean;
+}
+
+export interface MachineTranslationResult {
+  provider: string;
+  from: string;
+  to: string;
+  // By field path; rich text as a Lexical editor state
+  values: Record<string, unknown>;
+  saved: boolean;
+}
+
+export function parseMachineTranslationRequest(
+  payload: Payload,
+  body: unknown
+): MachineTranslationRequest {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw invalidRequest([
+      { path: "", message: "Request body must be a JSON object" },
+    ]);
+  }
+
+  const input = body as Record<string, unknown>;
+  const errors: FieldError[] = [];
+  const { defaultLocale, localeCodes } = localeOptions(payload);
+
+  const collection = TRANSLATION_COLLECTIONS.find(
+    (slug) => slug === input.collection
+  );
+  const global = TRANSLATION_GLOBALS.find((slug) => slug === input.global);
+  const id = Number(input.id);
+  if ((input.collection === undefined) === (input.global === undefined)) {
+    errors.push({
+      path: "collection",
+      message: "Provide either `collection` and `id`, or `global`",
+    });
+  } else if (input.collection !== undefined && !collection) {
+    errors.push({
+      path: "collection",
+      message: `Must be one of: ${TRANSLATION_COLLECTIONS.join(", ")}`,
+    });
+  } else if (input.global !== undefined && !global) {
+    errors.push({
+      path: "global",
+      message: `Must be one of: ${TRANSLATION_GLOBALS.join(", ")}`,
+    });
+  }
+  if (collection && !(Number.isInteger(id) && id > 0)) {
+    errors.push({ path: "id", message: "Must be a numeric ID" });
+  }
+
+  const from = input.from ?? defaultLocale;
+  if (typeof from !== "string" || !localeCodes.includes(from)) {
+    errors.push({
+      path: "from",
+      message: `Must be one of: ${localeCodes.join(", ")}`,
+    });
+  }
+  if (typeof input.to !== "string" || !localeCodes.includes(input.to)) {
+    errors.push({
+      path: "to",
+      message: `Must be one of: ${localeCodes.join(", ")}`,
+    });
+  } else if (input.to === from) {
+    errors.push({ path: "to", message: "Must differ from `from`" });
+  }
+
+  if (
+    input.fields !== undefined &&
+    (!Array.isArray(input.fields) ||
+      !input.fields.every((path) => typeof path === "string"))
+  ) {
+    errors.push({ path: "fields", message: "Must be an array of field paths" });
+  }
+  if (input.save !== undefined && typeof input.save !== "boolean") {
+    errors.push({ path: "save", message: "Must be a boolean" });
+  }
+
+  const target: TranslationTarget | null = collection
+    ? { collection, id }
+    : global
+      ? { global }
+      : null;
+  if (errors.length > 0 || !target) throw invalidRequest(errors);
+
+  return {
+    target,
+    from: from as string,
+    to: input.to as string,
+    fields: input.fields as string[] | undefined,
+    save: input.save === true,
+  };
+}
+
+// `{ "seo.metaTitle": "…" }` -> `{ seo: { metaTitle: "…" } }`
+const nest = (values: Record<string, unknown>) => {
+  const data: Record<string, unknown> = {};
+  for (const [path, value] of Object.entries(values)) {
+    const keys = path.split(".");
+    let target = data;
+    for (const key of keys.slice(0, -1)) {
+      target = (target[key] ??= {}) as Record<string, unknown>;
+    }
+    target[keys[keys.length - 1]] = value;
+  }
+  return data;
+};
+
+// Whether the current user may save the target, by the same rules as the
+// admin's edit view
+async function canUpdate(
+  req: PayloadRequest,
+  target: TranslationTarget
+): Promise<boolean> {
+  if ("collection" in target) {
+    const permissions = await docAccessOperation({
+      collection: req.payload.collections[target.collection],
+      id: target.id,
+      req,
+    });
+    return Boolean(permissions.update);
+  }
+
+  const globalConfig = req.payload.globals.config.find(
+    ({ slug }) => slug === target.global
+  );
+  if (!globalConfig) return false;
+  const permissions = await docAccessOperationGlobal({ globalConfig, req });
+  return Boolean(permissions.update);
+}
+
+// Reads and saves as the current user, so access control applies as in the
+// admin. Users who can read the document but not update it are refused, as
+// the translation status entry would otherwise record values they can never
+// save. Fields empty in the source are skipped.
+export async function machineTranslate(
+  req: PayloadRequest,
+  { target, from, to, fields: paths, save }: MachineTranslationRequest,
+  provider: TranslationProvider = getTranslationProvider()
+): Promise<MachineTranslationResult> {
+  const docs = await readLocales(req, target, { overrideAccess: false });
+  const source = docs[from];
+  if (!source) throw new NotFound(req.t);
+  if (!(await canUpdate(req, target))) throw new Forbidden(req.t);
+
+  const available = fieldsForTarget(req.payload, target);
+  const unknown = (paths ?? []).filter(
+    (path) => !available.some((field) => field.path === path)
+  );
+  if (unknown.length > 0) {
+    throw invalidRequest(
+      unknown.map((path) => ({
+        path: "fields",
+        message: `${path} is not a translatable field`,
+      }))
+    );
+  }
+
+  const fields = available.filter(
+    ({ path, type }) =>
+      !isEmptyValue(valueAt(source, path), type) &&
+      (paths
+        ? paths.includes(path)
+        : isEmptyValue(valueAt(docs[to], path), type))
+  );
+  const result: MachineTranslationResult = {
+    provider: provider.name,
+    from,
+    to,
+    values: {},
+    saved: false,
+  };
+  if (fields.length === 0) return result;
+
+  const plain = fields.filter(({ type }) => type !== "richText");
+  const rich = fields.filter(({ type }) => type === "richText");
+  const states = rich.map(({ path }) => structuredClone(valueAt(source, path)));
+  const [texts] = await Promise.all([
+    translateAll(
+      provider,
+      plain.map(({ path }) => String(valueAt(source, path))),
+      { from, to, format: "text" }
+    ),
+    translateRichText(provider, states, { from, to }),
+  ]);
+  plain.forEach(({ path }, index) => {
+    result.values[path] = texts[index];
+  });
+  rich.forEach(({ path }, index) => {
+    result.values[path] = states[index];
+  });
+
+  // Recorded before saving, so the save's hook already sees them; when the
+  // values are only returned, the editor's own save is recognized later
+  await recordMachineTranslation(
+    req,
+    target,
+    to,
+    fields.map((field) => ({
+      field,
+      value: result.values[field.path],
+    }))
+  );
+
+  if (save) {
+    const data = nest(result.values);
+    await keepingRequestLocale<unknown>(req, () =>
+      "collection" in target
+        ? req.payload.update({
+            collection: target.collection,
+            id: target.id,
+            data,
+            locale: to as TypedLocale,
+            draft: Boolean(
+              req.payload.collections[target.collection].config.versions?.drafts
+            ),
+            overrideAccess: false,
+            req,
+          })
+        : req.payload.updateGlobal({
+            slug: target.global,
+            data,
+            locale: to as TypedLocale,
+            overrideAccess: false,
+            req,
+          })
+    );
+    result.saved = true;
+  }
+  return result;
+}
@@ -0,0 +1,346 @@
+import { sql, type SQLiteAdapter } from "@payloadcms/db-sqlite";
+import type { Payload } from "payload";
+import { invalidRequest, type FieldError } from "./api-errors";
+
+// ============================================================================
+// Post analytics for GET /api/posts/stats. Totals use `payload.count`; the
+// breakdowns are GROUP BY queries against the SQLite tables, so the numbers
+// stay exact however many posts there are.
+// ============================================================================
+
+export const statsIntervals = ["day", "week", "month"] as const;
+export type StatsInterval = (typeof statsIntervals)[number];
+
+export interface StatsRange {
+  interval: StatsInterval;
+  from: Date;
+  to: Date;
+}
+
+export interface PostStats {
+  total: number;
+  published: number;
+  draft: number;
+  archived: number;
+  byAuthor: { id: number; name: string | null; total: number; published: number }[];
+  byCategory: { id: number; title: string | null; total: number; published: number }[];
+  uncategorized: number;
+  // A post counts as translated into a locale once it has a title there
+  localeCompleteness: { locale: string; complete: number; missing: number; percent: number }[];
+  // Posts by the date they first went live (`publishedOn`), one entry per
+  // day, week (starting Monday) or month in the range, zeros included
+  publishedOverTime: {
+    interval: StatsInterval;
+    from: string;
+    to: string;
+    series: { period: string; count: number }[];
+  };
+  timestamp: string;
+}
+
+const DEFAULT_PERIODS: Record<StatsInterval, number> = {
+  day: 30,
+  week: 12,
+  month: 12,
+};
+const MAX_PERIODS = 366;
+
+// ----------------------------------------------------------------------------
+// Date buckets - the same keys are produced in SQL and in JS
+// ----------------------------------------------------------------------------
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function periodKey(date: Date, interval: StatsInterval): string {
+  if (interval === "month") return date.toISOString().slice(0, 7);
+  if (interval === "week") {
+    // Monday of the ISO week, in UTC like SQLite's date functions
+    const monday = new Date(date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS);
+    return monday.toISOString().slice(0, 10);
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function nextPeriod(key: string, interval: StatsInterval): string {
+  if (interval === "month") {
+    const [year, month] = key.split("-").map(Number);
+    return new Date(Date.UTC(year, month, 1)).toISOString().slice(0, 7);
+  }
+  const days = interval === "week" ? 7 : 1;
+  return new Date(Date.parse(key) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function periodCount(range: StatsRange): number {
+  let count = 0;
+  const last = periodKey(range.to, range.interval);
+  for (
+    let key = periodKey(range.from, range.interval);
+    key <= last && count <= MAX_PERIODS;
+    key = nextPeriod(key, range.interval)
+  ) {
+    count++;
+  }
+  return count;
+}
+
+// `?interval=week&from=2025-01-01&to=2025-03-31`; without `from`, the range
+// covers the last 30 days, 12 weeks or 12 months
+export function parseStatsRange(params: URLSearchParams): StatsRange {
+  const errors: FieldError[] = [];
+
+  const interval = (params.get("interval") ?? "day") as StatsInterval;
+  if (!statsIntervals.includes(interval)) {
+    errors.push({
+      path: "interval",
+      message: `Must be one of: ${statsIntervals.join(", ")}`,
+    });
+  }
+
+  const parseDate = (name: "from" | "to"): Date | undefined => {
+    const raw = params.get(name);
+    if (raw === null) return undefined;
+    const date = new Date(raw);
+    if (Number.isNaN(date.getTime())) {
+      errors.push({ path: name, message: "Must be a date, e.g. 2025-01-31" });
+      return undefined;
+    }
+    // A plain `to=2025-01-31` includes that whole day
+    if (name === "to" && /^\d{4}-\d{2}-\d{2}$/.test(raw)) {
+      date.setUTCHours(23, 59, 59, 999);
+    }
+    return date;
+  };
+
+  const to = parseDate("to") ?? new Date();
+  let from = parseDate("from");
+  if (!from && statsIntervals.includes(interval)) {
+    from = new Date(to);
+    if (interval === "month") {
+      from.setUTCMonth(from.getUTCMonth() - (DEFAULT_PERIODS.month - 1), 1);
+    } else {
+      const days = interval === "week" ? 7 : 1;
+      from.setTime(from.getTime() - (DEFAULT_PERIODS[interval] - 1) * days * DAY_MS);
+    }
+  }
+
+  if (errors.length > 0) throw invalidRequest(errors);
+
+  const range = { interval, from: from as Date, to };
+  if (range.from > range.to) {
+    throw invalidRequest([{ path: "from", message: "Must not be after `to`" }]);
+  }
+  if (periodCount(range) > MAX_PERIODS) {
+    throw invalidRequest([
+      {
+        path: "from",
+        message: `Range spans more than ${MAX_PERIODS} ${interval}s; use a larger interval`,
+      },
+    ]);
+  }
+  return range;
+}
+
+// ----------------------------------------------------------------------------
+// Queries
+// ----------------------------------------------------------------------------
+
+const countAll = sql<number>`count(*)`;
+
+export async function computePostStats(
+  payload: Payload,
+  range: StatsRange
+): Promise<PostStats> {
+  const { drizzle, tables } = payload.db as unknown as SQLiteAdapter;
+  const posts = tables.posts;
+  const postLocales = tables.posts_locales;
+  const postRels = tables.posts_rels;
+  const isPublished = sql<number>`sum(case when ${posts._status} = 'published' then 1 else 0 end)`;
+
+  const [total, published, archived] = await Promise.all([
+    payload.count({ collection: "posts" }),
+    payload.count({
+      collection: "posts",
+      where: { _status: { equals: "published" } },
+    }),
+    payload.count({
+      collection: "posts",
+      where: { archived: { equals: true } },
+    }),
+  ]);
+
+  const byAuthorRows = await drizzle
+    .select({ id: posts.author, total: countAll, published: isPublished })
+    .from(posts)
+    .groupBy(posts.author);
+
+  const byCategoryRows = await drizzle
+    .select({
+      id: postRels.categoriesID,
+      total: sql<number>`count(distinct ${postRels.parent})`,
+      published: isPublished,
+    })
+    .from(postRels)
+    .innerJoin(posts, sql`${posts.id} = ${postRels.parent}`)
+    .where(sql`${postRels.path} = 'categories'`)
+    .groupBy(postRels.categoriesID);
+
+  const [categorized] = await drizzle
+    .select({ count: sql<number>`count(distinct ${postRels.parent})` })
+    .from(postRels)
+    .where(sql`${postRels.path} = 'categories'`);
+
+  const localeRows = await drizzle
+    .select({ locale: postLocales._locale, complete: countAll })
+    .from(postLocales)
+    .where(sql`${postLocales.title} is not null and ${postLocales.title} != ''`)
+    .groupBy(postLocales._locale);
+
+  const bucket =
+    range.interval === "month"
+      ? sql<string>`strftime('%Y-%m', ${posts.publishedOn})`
+      : range.interval === "week"
+        ? sql<string>`date(${posts.publishedOn}, '-6 days', 'weekday 1')`
+        : sql<string>`date(${posts.publishedOn})`;
+  const timelineRows = await drizzle
+    .select({ period: bucket, count: countAll })
+    .from(posts)
+    .where(
+      sql`${posts.publishedOn} >= ${range.from.toISOString()} and ${posts.publishedOn} <= ${range.to.toISOString()}`
+    )
+    .groupBy(bucket);
+
+  // Names and titles come through the Local API so localization applies
+  const [authors, categories] = await Promise.all([
+    payload.find({
+      collection: "authors",
+      where: { id: { in: byAuthorRows.map((row) => row.id).filter(Boolean) } },
+      select: { name: true },
+      depth: 0,
+      pagination: false,
+    }),
+    payload.find({
+      collection: "categories",
+      where: { id: { in: byCategoryRows.map((row) => row.id).filter(Boolean) } },
+      select: { title: true },
+      depth: 0,
+      pagination: false,
+    }),
+  ]);
+  const authorNames = new Map(authors.docs.map((doc) => [doc.id, doc.name]));
+  const categoryTitles = new Map(categories.docs.map((doc) => [doc.id, doc.title]));
+
+  const localeCodes = payload.config.localization
+    ? payload.config.localization.localeCodes
+    : [];
+  const completeByLocale = new Map(
+    localeRows.map((row) => [row.locale as string, Number(row.complete)])
+  );
+
+  const countsByPeriod = new Map(
+    timelineRows.map((row) => [row.period, Number(row.count)])
+  );
+  const series: { period: string; count: number }[] = [];
+  const lastPeriod = periodKey(range.to, range.interval);
+  for (
+    let key = periodKey(range.from, range.interval);
+    key <= lastPeriod;
+    key = nextPeriod(key, range.interval)
+  ) {
+    series.push({ period: key, count: countsByPeriod.get(key) ?? 0 });
+  }
+
+  const percent = (part: number) =>
+    total.totalDocs === 0 ? 100 : Math.round((part / total.totalDocs) * 1000) / 10;
+
+  return {
+    total: total.totalDocs,
+    published: published.totalDocs,
+    draft: total.totalDocs - published.totalDocs,
+    archived: archived.totalDocs,
+    byAuthor: byAuthorRows
+      .map((row) => ({
+        id: row.id as number,
+        name: authorNames.get(row.id as number) ?? null,
+        total: Number(row.total),
+        published: Number(row.published),
+      }))
+      .sort((a, b) => b.total - a.total),
+    byCategory: byCategoryRows
+      .map((row) => ({
+        id: row.id as number,
+        title: categoryTitles.get(row.id as number) ?? null,
+        total: Number(row.total),
+        published: Number(row.published),
+      }))
+      .sort((a, b) => b.total - a.total),
+    uncategorized: total.totalDocs - Number(categorized?.count ?? 0),
+    localeCompleteness: localeCodes.map((locale) => {
+      const complete = completeByLocale.get(locale) ?? 0;
+      return {
+        locale,
+        complete,
+        missing: total.totalDocs - complete,
+        percent: percent(complete),
+      };
+    }),
+    publishedOverTime: {
+      interval: range.interval,
+      from: range.from.toISOString(),
+      to: range.to.toISOString(),
+      series,
+    },
+    timestamp: new Date().toISOString(),
+  };
+}
+
+// ----------------------------------------------------------------------------
+// Cache - per range, dropped whenever a post, author or category changes
+// ----------------------------------------------------------------------------
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+// A dashboard polling a range that ends "now" adds a key every minute
+const CACHE_MAX_ENTRIES = 50;
+const cache = new Map<string, { expires: number; stats: PostStats }>();
+
+export async function getPostStats(
+  payload: Payload,
+  range: StatsRange
+): Promise<{ stats: PostStats; cached: boolean }> {
+  // Ranges ending "now" move every request; bucket them to the minute so
+  // repeated dashboard loads share an entry
+  const key = [
+    range.interval,
+    range.from.toISOString().slice(0, 16),
+    range.to.toISOString().slice(0, 16),
+  ].join("|");
+
+  const hit = cache.get(key);
+  if (hit && hit.expires > Date.now()) {
+    return { stats: hit.stats, cached: true };
+  }
+
+  const stats = await computePostStats(payload, range);
+  storeInCache(key, stats);
+  return { stats, cached: false };
+}
+
+// Drops expired entries, then the oldest ones (a Map iterates in insertion
+// order) once the cache is full
+function storeInCache(key: string, stats: PostStats): void {
+  const now = Date.now();
+  for (const [cachedKey, entry] of cache) {
+    if (entry.expires <= now) cache.delete(cachedKey);
+  }
+
+  cache.delete(key);
+  for (const oldest of cache.keys()) {
+    if (cache.size < CACHE_MAX_ENTRIES) break;
+    cache.delete(oldest);
+  }
+
+  cache.set(key, { expires: now + CACHE_TTL_MS, stats });
+}
+
+export function invalidatePostStats(): void {
+  cache.clear();
+}
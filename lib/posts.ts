@@ -0,0 +1,47 @@
+import type { Payload, TypedLocale, Where } from "payload";
+
+export const POSTS_PER_PAGE = 10;
+
+// `?page=` from the URL; anything that isn't a positive integer means page 1
+export function parsePageParam(value: string | string[] | undefined): number {
+  const page = Number(Array.isArray(value) ? value[0] : value);
+  return Number.isInteger(page) && page > 0 ? page : 1;
+}
+
+// Published posts for the public listing and archive pages, newest first.
+// `where` narrows the list further (e.g. to one author or category);
+// `locale` picks the translation, falling back to the default locale.
+export async function findPublishedPosts(
+  payload: Payload,
+  {
+    page = 1,
+    where,
+    locale,
+  }: { page?: number; where?: Where; locale?: TypedLocale } = {}
+) {
+  const published: Where = { _status: { equals: "published" } };
+
+  return payload.find({
+    collection: "posts",
+    where: where ? { and: [published, where] } : published,
+    sort: "-publishedOn",
+    limit: POSTS_PER_PAGE,
+    page,
+    depth: 1,
+    locale,
+  });
+}
+
+// Posts filed under a category and, unless `subcategories` is false, under
+// any category nested below it. Works as a Local API, REST or GraphQL `where`.
+export function postsInCategoryWhere(
+  categoryId: number,
+  { subcategories = true }: { subcategories?: boolean } = {}
+): Where {
+  const direct: Where = { categories: { in: [categoryId] } };
+  if (!subcategories) return direct;
+
+  return {
+    or: [direct, { "categories.ancestors": { in: [categoryId] } }],
+  };
+}
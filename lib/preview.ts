@@ -0,0 +1,65 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+// Query-string parameter the frontend reads the token from
+export const PREVIEW_TOKEN_PARAM = "preview";
+
+// Tokens stay valid for between one and two of these windows
+export const PREVIEW_TOKEN_TTL_SECONDS = 30 * 60;
+
+export interface PreviewTokenClaims {
+  collection: string;
+  id: string | number;
+  exp: number;
+}
+
+function sign(secret: string, body: string): string {
+  return createHmac("sha256", secret).update(body).digest("base64url");
+}
+
+// `<base64url(claims)>.<base64url(hmac)>` – scoped to a single document so a
+// leaked link cannot be used to read other drafts. The expiry is rounded to
+// the end of the next window, so repeated calls return the same token for a
+// while: the admin re-evaluates the live preview URL on every autosave and
+// a changing token would reload the iframe each time.
+export function createPreviewToken(
+  secret: string,
+  collection: string,
+  id: string | number,
+  ttlSeconds: number = PREVIEW_TOKEN_TTL_SECONDS
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: PreviewTokenClaims = {
+    collection,
+    id,
+    exp: (Math.floor(now / ttlSeconds) + 2) * ttlSeconds,
+  };
+  const body = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  return `${body}.${sign(secret, body)}`;
+}
+
+// Returns the claims when the signature matches and the token has not
+// expired, otherwise null
+export function verifyPreviewToken(
+  secret: string,
+  token: string | null | undefined
+): PreviewTokenClaims | null {
+  if (!token) return null;
+
+  const [body, signature] = token.split(".");
+  if (!body || !signature) return null;
+
+  const a = Buffer.from(sign(secret, body));
+  const b = Buffer.from(signature);
+  if (a.length !== b.length || !timingSafeEqual(a, b)) return null;
+
+  try {
+    const claims = JSON.parse(
+      Buffer.from(body, "base64url").toString("utf8")
+    ) as PreviewTokenClaims;
+    if (typeof claims.exp !== "number") return null;
+    if (claims.exp < Date.now() / 1000) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,19 @@
+import type { PayloadRequest } from "payload";
+
+// A Local API call given both a `locale` and the current `req` switches that
+// request's locale (and fallback locale) for good, so the rest of an update
+// and every later hook would run in the wrong locale. Reads in hooks that
+// need the request's transaction go through this to switch it back. Run
+// them one at a time: concurrent calls would switch it under each other.
+export async function keepingRequestLocale<T>(
+  req: PayloadRequest,
+  read: () => Promise<T>
+): Promise<T> {
+  const { locale, fallbackLocale } = req;
+  try {
+    return await read();
+  } finally {
+    req.locale = locale;
+    req.fallbackLocale = fallbackLocale;
+  }
+}
@@ -0,0 +1,652 @@
+import type { Payload, PayloadRequest, Where } from "payload";
+import { invalidRequest, type FieldError } from "./api-errors";
+import { localizedPath } from "./localized-paths";
+import { keepingRequestLocale } from "./request-locale";
+
+// ============================================================================
+// Full-text search over posts, authors and categories for GET /api/search.
+//
+// Hooks keep one `search-index` entry per document and locale, holding the
+// title and the plain text worth searching (post excerpts and rich text,
+// author bios, category descriptions). Queries match every term as a
+// case-insensitive substring, which works for languages written without
+// spaces such as Chinese, and the candidates are ranked in JS.
+// ============================================================================
+
+export const SEARCHABLE_COLLECTIONS = ["posts", "authors", "categories"] as const;
+export type SearchableCollection = (typeof SEARCHABLE_COLLECTIONS)[number];
+
+export const SEARCH_MAX_LIMIT = 50;
+const SEARCH_MAX_TERMS = 10;
+const SEARCH_MAX_QUERY_LENGTH = 200;
+// Only this many of the newest matches are ranked; `truncated` says so
+const SEARCH_MAX_CANDIDATES = 500;
+const SNIPPET_LENGTH = 160;
+
+export interface SearchOptions {
+  q: string;
+  locale: string;
+  collections?: SearchableCollection[];
+  page?: number;
+  limit?: number;
+  // Unpublished posts are only searchable by logged-in users
+  includeDrafts?: boolean;
+}
+
+export interface SearchHit {
+  id: number;
+  collection: SearchableCollection;
+  docId: number;
+  locale: string;
+  title: string;
+  url: string;
+  published: boolean;
+  score: number;
+  // HTML-escaped text with matches wrapped in <mark>
+  highlights: { title: string; snippet: string };
+}
+
+export interface SearchResult {
+  query: string;
+  terms: string[];
+  locale: string;
+  docs: SearchHit[];
+  totalDocs: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+  truncated: boolean;
+  facets: {
+    // Ignores the collection filter, so each count is what picking it shows
+    collection: Record<SearchableCollection, number>;
+    locale: Record<string, number>;
+  };
+}
+
+interface IndexEntry {
+  locale: string;
+  title: string;
+  body: string;
+  url: string;
+  published: boolean;
+}
+
+// ----------------------------------------------------------------------------
+// Text extraction
+// ----------------------------------------------------------------------------
+
+type LexicalNode = { type?: string; text?: string; children?: LexicalNode[] };
+
+const INLINE_NODES = new Set(["text", "link", "autolink", "linebreak", "tab"]);
+
+const nodeText = (node: LexicalNode): string => {
+  if (node.type === "text") return node.text ?? "";
+  if (node.type === "linebreak" || node.type === "tab") return " ";
+
+  const children = node.children ?? [];
+  const inline = children.every((child) => INLINE_NODES.has(child.type ?? ""));
+  // Paragraphs, headings, list items etc. are separate blocks of text
+  return children.map(nodeText).join(inline ? "" : "\n");
+};
+
+// Plain text of a Lexical editor state, with whitespace collapsed
+export function lexicalToPlainText(value: unknown): string {
+  const root = (value as { root?: LexicalNode } | null | undefined)?.root;
+  if (!root) return "";
+  return collapse(nodeText(root));
+}
+
+const collapse = (text: string) => text.replace(/\s+/g, " ").trim();
+
+// ----------------------------------------------------------------------------
+// Indexing
+// ----------------------------------------------------------------------------
+
+// Frontend path of the document, unprefixed
+const documentPath: Record<
+  SearchableCollection,
+  (doc: Record<string, unknown>) => string
+> = {
+  posts: (doc) => `/posts/${encodeURIComponent(String(doc.slug))}`,
+  authors: (doc) => `/authors/${doc.id}`,
+  categories: (doc) => `/categories/${doc.id}`,
+};
+
+// Documents read with `locale: "all"` hold localized fields as
+// `{ en: …, zh: … }`; a locale without a value falls back to the default one
+// like the frontend does
+const localizedValue = (
+  value: unknown,
+  locale: string,
+  { localeCodes, defaultLocale }: { localeCodes: string[]; defaultLocale: string }
+): unknown => {
+  const isLocaleMap =
+    value !== null &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    Object.keys(value).every((key) => localeCodes.includes(key));
+  if (!isLocaleMap) return value;
+
+  const map = value as Record<string, unknown>;
+  return map[locale] || map[defaultLocale];
+};
+
+async function readDocument(
+  req: PayloadRequest,
+  collection: SearchableCollection,
+  id: number
+): Promise<Record<string, unknown> | null> {
+  const read = (draft: boolean) =>
+    keepingRequestLocale(
+      req,
+      () =>
+        req.payload.findByID({
+          collection,
+          id,
+          locale: "all",
+          depth: 0,
+          draft,
+          disableErrors: true,
+          overrideAccess: true,
+          req,
+        }) as Promise<Record<string, unknown> | null>
+    );
+
+  const doc = await read(false);
+  // A post that was never published is indexed as its latest draft; once
+  // published, the index follows the published version
+  if (collection === "posts" && doc && doc._status !== "published") {
+    return (await read(true)) ?? doc;
+  }
+  return doc;
+}
+
+function buildEntries(
+  payload: Payload,
+  collection: SearchableCollection,
+  doc: Record<string, unknown>
+): IndexEntry[] {
+  const localization = payload.config.localization;
+  const options = localization
+    ? {
+        localeCodes: localization.localeCodes,
+        defaultLocale: localization.defaultLocale,
+      }
+    : { localeCodes: ["en"], defaultLocale: "en" };
+
+  const entries: IndexEntry[] = [];
+  for (const locale of options.localeCodes) {
+    const field = (name: string) => localizedValue(doc[name], locale, options);
+    const text = (name: string) => {
+      const value = field(name);
+      return typeof value === "string" ? collapse(value) : "";
+    };
+
+    let title = "";
+    let body: string[] = [];
+    if (collection === "posts") {
+      title = text("title");
+      body = [text("excerpt"), lexicalToPlainText(field("content"))];
+    } else if (collection === "authors") {
+      title = text("name");
+      body = [text("bio")];
+    } else {
+      title = text("title");
+      body = [text("description")];
+    }
+    if (!title) continue;
+
+    entries.push({
+      locale,
+      title,
+      body: body.filter(Boolean).join(" "),
+      // Each entry links to the page in its own locale ("/zh/posts/…")
+      url: localizedPath(
+        documentPath[collection](doc),
+        locale,
+        options.defaultLocale
+      ),
+      published: collection !== "posts" || doc._status === "published",
+    });
+  }
+  return entries;
+}
+
+const entriesWhere = (collection: SearchableCollection, id: number): Where => ({
+  and: [
+    { "doc.relationTo": { equals: collection } },
+    { "doc.value": { equals: id } },
+  ],
+});
+
+// Creates, updates or removes the document's entries so there is one per
+// locale it has a title in. Returns the number of entries kept.
+export async function indexDocument(
+  req: PayloadRequest,
+  collection: SearchableCollection,
+  id: number
+): Promise<number> {
+  const doc = await readDocument(req, collection, id);
+  if (!doc) {
+    await removeFromIndex(req, collection, id);
+    return 0;
+  }
+
+  const entries = buildEntries(req.payload, collection, doc);
+  const { docs: existing } = await req.payload.find({
+    collection: "search-index",
+    where: entriesWhere(collection, id),
+    depth: 0,
+    pagination: false,
+    overrideAccess: true,
+    req,
+  });
+  const existingByLocale = new Map(existing.map((entry) => [entry.locale, entry]));
+
+  for (const entry of entries) {
+    const data = { ...entry, doc: { relationTo: collection, value: id } };
+    const current = existingByLocale.get(entry.locale);
+    existingByLocale.delete(entry.locale);
+
+    if (!current) {
+      await req.payload.create({
+        collection: "search-index",
+        data,
+        overrideAccess: true,
+        req,
+      });
+    } else if (
+      current.title !== entry.title ||
+      (current.body ?? "") !== entry.body ||
+      current.url !== entry.url ||
+      Boolean(current.published) !== entry.published
+    ) {
+      await req.payload.update({
+        collection: "search-index",
+        id: current.id,
+        data,
+        overrideAccess: true,
+        req,
+      });
+    }
+  }
+
+  // Locales the document no longer has a title in
+  for (const stale of existingByLocale.values()) {
+    await req.payload.delete({
+      collection: "search-index",
+      id: stale.id,
+      overrideAccess: true,
+      req,
+    });
+  }
+  return entries.length;
+}
+
+export async function removeFromIndex(
+  req: PayloadRequest,
+  collection: SearchableCollection,
+  id: number
+): Promise<void> {
+  await req.payload.delete({
+    collection: "search-index",
+    where: entriesWhere(collection, id),
+    overrideAccess: true,
+    req,
+  });
+}
+
+export interface ReindexResult {
+  documents: Record<SearchableCollection, number>;
+  entries: number;
+  removed: number;
+}
+
+// Rebuilds the entries of every searchable document and drops entries whose
+// document is gone - for data created before the index existed
+export async function reindexAll(req: PayloadRequest): Promise<ReindexResult> {
+  const result: ReindexResult = {
+    documents: { posts: 0, authors: 0, categories: 0 },
+    entries: 0,
+    removed: 0,
+  };
+  const seen = new Set<string>();
+
+  for (const collection of SEARCHABLE_COLLECTIONS) {
+    const { docs } = await req.payload.find({
+      collection,
+      depth: 0,
+      pagination: false,
+      select: { updatedAt: true },
+      overrideAccess: true,
+      req,
+    });
+    for (const { id } of docs) {
+      result.entries += await indexDocument(req, collection, id);
+      result.documents[collection]++;
+      seen.add(`${collection}:${id}`);
+    }
+  }
+
+  const { docs: entries } = await req.payload.find({
+    collection: "search-index",
+    depth: 0,
+    pagination: false,
+    select: { doc: true },
+    overrideAccess: true,
+    req,
+  });
+  for (const entry of entries) {
+    // `doc` is empty once its document was deleted without the hooks running
+    const value = entry.doc?.value;
+    const id = typeof value === "object" ? value?.id : value;
+    if (seen.has(`${entry.doc?.relationTo}:${id}`)) continue;
+
+    await req.payload.delete({
+      collection: "search-index",
+      id: entry.id,
+      overrideAccess: true,
+      req,
+    });
+    result.removed++;
+  }
+  return result;
+}
+
+// ----------------------------------------------------------------------------
+// Query parsing
+// ----------------------------------------------------------------------------
+
+// Words, or phrases in double quotes, lowercased and without duplicates
+export function parseSearchTerms(q: string): string[] {
+  const terms = new Set<string>();
+  for (const [, phrase, word] of q.matchAll(/"([^"]+)"|(\S+)/g)) {
+    const term = collapse(phrase ?? word).toLowerCase();
+    if (term) terms.add(term);
+  }
+  return [...terms].slice(0, SEARCH_MAX_TERMS);
+}
+
+// `?q=…&locale=zh&collection=posts,authors&page=2&limit=20`
+export function parseSearchParams(
+  params: URLSearchParams,
+  { defaultLocale, localeCodes }: { defaultLocale: string; localeCodes: string[] }
+): Omit<SearchOptions, "includeDrafts"> {
+  const errors: FieldError[] = [];
+
+  const q = (params.get("q") ?? "").trim();
+  if (!q || parseSearchTerms(q).length === 0) {
+    errors.push({ path: "q", message: "A search query is required" });
+  } else if (q.length > SEARCH_MAX_QUERY_LENGTH) {
+    errors.push({
+      path: "q",
+      message: `Must be at most ${SEARCH_MAX_QUERY_LENGTH} characters`,
+    });
+  }
+
+  const locale = params.get("locale") ?? defaultLocale;
+  if (!localeCodes.includes(locale)) {
+    errors.push({
+      path: "locale",
+      message: `Must be one of: ${localeCodes.join(", ")}`,
+    });
+  }
+
+  const collectionParam = params.get("collection");
+  const collections = collectionParam
+    ? (collectionParam.split(",").map((slug) => slug.trim()) as SearchableCollection[])
+    : undefined;
+  if (collections?.some((slug) => !SEARCHABLE_COLLECTIONS.includes(slug))) {
+    errors.push({
+      path: "collection",
+      message: `Must be a comma-separated list of: ${SEARCHABLE_COLLECTIONS.join(", ")}`,
+    });
+  }
+
+  const positiveInt = (name: "page" | "limit", max?: number) => {
+    const raw = params.get(name);
+    if (raw === null) return undefined;
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < 1 || (max && value > max)) {
+      errors.push({
+        path: name,
+        message: max
+          ? `Must be an integer between 1 and ${max}`
+          : "Must be a positive integer",
+      });
+    }
+    return value;
+  };
+  const page = positiveInt("page");
+  const limit = positiveInt("limit", SEARCH_MAX_LIMIT);
+
+  if (errors.length > 0) throw invalidRequest(errors);
+  return { q, locale, collections, page, limit };
+}
+
+// ----------------------------------------------------------------------------
+// Ranking and highlighting
+// ----------------------------------------------------------------------------
+
+type Range = { start: number; end: number };
+
+// Every occurrence of every term, merged where they overlap
+function matchRanges(text: string, terms: string[]): Range[] {
+  const lower = text.toLowerCase();
+  const ranges: Range[] = [];
+  for (const term of terms) {
+    for (
+      let index = lower.indexOf(term);
+      index !== -1;
+      index = lower.indexOf(term, index + term.length)
+    ) {
+      ranges.push({ start: index, end: index + term.length });
+    }
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: Range[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) last.end = Math.max(last.end, range.end);
+    else merged.push({ ...range });
+  }
+  return merged;
+}
+
+const escapeHTML = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+function highlight(text: string, terms: string[]): string {
+  let html = "";
+  let position = 0;
+  for (const { start, end } of matchRanges(text, terms)) {
+    html += escapeHTML(text.slice(position, start));
+    html += `<mark>${escapeHTML(text.slice(start, end))}</mark>`;
+    position = end;
+  }
+  return html + escapeHTML(text.slice(position));
+}
+
+// About SNIPPET_LENGTH characters of the body around its first match
+function snippet(body: string, terms: string[]): string {
+  if (body.length <= SNIPPET_LENGTH) return highlight(body, terms);
+
+  const first = matchRanges(body, terms)[0]?.start ?? 0;
+  let start = Math.max(0, first - Math.floor(SNIPPET_LENGTH / 3));
+  const end = Math.min(body.length, start + SNIPPET_LENGTH);
+  start = Math.max(0, end - SNIPPET_LENGTH);
+
+  // Avoid cutting words in half where the text has spaces nearby
+  const space = body.indexOf(" ", start);
+  const from = start > 0 && space !== -1 && space < Math.min(first, start + 20)
+    ? space + 1
+    : start;
+  const lastSpace = body.lastIndexOf(" ", end);
+  const to = end < body.length && lastSpace > Math.max(first, end - 20)
+    ? lastSpace
+    : end;
+
+  return (
+    (from > 0 ? "…" : "") +
+    highlight(body.slice(from, to), terms) +
+    (to < body.length ? "…" : "")
+  );
+}
+
+const count = (text: string, term: string) => {
+  let found = 0;
+  for (
+    let index = text.indexOf(term);
+    index !== -1;
+    index = text.indexOf(term, index + term.length)
+  ) {
+    found++;
+  }
+  return found;
+};
+
+// Title matches count far more than body matches, a match at the start of a
+// word more than one inside it, and the whole query as a phrase gets a bonus.
+// Body matches are capped so long posts don't win on length alone.
+function score(title: string, body: string, terms: string[], query: string) {
+  const lowerTitle = title.toLowerCase();
+  const lowerBody = body.toLowerCase();
+  let total = 0;
+
+  for (const term of terms) {
+    total += count(lowerTitle, term) * 10;
+    total += Math.min(count(lowerBody, term), 5);
+    if (lowerTitle.startsWith(term) || lowerTitle.includes(` ${term}`)) {
+      total += 3;
+    }
+  }
+
+  const phrase = query.toLowerCase();
+  if (lowerTitle === phrase) total += 30;
+  else if (lowerTitle.includes(phrase)) total += 15;
+  else if (terms.length > 1 && lowerBody.includes(phrase)) total += 5;
+
+  return Math.round(total * 100) / 100;
+}
+
+// ----------------------------------------------------------------------------
+// Search
+// ----------------------------------------------------------------------------
+
+export async function searchIndex(
+  payload: Payload,
+  {
+    q,
+    locale,
+    collections,
+    page = 1,
+    limit = 10,
+    includeDrafts = false,
+  }: SearchOptions
+): Promise<SearchResult> {
+  const terms = parseSearchTerms(q);
+  const query = collapse(q.replace(/"/g, ""));
+
+  // Every term has to appear in the title or the body
+  const matches = terms.map((term): Where => ({
+    or: [{ title: { contains: term } }, { body: { contains: term } }],
+  }));
+  if (!includeDrafts) matches.push({ published: { equals: true } });
+  // The adapter only supports `equals` on a polymorphic relation's type
+  const inCollections = (slugs: readonly SearchableCollection[]): Where => ({
+    or: slugs.map((slug) => ({ "doc.relationTo": { equals: slug } })),
+  });
+  const inLocale = (code: string): Where => ({ locale: { equals: code } });
+
+  const localeCodes = payload.config.localization
+    ? payload.config.localization.localeCodes
+    : [locale];
+  const [candidates, collectionCounts, localeCounts] = await Promise.all([
+    payload.find({
+      collection: "search-index",
+      where: {
+        and: [
+          ...matches,
+          inLocale(locale),
+          ...(collections?.length ? [inCollections(collections)] : []),
+        ],
+      },
+      sort: "-updatedAt",
+      limit: SEARCH_MAX_CANDIDATES,
+      depth: 0,
+    }),
+    Promise.all(
+      SEARCHABLE_COLLECTIONS.map((slug) =>
+        payload.count({
+          collection: "search-index",
+          where: { and: [...matches, inLocale(locale), inCollections([slug])] },
+        })
+      )
+    ),
+    Promise.all(
+      localeCodes.map((code) =>
+        payload.count({
+          collection: "search-index",
+          where: {
+            and: [
+              ...matches,
+              inLocale(code),
+              ...(collections?.length ? [inCollections(collections)] : []),
+            ],
+          },
+        })
+      )
+    ),
+  ]);
+
+  const ranked = candidates.docs
+    .filter((entry) => entry.doc)
+    .map((entry) => {
+      const body = entry.body ?? "";
+      const value = entry.doc.value;
+      return {
+        id: entry.id,
+        collection: entry.doc.relationTo as SearchableCollection,
+        docId: typeof value === "object" ? value.id : value,
+        locale: entry.locale,
+        title: entry.title,
+        url: entry.url,
+        published: Boolean(entry.published),
+        score: score(entry.title, body, terms, query),
+        highlights: {
+          title: highlight(entry.title, terms),
+          snippet: body ? snippet(body, terms) : "",
+        },
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+
+  const totalDocs = ranked.length;
+  return {
+    query: q,
+    terms,
+    locale,
+    docs: ranked.slice((page - 1) * limit, page * limit),
+    totalDocs,
+    page,
+    limit,
+    totalPages: Math.ceil(totalDocs / limit),
+    truncated: candidates.totalDocs > totalDocs,
+    facets: {
+      collection: Object.fromEntries(
+        SEARCHABLE_COLLECTIONS.map((slug, index) => [
+          slug,
+          collectionCounts[index].totalDocs,
+        ])
+      ) as Record<SearchableCollection, number>,
+      locale: Object.fromEntries(
+        localeCodes.map((code, index) => [code, localeCounts[index].totalDocs])
+      ),
+    },
+  };
+}
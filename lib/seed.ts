@@ -0,0 +1,704 @@
+import {
+  commitTransaction,
+  createLocalReq,
+  initTransaction,
+  killTransaction,
+  type CollectionSlug,
+  type Payload,
+  type PayloadRequest,
+  type TypedLocale,
+  type Where,
+} from "payload";
+import type { FieldShowcase, User } from "../payload-types";
+import { keepingRequestLocale } from "./request-locale";
+
+// ============================================================================
+// Demo content for a fresh database: users for every role, authors,
+// categories, English/Chinese posts with rich text, a filled-in field
+// showcase and the site settings.
+//
+// Every fixture has a fixed natural key (email, English name, slug or title)
+// and fixed values, dates included, so two seeded databases hold the same
+// content. Seeding creates what is missing and leaves existing documents
+// alone, so it can run any number of times; `reset` first deletes all
+// content (and the audit log) to get back to exactly the seeded state.
+// Everything runs in one transaction: a failed seed leaves nothing behind.
+// ============================================================================
+
+// Password of every seeded account; the database is for development only
+export const SEED_PASSWORD = "password123";
+
+export interface SeedOptions {
+  reset?: boolean;
+}
+
+export interface SeedResult {
+  reset: boolean;
+  // Per collection
+  deleted: Record<string, number>;
+  created: Record<string, number>;
+  skipped: Record<string, number>;
+}
+
+// Deleted by a reset, dependents first. Search index and translation status
+// entries go with their documents.
+const RESET_COLLECTIONS = [
+  "posts",
+  "categories",
+  "authors",
+  "field-showcase",
+  "audit-logs",
+] as const;
+
+// ----------------------------------------------------------------------------
+// Lexical
+// ----------------------------------------------------------------------------
+
+type LexicalNode = { type: string; version: number; [key: string]: unknown };
+
+const BOLD = 1;
+const ITALIC = 2;
+
+const text = (value: string, format = 0): LexicalNode => ({
+  type: "text",
+  text: value,
+  format,
+  detail: 0,
+  mode: "normal",
+  style: "",
+  version: 1,
+});
+
+const element = (type: string, children: LexicalNode[], extra = {}) => ({
+  type,
+  children,
+  direction: "ltr" as const,
+  format: "" as const,
+  indent: 0,
+  version: 1,
+  ...extra,
+});
+
+const paragraph = (...children: (LexicalNode | string)[]) =>
+  element(
+    "paragraph",
+    children.map((child) => (typeof child === "string" ? text(child) : child)),
+    { textFormat: 0 }
+  );
+
+const heading = (tag: "h2" | "h3", value: string) =>
+  element("heading", [text(value)], { tag });
+
+const link = (url: string, value: string) =>
+  element("link", [text(value)], {
+    fields: { url, newTab: false, linkType: "custom" },
+  });
+
+const list = (items: string[]) =>
+  element(
+    "list",
+    items.map((item, index) =>
+      element("listitem", [text(item)], { value: index + 1 })
+    ),
+    { listType: "bullet", start: 1, tag: "ul" }
+  );
+
+const richText = (...children: LexicalNode[]) => ({
+  root: element("root", children),
+});
+
+// ----------------------------------------------------------------------------
+// Fixtures
+// ----------------------------------------------------------------------------
+
+type Localized<T> = { en: T; zh?: T };
+
+const AUTHORS: { name: Localized<string>; bio: string }[] = [
+  {
+    name: { en: "Ada Lovelace", zh: "阿达·洛芙莱斯" },
+    bio: "Writes about the history of computing and the ideas that outlived their machines.",
+  },
+  {
+    name: { en: "Grace Hopper", zh: "格蕾丝·霍珀" },
+    bio: "Compiler pioneer covering programming languages and developer tooling.",
+  },
+  {
+    name: { en: "Alan Turing", zh: "艾伦·图灵" },
+    bio: "Looks at design and the people who use what we build.",
+  },
+];
+
+const CATEGORIES: {
+  slug: string;
+  title: Localized<string>;
+  parent?: string;
+  description: string;
+}[] = [
+  {
+    slug: "technology",
+    title: { en: "Technology", zh: "科技" },
+    description: "Software, hardware and the craft of building them.",
+  },
+  {
+    slug: "web-development",
+    title: { en: "Web Development", zh: "Web 开发" },
+    parent: "technology",
+    description: "Frameworks, content management and shipping to the web.",
+  },
+  {
+    slug: "design",
+    title: { en: "Design", zh: "设计" },
+    description: "Interfaces, typography and everything users see.",
+  },
+  {
+    slug: "writing",
+    title: { en: "Writing", zh: "写作" },
+    description: "Editorial workflows, translation and publishing.",
+  },
+];
+
+type PostFixture = {
+  slug: string;
+  author: string;
+  categories: string[];
+  // Drafts have never been published
+  publishedOn: string | null;
+  title: Localized<string>;
+  excerpt: Localized<string>;
+  content: Localized<ReturnType<typeof richText>>;
+  seo?: Localized<{ metaTitle: string; metaDescription: string }>;
+};
+
+const POSTS: PostFixture[] = [
+  {
+    slug: "getting-started-with-payload",
+    author: "Grace Hopper",
+    categories: ["technology", "web-development"],
+    publishedOn: "2025-01-15T09:00:00.000Z",
+    title: {
+      en: "Getting Started with Payload",
+      zh: "Payload 入门",
+    },
+    excerpt: {
+      en: "A tour of collections, hooks and the Local API in a Next.js app.",
+      zh: "在 Next.js 应用中了解集合、钩子和本地 API。",
+    },
+    content: {
+      en: richText(
+        heading("h2", "Why a headless CMS"),
+        paragraph(
+          "Payload keeps your content model in ",
+          text("TypeScript", BOLD),
+          ", next to the code that renders it."
+        ),
+        list([
+          "Collections describe documents and their fields",
+          "Hooks run on every create, update and delete",
+          "The Local API reads data without an HTTP round trip",
+        ]),
+        paragraph(
+          "Read more in the ",
+          link("https://payloadcms.com/docs", "Payload docs"),
+          "."
+        )
+      ),
+      zh: richText(
+        heading("h2", "为什么选择无头 CMS"),
+        paragraph(
+          "Payload 用 ",
+          text("TypeScript", BOLD),
+          " 定义内容模型，与渲染它的代码放在一起。"
+        ),
+        list([
+          "集合描述文档及其字段",
+          "钩子在每次创建、更新和删除时运行",
+          "本地 API 无需 HTTP 请求即可读取数据",
+        ]),
+        paragraph(
+          "更多内容请参阅 ",
+          link("https://payloadcms.com/docs", "Payload 文档"),
+          "。"
+        )
+      ),
+    },
+    seo: {
+      en: {
+        metaTitle: "Getting Started with Payload CMS",
+        metaDescription:
+          "Collections, hooks and the Local API explained with a Next.js example.",
+      },
+      zh: {
+        metaTitle: "Payload CMS 入门指南",
+        metaDescription: "通过 Next.js 示例讲解集合、钩子和本地 API。",
+      },
+    },
+  },
+  {
+    slug: "designing-for-two-languages",
+    author: "Alan Turing",
+    categories: ["design"],
+    publishedOn: "2025-02-03T09:00:00.000Z",
+    title: {
+      en: "Designing for Two Languages",
+      zh: "为双语设计",
+    },
+    excerpt: {
+      en: "Layouts that hold up when every string has a Chinese twin.",
+      zh: "当每段文字都有中文版本时，如何让布局依然稳固。",
+    },
+    content: {
+      en: richText(
+        paragraph(
+          "Chinese text is often ",
+          text("shorter", ITALIC),
+          " than English, but it needs more line height to stay readable."
+        ),
+        heading("h3", "Checklist"),
+        list([
+          "Never truncate translated titles with a fixed width",
+          "Pick fonts with CJK fallbacks",
+          "Show which fields are not translated yet",
+        ])
+      ),
+      zh: richText(
+        paragraph(
+          "中文通常比英文",
+          text("更短", ITALIC),
+          "，但需要更大的行高才能保持易读。"
+        ),
+        heading("h3", "检查清单"),
+        list([
+          "不要用固定宽度截断翻译后的标题",
+          "选择带有中日韩字体回退的字体",
+          "标明哪些字段尚未翻译",
+        ])
+      ),
+    },
+  },
+  {
+    slug: "a-translation-workflow-that-scales",
+    author: "Ada Lovelace",
+    categories: ["writing"],
+    publishedOn: "2025-03-10T09:00:00.000Z",
+    title: {
+      en: "A Translation Workflow That Scales",
+      zh: "可扩展的翻译流程",
+    },
+    excerpt: {
+      en: "Track what is missing, what is outdated and what needs review.",
+      zh: "跟踪缺失、过期和待审核的翻译。",
+    },
+    content: {
+      en: richText(
+        paragraph(
+          "Every change to the English source marks its translations as outdated until someone reviews them."
+        ),
+        paragraph(
+          "Machine translation fills the gaps, but a person still signs off."
+        )
+      ),
+      zh: richText(
+        paragraph("英文原文的每次修改都会将其译文标记为过期，直到有人审核。"),
+        paragraph("机器翻译可以填补空白，但仍需人工确认。")
+      ),
+    },
+  },
+  {
+    // English only: the Chinese pages show it with "English" badges
+    slug: "notes-on-the-analytical-engine",
+    author: "Ada Lovelace",
+    categories: ["technology"],
+    publishedOn: "2025-04-21T09:00:00.000Z",
+    title: { en: "Notes on the Analytical Engine" },
+    excerpt: {
+      en: "Why a machine that manipulates symbols can do more than arithmetic.",
+    },
+    content: {
+      en: richText(
+        paragraph(
+          "The engine weaves algebraic patterns just as the Jacquard loom weaves flowers and leaves."
+        )
+      ),
+    },
+  },
+  {
+    slug: "upcoming-release-notes",
+    author: "Grace Hopper",
+    categories: ["web-development"],
+    publishedOn: null,
+    title: {
+      en: "Upcoming Release Notes",
+      zh: "即将发布的版本说明",
+    },
+    excerpt: {
+      en: "A draft that has not been published yet.",
+      zh: "一篇尚未发布的草稿。",
+    },
+    content: {
+      en: richText(paragraph("Still being written.")),
+      zh: richText(paragraph("仍在撰写中。")),
+    },
+  },
+];
+
+const USERS: { email: string; role: User["role"]; author?: string }[] = [
+  { email: "admin@example.com", role: "admin" },
+  { email: "editor@example.com", role: "editor" },
+  { email: "author@example.com", role: "author", author: "Ada Lovelace" },
+  { email: "viewer@example.com", role: "viewer" },
+];
+
+const FIELD_SHOWCASE: Omit<
+  FieldShowcase,
+  "id" | "createdAt" | "updatedAt" | "relatedAuthor"
+> & { relatedAuthor: string } = {
+  title: "Every Field Type",
+  email: "showcase@example.com",
+  description: "One document with every field of the showcase filled in.",
+  code: 'export const greet = (name: string) => `Hello, ${name}!`;\n',
+  quantity: 42,
+  price: 19.99,
+  eventDate: "2025-06-01T00:00:00.000Z",
+  eventDateTime: "2025-06-01T14:30:00.000Z",
+  priority: "high",
+  tags: ["featured", "new"],
+  status: "active",
+  isPublished: true,
+  richContent: richText(
+    heading("h2", "Rich text"),
+    paragraph(
+      "Supports ",
+      text("bold", BOLD),
+      " and ",
+      text("italic", ITALIC),
+      "."
+    ),
+    list(["Lists", "Links", "Headings"])
+  ),
+  jsonData: { theme: "dark", features: ["search", "i18n"], version: 2 },
+  // [longitude, latitude]
+  point: [-0.1276, 51.5072],
+  socialLinks: [
+    { platform: "github", url: "https://github.com/payloadcms/payload" },
+    { platform: "twitter", url: "https://twitter.com/payloadcms" },
+  ],
+  relatedAuthor: "Grace Hopper",
+  column1: "Left column",
+  column2: "Right column",
+};
+
+type SiteName = { siteName: string; tagline: string };
+
+const SITE_SETTINGS: Record<"en" | "zh", SiteName> = {
+  en: {
+    siteName: "Payload Showcase",
+    tagline: "Notes on building with Payload",
+  },
+  zh: { siteName: "Payload 示例站", tagline: "用 Payload 构建的笔记" },
+};
+
+// ----------------------------------------------------------------------------
+// Seeding
+// ----------------------------------------------------------------------------
+
+export async function seed(
+  payload: Payload,
+  { reset = false }: SeedOptions = {}
+): Promise<SeedResult> {
+  const req = await createLocalReq({}, payload);
+  const result: SeedResult = { reset, deleted: {}, created: {}, skipped: {} };
+
+  await initTransaction(req);
+  try {
+    if (reset) {
+      for (const collection of RESET_COLLECTIONS) {
+        result.deleted[collection] = await deleteAll(req, collection);
+      }
+    }
+
+    const authors = await seedAuthors(req, result);
+    const categories = await seedCategories(req, result);
+    await seedPosts(req, result, authors, categories);
+    await seedUsers(req, result, authors);
+    await seedFieldShowcase(req, result, authors);
+    await seedSiteSettings(req);
+
+    await commitTransaction(req);
+  } catch (error) {
+    await killTransaction(req);
+    throw error;
+  }
+
+  console.log("[SEED] Done:", JSON.stringify(result));
+  return result;
+}
+
+// One document at a time: a bulk delete handles its documents concurrently,
+// and a category's hooks then trip over the subcategories being deleted
+// alongside it. Subcategories go before their parents for the same reason.
+async function deleteAll(
+  req: PayloadRequest,
+  collection: (typeof RESET_COLLECTIONS)[number]
+): Promise<number> {
+  const { docs } = await req.payload.find({
+    collection,
+    depth: 0,
+    pagination: false,
+    req,
+  });
+  const depth = (doc: object) =>
+    "path" in doc && typeof doc.path === "string"
+      ? doc.path.split("/").length
+      : 0;
+  const ordered = [...docs].sort((a, b) => depth(b) - depth(a));
+
+  for (const { id } of ordered) {
+    await req.payload.delete({ collection, id, depth: 0, req });
+  }
+  return ordered.length;
+}
+
+// The ID of the document matching `where`, or of the one `create` makes
+async function ensure(
+  req: PayloadRequest,
+  result: SeedResult,
+  collection: CollectionSlug,
+  where: Where,
+  create: () => Promise<{ id: number }>
+): Promise<number> {
+  const { docs } = await req.payload.find({
+    collection,
+    where,
+    depth: 0,
+    limit: 1,
+    draft: true,
+    req,
+  });
+  if (docs[0]) {
+    result.skipped[collection] = (result.skipped[collection] ?? 0) + 1;
+    return docs[0].id as number;
+  }
+
+  const { id } = await create();
+  result.created[collection] = (result.created[collection] ?? 0) + 1;
+  return id;
+}
+
+// Saves the Chinese values of a document created in English
+const updateZh = (
+  req: PayloadRequest,
+  collection: CollectionSlug,
+  id: number,
+  data: Record<string, unknown>
+) =>
+  keepingRequestLocale(req, () =>
+    req.payload.update({
+      collection,
+      id,
+      data,
+      locale: "zh" as TypedLocale,
+      depth: 0,
+      req,
+    })
+  );
+
+async function seedAuthors(req: PayloadRequest, result: SeedResult) {
+  const ids = new Map<string, number>();
+  for (const author of AUTHORS) {
+    const id = await ensure(
+      req,
+      result,
+      "authors",
+      { name: { equals: author.name.en } },
+      async () => {
+        const doc = await req.payload.create({
+          collection: "authors",
+          data: { name: author.name.en, bio: author.bio },
+          depth: 0,
+          req,
+        });
+        if (author.name.zh) {
+          await updateZh(req, "authors", doc.id, { name: author.name.zh });
+        }
+        return doc;
+      }
+    );
+    ids.set(author.name.en, id);
+  }
+  return ids;
+}
+
+async function seedCategories(req: PayloadRequest, result: SeedResult) {
+  const ids = new Map<string, number>();
+  // Parents come first in CATEGORIES
+  for (const category of CATEGORIES) {
+    const id = await ensure(
+      req,
+      result,
+      "categories",
+      { slug: { equals: category.slug } },
+      async () => {
+        const doc = await req.payload.create({
+          collection: "categories",
+          data: {
+            title: category.title.en,
+            slug: category.slug,
+            parent: category.parent ? ids.get(category.parent) : undefined,
+            description: category.description,
+          },
+          depth: 0,
+          req,
+        });
+        if (category.title.zh) {
+          await updateZh(req, "categories", doc.id, {
+            title: category.title.zh,
+          });
+        }
+        return doc;
+      }
+    );
+    ids.set(category.slug, id);
+  }
+  return ids;
+}
+
+async function seedPosts(
+  req: PayloadRequest,
+  result: SeedResult,
+  authors: Map<string, number>,
+  categories: Map<string, number>
+) {
+  for (const post of POSTS) {
+    // Saved with `_status` rather than `draft: true`, so drafts are
+    // validated like published posts
+    const _status = post.publishedOn ? "published" : "draft";
+
+    await ensure(
+      req,
+      result,
+      "posts",
+      { slug: { equals: post.slug } },
+      async () => {
+        const doc = await req.payload.create({
+          collection: "posts",
+          data: {
+            title: post.title.en,
+            slug: post.slug,
+            excerpt: post.excerpt.en,
+            content: post.content.en,
+            seo: post.seo?.en,
+            author: authors.get(post.author) as number,
+            categories: post.categories.map(
+              (slug) => categories.get(slug) as number
+            ),
+            publishedOn: post.publishedOn ?? undefined,
+            _status,
+          },
+          depth: 0,
+          req,
+        });
+        if (post.title.zh) {
+          await updateZh(req, "posts", doc.id, {
+            title: post.title.zh,
+            excerpt: post.excerpt.zh,
+            content: post.content.zh,
+            seo: post.seo?.zh,
+            _status,
+          });
+        }
+        return doc;
+      }
+    );
+  }
+}
+
+async function seedUsers(
+  req: PayloadRequest,
+  result: SeedResult,
+  authors: Map<string, number>
+) {
+  for (const user of USERS) {
+    const id = await ensure(
+      req,
+      result,
+      "users",
+      { email: { equals: user.email } },
+      () =>
+        req.payload.create({
+          collection: "users",
+          data: {
+            email: user.email,
+            password: SEED_PASSWORD,
+            role: user.role,
+            author: user.author ? authors.get(user.author) : undefined,
+          },
+          depth: 0,
+          req,
+        })
+    );
+
+    // Accounts survive a reset, but deleting the authors unlinks them
+    if (!user.author) continue;
+    const { author } = await req.payload.findByID({
+      collection: "users",
+      id,
+      depth: 0,
+      req,
+    });
+    if (!author) {
+      await req.payload.update({
+        collection: "users",
+        id,
+        data: { author: authors.get(user.author) },
+        depth: 0,
+        req,
+      });
+    }
+  }
+}
+
+async function seedFieldShowcase(
+  req: PayloadRequest,
+  result: SeedResult,
+  authors: Map<string, number>
+) {
+  await ensure(
+    req,
+    result,
+    "field-showcase",
+    { title: { equals: FIELD_SHOWCASE.title } },
+    () =>
+      req.payload.create({
+        collection: "field-showcase",
+        data: {
+          ...FIELD_SHOWCASE,
+          relatedAuthor: authors.get(FIELD_SHOWCASE.relatedAuthor),
+        },
+        depth: 0,
+        req,
+      })
+  );
+}
+
+// The global always exists; only names that were never set are filled in
+async function seedSiteSettings(req: PayloadRequest) {
+  for (const locale of ["en", "zh"] as const) {
+    await keepingRequestLocale(req, async () => {
+      const settings = await req.payload.findGlobal({
+        slug: "site-settings",
+        locale,
+        fallbackLocale: false,
+        depth: 0,
+        req,
+      });
+      if (settings.siteName) return;
+      await req.payload.updateGlobal({
+        slug: "site-settings",
+        locale,
+        data: SITE_SETTINGS[locale],
+        depth: 0,
+        req,
+      });
+    });
+  }
+}
@@ -0,0 +1,142 @@
+import type { Metadata } from "next";
+import type { Media, Post, SiteSetting } from "../payload-types";
+import { DEFAULT_LOCALE, localeHref } from "./localized-paths";
+
+// ============================================================================
+// Page metadata from the posts' `seo` group and the SEO defaults in the
+// site-settings global. Empty fields fall back step by step: post SEO field,
+// then the post's own title / excerpt / featured image, then the site
+// defaults.
+// ============================================================================
+
+// Recommended lengths; the admin warns outside them but saves anyway
+export const SEO_LIMITS = {
+  title: { min: 30, max: 60 },
+  description: { min: 70, max: 160 },
+} as const;
+
+// Each locale has its own feeds: /feed.xml and /zh/feed.xml
+const feedTypes = (locale: string) => ({
+  "application/rss+xml": localeHref("/feed.xml", locale),
+  "application/atom+xml": localeHref("/atom.xml", locale),
+  "application/feed+json": localeHref("/feed.json", locale),
+});
+
+// The "card" size (768x432) when it was generated, else the original
+const ogImage = (media: number | Media | null | undefined) => {
+  if (!media || typeof media !== "object" || !media.url) return undefined;
+
+  const image = media.sizes?.card?.url ? media.sizes.card : media;
+  return [
+    {
+      url: image.url ?? media.url,
+      alt: media.alt,
+      width: image.width ?? undefined,
+      height: image.height ?? undefined,
+    },
+  ];
+};
+
+// Defaults for every page, set by the root layout from the settings read in
+// the page's `locale`. `siteURL` resolves the relative URLs (canonical, Open
+// Graph images) child pages return.
+export function siteMetadata(
+  settings: SiteSetting,
+  siteURL: string,
+  locale: string = DEFAULT_LOCALE
+): Metadata {
+  const images = ogImage(settings.seo?.ogImage);
+
+  return {
+    metadataBase: new URL(siteURL),
+    title: {
+      default: settings.siteName,
+      template: settings.seo?.titleTemplate?.includes("%s")
+        ? settings.seo.titleTemplate
+        : `%s | ${settings.siteName}`,
+    },
+    description: settings.seo?.metaDescription || settings.tagline || undefined,
+    openGraph: {
+      type: "website",
+      siteName: settings.siteName,
+      locale,
+      images,
+    },
+    twitter: { card: images ? "summary_large_image" : "summary" },
+    alternates: { types: feedTypes(locale) },
+  };
+}
+
+// Child pages replace `openGraph` as a whole, so each page builds on this
+export function openGraphDefaults(settings: SiteSetting) {
+  return {
+    siteName: settings.siteName,
+    images: ogImage(settings.seo?.ogImage),
+  };
+}
+
+export function postMetadata(
+  post: Post,
+  settings: SiteSetting,
+  {
+    isPreview = false,
+    locale = DEFAULT_LOCALE,
+  }: { isPreview?: boolean; locale?: string } = {}
+): Metadata {
+  const seo = post.seo ?? {};
+  const title = seo.metaTitle || post.title;
+  const description =
+    seo.metaDescription ||
+    post.excerpt ||
+    settings.seo?.metaDescription ||
+    settings.tagline ||
+    undefined;
+  const canonical =
+    seo.canonicalURL || localeHref(`/posts/${post.slug}`, locale);
+  const images =
+    ogImage(seo.ogImage) ??
+    ogImage(post.featuredImage) ??
+    ogImage(settings.seo?.ogImage);
+  const author = typeof post.author === "object" ? post.author : null;
+
+  return {
+    // A hand-written meta title is used as is, without the site template
+    title: seo.metaTitle ? { absolute: seo.metaTitle } : post.title,
+    description,
+    alternates: { canonical, types: feedTypes(locale) },
+    // Drafts opened through a preview link are never indexed
+    ...((seo.noindex || isPreview) && {
+      robots: { index: false, follow: !isPreview },
+    }),
+    openGraph: {
+      ...openGraphDefaults(settings),
+      type: "article",
+      locale,
+      title,
+      description,
+      url: canonical,
+      images,
+      publishedTime: post.publishedOn ?? undefined,
+      modifiedTime: post.updatedAt,
+      authors: author ? [author.name] : undefined,
+    },
+    twitter: {
+      card: images ? "summary_large_image" : "summary",
+      title,
+      description,
+      images: images?.map((image) => image.url),
+    },
+  };
+}
+
+// `canonicalURL` accepts an absolute http(s) URL or a path on this site
+export function validateCanonicalURL(value: string | null | undefined) {
+  if (!value || value.startsWith("/")) return true;
+  try {
+    const { protocol } = new URL(value);
+    if (protocol === "http:" || protocol === "https:") return true;
+  } catch {
+    // falls through to the message below
+  }
+  return "Use a full URL (https://…) or a path starting with /";
+}
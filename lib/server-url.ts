@@ -0,0 +1,12 @@
+// Public origin of the app (e.g. "http://localhost:3000"), taken from the
+// incoming request so it also works behind a proxy. Falls back to
+// NEXT_PUBLIC_SERVER_URL when there is no host header.
+export function resolveServerURL(headers: Headers): string {
+  const proto = headers.get("x-forwarded-proto") ?? "http";
+  const host = headers.get("x-forwarded-host") ?? headers.get("host");
+  if (host) {
+    return `${proto}://${host}`;
+  }
+
+  return process.env.NEXT_PUBLIC_SERVER_URL || "http://localhost:3000";
+}
@@ -0,0 +1,335 @@
+import type { Payload } from "payload";
+import type { SiteSetting } from "../payload-types";
+import { LOCALES, localeHref, localizedPath } from "./localized-paths";
+import { resolveServerURL } from "./server-url";
+import { escapeXML, XML_DECLARATION } from "./xml";
+
+// ============================================================================
+// /sitemap.xml and /robots.txt. The sitemap lists the post index, every
+// published post, every author and every category once per locale the page
+// has a translation in, each with `hreflang` alternates for its other
+// locales. Posts marked "Hide from search engines" in a locale are left out
+// of that locale. Past SITEMAP_MAX_URLS it becomes a sitemap index pointing at
+// /sitemap/1.xml, /sitemap/2.xml, ...
+// ============================================================================
+
+export const SITEMAP_MAX_URLS = 5_000;
+
+const CACHE_CONTROL = "public, max-age=600";
+
+// Used when the site-settings global has no robots rules. Search result
+// pages are excluded in every locale.
+const DEFAULT_ROBOTS_RULES: NonNullable<NonNullable<SiteSetting["robots"]>["rules"]> = [
+  {
+    userAgent: "*",
+    allow: "/",
+    disallow: [
+      "/admin",
+      "/api/",
+      ...LOCALES.map(({ code }) => localeHref("/search", code)),
+    ].join("\n"),
+  },
+];
+
+export interface SitemapURL {
+  loc: string;
+  lastModified: string | null;
+  // Every locale version of the page, this one included
+  alternates: { hreflang: string; href: string }[];
+}
+
+// A page and the locales it is listed in
+interface SitemapPage {
+  path: string;
+  lastModified: string | null;
+  locales: string[];
+}
+
+// ----------------------------------------------------------------------------
+// Collecting pages
+// ----------------------------------------------------------------------------
+
+// Localized fields read with `locale: "all"` are `{ en: …, zh: … }`; a page
+// counts as translated where its title has a value
+const translatedLocales = (
+  title: unknown,
+  localeCodes: string[],
+  defaultLocale: string
+) => {
+  const values =
+    title && typeof title === "object" ? (title as Record<string, unknown>) : {};
+  return [
+    defaultLocale,
+    ...localeCodes.filter(
+      (code) => code !== defaultLocale && Boolean(values[code])
+    ),
+  ];
+};
+
+// `seo` is localized as a whole; a locale without one gets the default
+// locale's, like the post page does
+const isNoindex = (seo: unknown, locale: string, defaultLocale: string) => {
+  const values =
+    seo && typeof seo === "object" ? (seo as Record<string, unknown>) : {};
+  const group = (values[locale] ?? values[defaultLocale]) as
+    | { noindex?: boolean | null }
+    | null
+    | undefined;
+  return Boolean(group?.noindex);
+};
+
+async function collectPages(payload: Payload): Promise<SitemapPage[]> {
+  const localization = payload.config.localization;
+  const localeCodes = localization ? localization.localeCodes : ["en"];
+  const defaultLocale = localization ? localization.defaultLocale : "en";
+  const locales = (title: unknown) =>
+    translatedLocales(title, localeCodes, defaultLocale);
+
+  const [posts, authors, categories] = await Promise.all([
+    payload.find({
+      collection: "posts",
+      where: { _status: { equals: "published" } },
+      select: {
+        title: true,
+        slug: true,
+        updatedAt: true,
+        seo: { noindex: true },
+      },
+      sort: "-publishedOn",
+      locale: "all",
+      depth: 0,
+      pagination: false,
+    }),
+    payload.find({
+      collection: "authors",
+      select: { name: true, updatedAt: true },
+      sort: "createdAt",
+      locale: "all",
+      depth: 0,
+      pagination: false,
+    }),
+    payload.find({
+      collection: "categories",
+      select: { title: true, updatedAt: true },
+      sort: "path",
+      locale: "all",
+      depth: 0,
+      pagination: false,
+    }),
+  ]);
+
+  return [
+    {
+      path: "/posts",
+      lastModified: posts.docs.reduce<string | null>(
+        (latest, post) =>
+          !latest || post.updatedAt > latest ? post.updatedAt : latest,
+        null
+      ),
+      locales: [
+        defaultLocale,
+        ...localeCodes.filter((code) => code !== defaultLocale),
+      ],
+    },
+    ...posts.docs.flatMap((post) => {
+      const listed = locales(post.title).filter(
+        (locale) => !isNoindex(post.seo, locale, defaultLocale)
+      );
+      return listed.length > 0
+        ? [
+            {
+              path: `/posts/${post.slug}`,
+              lastModified: post.updatedAt,
+              locales: listed,
+            },
+          ]
+        : [];
+    }),
+    ...authors.docs.map((author) => ({
+      path: `/authors/${author.id}`,
+      lastModified: author.updatedAt,
+      locales: locales(author.name),
+    })),
+    ...categories.docs.map((category) => ({
+      path: `/categories/${category.id}`,
+      lastModified: category.updatedAt,
+      locales: locales(category.title),
+    })),
+  ];
+}
+
+// One URL per page and locale; `x-default` points at the default locale
+// when the page is listed in it
+export async function collectSitemapURLs(
+  payload: Payload,
+  siteURL: string
+): Promise<SitemapURL[]> {
+  const localization = payload.config.localization;
+  const defaultLocale = localization ? localization.defaultLocale : "en";
+  const url = (path: string, locale: string) =>
+    new URL(localizedPath(path, locale, defaultLocale), siteURL).toString();
+
+  return (await collectPages(payload)).flatMap((page) => {
+    const alternates =
+      page.locales.length > 1
+        ? [
+            ...page.locales.map((locale) => ({
+              hreflang: locale,
+              href: url(page.path, locale),
+            })),
+            ...(page.locales.includes(defaultLocale)
+              ? [{ hreflang: "x-default", href: url(page.path, defaultLocale) }]
+              : []),
+          ]
+        : [];
+
+    return page.locales.map((locale) => ({
+      loc: url(page.path, locale),
+      lastModified: page.lastModified,
+      alternates,
+    }));
+  });
+}
+
+// ----------------------------------------------------------------------------
+// Rendering
+// ----------------------------------------------------------------------------
+
+export function renderURLSet(urls: SitemapURL[]): string {
+  return [
+    XML_DECLARATION,
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:xhtml="http://www.w3.org/1999/xhtml">',
+    ...urls.map((url) =>
+      [
+        "<url>",
+        `<loc>${escapeXML(url.loc)}</loc>`,
+        url.lastModified && `<lastmod>${url.lastModified}</lastmod>`,
+        ...url.alternates.map(
+          ({ hreflang, href }) =>
+            `<xhtml:link rel="alternate" hreflang="${hreflang}" href="${escapeXML(href)}"/>`
+        ),
+        "</url>",
+      ]
+        .filter(Boolean)
+        .join("")
+    ),
+    "</urlset>",
+  ].join("\n");
+}
+
+export function renderSitemapIndex(
+  sitemaps: { loc: string; lastModified: string | null }[]
+): string {
+  return [
+    XML_DECLARATION,
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...sitemaps.map((sitemap) =>
+      [
+        "<sitemap>",
+        `<loc>${escapeXML(sitemap.loc)}</loc>`,
+        sitemap.lastModified && `<lastmod>${sitemap.lastModified}</lastmod>`,
+        "</sitemap>",
+      ]
+        .filter(Boolean)
+        .join("")
+    ),
+    "</sitemapindex>",
+  ].join("\n");
+}
+
+const newest = (urls: SitemapURL[]) =>
+  urls.reduce<string | null>(
+    (latest, url) =>
+      url.lastModified && (!latest || url.lastModified > latest)
+        ? url.lastModified
+        : latest,
+    null
+  );
+
+export function renderRobots(
+  robots: SiteSetting["robots"],
+  sitemapURL: string
+): string {
+  const lines = (text: string | null | undefined) =>
+    (text ?? "")
+      .split("\n")
+      .map((line) => line.trim())
+      .filter(Boolean);
+
+  const groups = robots?.blockAll
+    ? ["User-agent: *\nDisallow: /"]
+    : (robots?.rules?.length ? robots.rules : DEFAULT_ROBOTS_RULES).map(
+        (rule) =>
+          [
+            `User-agent: ${rule.userAgent}`,
+            ...lines(rule.allow).map((path) => `Allow: ${path}`),
+            ...lines(rule.disallow).map((path) => `Disallow: ${path}`),
+            rule.crawlDelay != null && `Crawl-delay: ${rule.crawlDelay}`,
+          ]
+            .filter(Boolean)
+            .join("\n")
+      );
+
+  return [...groups, `Sitemap: ${sitemapURL}`].join("\n\n") + "\n";
+}
+
+// ----------------------------------------------------------------------------
+// HTTP
+// ----------------------------------------------------------------------------
+
+const xmlResponse = (body: string) =>
+  new Response(body, {
+    headers: {
+      "Content-Type": "application/xml; charset=utf-8",
+      "Cache-Control": CACHE_CONTROL,
+    },
+  });
+
+// /sitemap.xml without `page`: every URL, or an index once there are more
+// than SITEMAP_MAX_URLS. With `page` (1-based): that slice of the URLs.
+export async function sitemapResponse(
+  payload: Payload,
+  request: Request,
+  { page }: { page?: number } = {}
+): Promise<Response> {
+  const siteURL = resolveServerURL(request.headers);
+  const urls = await collectSitemapURLs(payload, siteURL);
+  const pageCount = Math.max(1, Math.ceil(urls.length / SITEMAP_MAX_URLS));
+
+  if (page === undefined) {
+    if (pageCount === 1) return xmlResponse(renderURLSet(urls));
+
+    return xmlResponse(
+      renderSitemapIndex(
+        Array.from({ length: pageCount }, (_, index) => ({
+          loc: new URL(`/sitemap/${index + 1}.xml`, siteURL).toString(),
+          lastModified: newest(
+            urls.slice(index * SITEMAP_MAX_URLS, (index + 1) * SITEMAP_MAX_URLS)
+          ),
+        }))
+      )
+    );
+  }
+
+  if (!Number.isInteger(page) || page < 1 || page > pageCount) {
+    return Response.json({ error: "Not Found" }, { status: 404 });
+  }
+  return xmlResponse(
+    renderURLSet(urls.slice((page - 1) * SITEMAP_MAX_URLS, page * SITEMAP_MAX_URLS))
+  );
+}
+
+export async function robotsResponse(
+  payload: Payload,
+  request: Request
+): Promise<Response> {
+  const settings = await payload.findGlobal({ slug: "site-settings", depth: 0 });
+  const sitemapURL = new URL("/sitemap.xml", resolveServerURL(request.headers));
+
+  return new Response(renderRobots(settings.robots, sitemapURL.toString()), {
+    headers: {
+      "Content-Type": "text/plain; charset=utf-8",
+      "Cache-Control": CACHE_CONTROL,
+    },
+  });
+}
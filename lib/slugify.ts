@@ -0,0 +1,13 @@
+import { transliterate } from "transliteration";
+
+// Turns any title into a URL-safe slug. Non-Latin scripts are transliterated
+// first, e.g. "你好 世界" -> "ni-hao-shi-jie".
+export function slugify(input: string): string {
+  return transliterate(input)
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9\s-]/g, "")
+    .replace(/\s+/g, "-")
+    .replace(/-+/g, "-")
+    .replace(/^-|-$/g, "");
+}
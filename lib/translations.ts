@@ -0,0 +1,576 @@
+import { createHash } from "node:crypto";
+import type { Field, Payload, PayloadRequest, TypedLocale, Where } from "payload";
+import type { TranslationStatus } from "../payload-types";
+import { invalidRequest } from "./api-errors";
+import { keepingRequestLocale } from "./request-locale";
+import { lexicalToPlainText } from "./search";
+
+// ============================================================================
+// Translation status per document and locale.
+//
+// The translatable fields of a document are its localized text, textarea and
+// rich text fields (a field with `custom: { translatable: false }` is left
+// out). Hooks keep one `translation-status` entry per document and
+// non-default locale:
+//
+// - missing:  a field with a value in the default (source) locale is empty
+// - outdated: the source changed after the translation was last edited
+// - review:   a field still holds machine translation nobody has reviewed
+// - done:     everything is translated and newer than the source
+//
+// "Changed" means a translatable field differs before and after a save in
+// that locale; other edits (slug, relationships, …) don't touch the status.
+// Machine translations (lib/machine-translation.ts) are recorded by a
+// fingerprint of their text: a field counts as machine-translated while its
+// value still matches, until someone edits it or marks the entry reviewed.
+// ============================================================================
+
+export const TRANSLATION_COLLECTIONS = ["posts", "authors", "categories"] as const;
+export type TranslationCollection = (typeof TRANSLATION_COLLECTIONS)[number];
+
+export const TRANSLATION_GLOBALS = ["site-settings"] as const;
+export type TranslationGlobal = (typeof TRANSLATION_GLOBALS)[number];
+
+export const TRANSLATION_STATES = [
+  "missing",
+  "outdated",
+  "review",
+  "done",
+] as const;
+export type TranslationState = (typeof TRANSLATION_STATES)[number];
+
+export type TranslationTarget =
+  | { collection: TranslationCollection; id: number | string }
+  | { global: TranslationGlobal };
+
+export interface TranslatableField {
+  // Dot path from the document root, e.g. "seo.metaTitle"
+  path: string;
+  label: string;
+  type: "text" | "textarea" | "richText";
+}
+
+export type TranslationStatusData = Omit<
+  TranslationStatus,
+  "id" | "createdAt" | "updatedAt"
+>;
+
+// ----------------------------------------------------------------------------
+// Fields
+// ----------------------------------------------------------------------------
+
+const fieldLabel = (field: { name: string; label?: unknown }) =>
+  typeof field.label === "string"
+    ? field.label
+    : field.name
+        .replace(/([a-z])([A-Z])/g, "$1 $2")
+        .replace(/^./, (char) => char.toUpperCase());
+
+// Walks rows, collapsibles, tabs and groups; fields inside a localized group
+// are localized along with it
+export function translatableFields(
+  fields: Field[],
+  parent: { path: string; label: string; localized: boolean } = {
+    path: "",
+    label: "",
+    localized: false,
+  }
+): TranslatableField[] {
+  return fields.flatMap((field): TranslatableField[] => {
+    if (field.type === "row" || field.type === "collapsible") {
+      return translatableFields(field.fields, parent);
+    }
+    if (field.type === "tabs") {
+      return field.tabs.flatMap((tab) =>
+        "name" in tab && tab.name
+          ? translatableFields(tab.fields, {
+              path: `${parent.path}${tab.name}.`,
+              label: `${parent.label}${fieldLabel(tab)} > `,
+              localized: parent.localized || Boolean(tab.localized),
+            })
+          : translatableFields(tab.fields, parent)
+      );
+    }
+    if (!("name" in field) || field.custom?.translatable === false) return [];
+    if ((field.admin as { hidden?: boolean } | undefined)?.hidden) return [];
+
+    const localized =
+      parent.localized || ("localized" in field && Boolean(field.localized));
+    if (field.type === "group") {
+      return translatableFields(field.fields, {
+        path: `${parent.path}${field.name}.`,
+        label: `${parent.label}${fieldLabel(field)} > `,
+        localized,
+      });
+    }
+    if (
+      localized &&
+      (field.type === "text" ||
+        field.type === "textarea" ||
+        field.type === "richText")
+    ) {
+      return [
+        {
+          path: `${parent.path}${field.name}`,
+          label: `${parent.label}${fieldLabel(field)}`,
+          type: field.type,
+        },
+      ];
+    }
+    return [];
+  });
+}
+
+export function fieldsForTarget(
+  payload: Payload,
+  target: TranslationTarget
+): TranslatableField[] {
+  if ("collection" in target) {
+    return translatableFields(payload.collections[target.collection].config.fields);
+  }
+  const global = payload.config.globals.find(({ slug }) => slug === target.global);
+  return global ? translatableFields(global.fields) : [];
+}
+
+export const valueAt = (doc: unknown, path: string): unknown =>
+  path
+    .split(".")
+    .reduce<unknown>(
+      (value, key) =>
+        value && typeof value === "object"
+          ? (value as Record<string, unknown>)[key]
+          : undefined,
+      doc
+    );
+
+export const isEmptyValue = (
+  value: unknown,
+  type: TranslatableField["type"]
+): boolean =>
+  type === "richText"
+    ? !lexicalToPlainText(value)
+    : typeof value !== "string" || !value.trim();
+
+// The translatable fields a save changed (both documents are read in the
+// locale that was saved)
+export function changedFields(
+  fields: TranslatableField[],
+  previousDoc: unknown,
+  doc: unknown
+): string[] {
+  return fields
+    .filter(
+      ({ path }) =>
+        JSON.stringify(valueAt(previousDoc, path) ?? null) !==
+        JSON.stringify(valueAt(doc, path) ?? null)
+    )
+    .map(({ path }) => path);
+}
+
+// Identifies a machine translation by its text alone: the admin's editor may
+// store the same rich text with different node details than it was sent with
+export const translationFingerprint = (
+  value: unknown,
+  type: TranslatableField["type"]
+): string =>
+  createHash("sha256")
+    .update(
+      type === "richText"
+        ? lexicalToPlainText(value)
+        : typeof value === "string"
+          ? value.trim()
+          : ""
+    )
+    .digest("hex")
+    .slice(0, 16);
+
+// `{ [path]: fingerprint }` as stored on an entry
+type MachineTranslations = Record<string, string>;
+
+const machineTranslationsOf = (entry: TranslationStatus | undefined) =>
+  ({ ...(entry?.machineTranslations as MachineTranslations | null) }) as
+    MachineTranslations;
+
+export function translationState({
+  missingFields,
+  sourceChangedAt,
+  translatedAt,
+  machineTranslatedFields,
+}: Pick<
+  TranslationStatusData,
+  "missingFields" | "sourceChangedAt" | "translatedAt" | "machineTranslatedFields"
+>): TranslationState {
+  if (missingFields?.length) return "missing";
+  if (sourceChangedAt && translatedAt && translatedAt < sourceChangedAt) {
+    return "outdated";
+  }
+  if (machineTranslatedFields?.length) return "review";
+  return "done";
+}
+
+// ----------------------------------------------------------------------------
+// Reading documents
+// ----------------------------------------------------------------------------
+
+export const localeOptions = (payload: Payload) => {
+  const localization = payload.config.localization;
+  return localization
+    ? {
+        defaultLocale: localization.defaultLocale,
+        localeCodes: localization.localeCodes,
+      }
+    : { defaultLocale: "en", localeCodes: ["en"] };
+};
+
+// Every locale without fallback values, so an untranslated field reads as
+// empty. Posts are read as their latest draft: that is what gets translated.
+export async function readLocales(
+  req: PayloadRequest,
+  target: TranslationTarget,
+  { overrideAccess = true }: { overrideAccess?: boolean } = {}
+): Promise<Record<string, Record<string, unknown> | null>> {
+  const { localeCodes } = localeOptions(req.payload);
+  const read = (locale: string): Promise<unknown> =>
+    "collection" in target
+      ? req.payload.findByID({
+          collection: target.collection,
+          id: target.id,
+          locale: locale as TypedLocale,
+          fallbackLocale: false,
+          depth: 0,
+          draft: true,
+          disableErrors: true,
+          overrideAccess,
+          req,
+        })
+      : req.payload.findGlobal({
+          slug: target.global,
+          locale: locale as TypedLocale,
+          fallbackLocale: false,
+          depth: 0,
+          overrideAccess,
+          req,
+        });
+
+  const docs: Record<string, Record<string, unknown> | null> = {};
+  for (const locale of localeCodes) {
+    const doc = await keepingRequestLocale(req, () => read(locale));
+    docs[locale] = (doc as Record<string, unknown> | null) ?? null;
+  }
+  return docs;
+}
+
+const documentTitle = (
+  payload: Payload,
+  target: TranslationTarget,
+  doc: Record<string, unknown>
+) => {
+  if ("collection" in target) {
+    const { useAsTitle } = payload.collections[target.collection].config.admin;
+    const title = valueAt(doc, useAsTitle ?? "id");
+    return typeof title === "string" && title ? title : String(target.id);
+  }
+  const global = payload.config.globals.find(({ slug }) => slug === target.global);
+  return typeof global?.label === "string" ? global.label : target.global;
+};
+
+// ----------------------------------------------------------------------------
+// Status entries
+// ----------------------------------------------------------------------------
+
+export const targetWhere = (target: TranslationTarget): Where =>
+  "collection" in target
+    ? {
+        and: [
+          { collectionSlug: { equals: target.collection } },
+          { documentId: { equals: String(target.id) } },
+        ],
+      }
+    : { globalSlug: { equals: target.global } };
+
+export const targetOfEntry = (entry: {
+  collectionSlug?: string | null;
+  globalSlug?: string | null;
+  documentId: string;
+}): TranslationTarget | null => {
+  const collection = TRANSLATION_COLLECTIONS.find(
+    (slug) => slug === entry.collectionSlug
+  );
+  if (collection) return { collection, id: Number(entry.documentId) };
+  const global = TRANSLATION_GLOBALS.find((slug) => slug === entry.globalSlug);
+  return global ? { global } : null;
+};
+
+const sameEntry = (current: TranslationStatus, next: TranslationStatusData) =>
+  current.title === next.title &&
+  current.status === next.status &&
+  (current.sourceChangedAt ?? null) === next.sourceChangedAt &&
+  (current.translatedAt ?? null) === next.translatedAt &&
+  JSON.stringify(current.missingFields ?? []) ===
+    JSON.stringify(next.missingFields) &&
+  JSON.stringify(current.machineTranslatedFields ?? []) ===
+    JSON.stringify(next.machineTranslatedFields) &&
+  JSON.stringify(machineTranslationsOf(current)) ===
+    JSON.stringify(next.machineTranslations);
+
+const findEntries = (req: PayloadRequest, target: TranslationTarget) =>
+  req.payload.find({
+    collection: "translation-status",
+    where: targetWhere(target),
+    depth: 0,
+    pagination: false,
+    overrideAccess: true,
+    req,
+  });
+
+// Recomputes the document's entries. `changedLocale` is the locale whose
+// translatable fields the current save changed (`changedFields`): the
+// default locale moves `sourceChangedAt`, any other moves that locale's
+// `translatedAt`, and a changed field that no longer matches its machine
+// translation counts as reviewed.
+export async function syncTranslationStatus(
+  req: PayloadRequest,
+  target: TranslationTarget,
+  {
+    changedLocale,
+    changedFields: changed = [],
+  }: { changedLocale?: string | null; changedFields?: string[] } = {}
+): Promise<number> {
+  const { defaultLocale, localeCodes } = localeOptions(req.payload);
+  const targetLocales = localeCodes.filter((code) => code !== defaultLocale);
+  if (targetLocales.length === 0) return 0;
+
+  const docs = await readLocales(req, target);
+  const source = docs[defaultLocale];
+  if (!source) {
+    await removeTranslationStatus(req, target);
+    return 0;
+  }
+
+  const fields = fieldsForTarget(req.payload, target).filter(
+    ({ path, type }) => !isEmptyValue(valueAt(source, path), type)
+  );
+  const { docs: existing } = await findEntries(req, target);
+  const existingByLocale = new Map(existing.map((entry) => [entry.locale, entry]));
+
+  const now = new Date().toISOString();
+  const sourceChangedAt =
+    changedLocale === defaultLocale
+      ? now
+      : (existing.find((entry) => entry.sourceChangedAt)?.sourceChangedAt ??
+        (source.updatedAt as string | undefined) ??
+        now);
+
+  for (const locale of targetLocales) {
+    const current = existingByLocale.get(locale);
+    const missingFields = fields
+      .filter(({ path, type }) => isEmptyValue(valueAt(docs[locale], path), type))
+      .map(({ path }) => path);
+    // A complete translation nobody has edited since tracking started (or
+    // since it was last missing fields) counts as current
+    const translatedAt =
+      changedLocale === locale
+        ? now
+        : (current?.translatedAt ??
+          (missingFields.length === 0 ? sourceChangedAt : null));
+
+    const machineTranslations = machineTranslationsOf(current);
+    const fingerprint = (path: string) => {
+      const field = fields.find((candidate) => candidate.path === path);
+      return (
+        field && translationFingerprint(valueAt(docs[locale], path), field.type)
+      );
+    };
+    if (changedLocale === locale) {
+      for (const path of changed) {
+        if (machineTranslations[path] !== fingerprint(path)) {
+          delete machineTranslations[path];
+        }
+      }
+    }
+    // Fingerprints recorded for a translation that was never saved stay
+    // until the field changes; they don't count until then
+    const machineTranslatedFields = fields
+      .filter(({ path }) => machineTranslations[path] === fingerprint(path))
+      .map(({ path }) => path);
+
+    const data: TranslationStatusData = {
+      title: documentTitle(req.payload, target, source),
+      ...("collection" in target
+        ? { collectionSlug: target.collection, documentId: String(target.id) }
+        : { globalSlug: target.global, documentId: target.global }),
+      locale,
+      status: translationState({
+        missingFields,
+        sourceChangedAt,
+        translatedAt,
+        machineTranslatedFields,
+      }),
+      missingFields,
+      sourceChangedAt,
+      translatedAt,
+      machineTranslatedFields,
+      machineTranslations,
+    };
+
+    if (!current) {
+      await req.payload.create({
+        collection: "translation-status",
+        data,
+        overrideAccess: true,
+        req,
+      });
+    } else if (!sameEntry(current, data)) {
+      await req.payload.update({
+        collection: "translation-status",
+        id: current.id,
+        data,
+        overrideAccess: true,
+        req,
+      });
+    }
+  }
+  return targetLocales.length;
+}
+
+export async function removeTranslationStatus(
+  req: PayloadRequest,
+  target: TranslationTarget
+): Promise<void> {
+  await req.payload.delete({
+    collection: "translation-status",
+    where: targetWhere(target),
+    overrideAccess: true,
+    req,
+  });
+}
+
+// Records the fingerprints of machine-translated values for `locale` before
+// they are saved, so the save that follows marks those fields for review
+export async function recordMachineTranslation(
+  req: PayloadRequest,
+  target: TranslationTarget,
+  locale: string,
+  values: { field: TranslatableField; value: unknown }[]
+): Promise<void> {
+  const entryFor = async () =>
+    (await findEntries(req, target)).docs.find(
+      (entry) => entry.locale === locale
+    );
+  // Documents from before tracking existed have no entry yet
+  let entry = await entryFor();
+  if (!entry) {
+    await syncTranslationStatus(req, target);
+    entry = await entryFor();
+  }
+  if (!entry) return;
+
+  const machineTranslations = machineTranslationsOf(entry);
+  for (const { field, value } of values) {
+    machineTranslations[field.path] = translationFingerprint(value, field.type);
+  }
+  await req.payload.update({
+    collection: "translation-status",
+    id: entry.id,
+    data: { machineTranslations },
+    overrideAccess: true,
+    req,
+  });
+}
+
+// A translator confirming a translation still fits after a source change
+// that needed no edits (a typo fix, say), or that its machine-translated
+// fields read well. Fields that are still missing have to be translated
+// first.
+export async function markTranslationDone(
+  req: PayloadRequest,
+  entryId: number | string
+) {
+  const entry = await req.payload.findByID({
+    collection: "translation-status",
+    id: entryId,
+    depth: 0,
+    overrideAccess: true,
+    req,
+  });
+  const missingFields = entry.missingFields ?? [];
+  if (missingFields.length > 0) {
+    throw invalidRequest([
+      {
+        path: "missingFields",
+        message: `Translate ${missingFields.join(", ")} first`,
+      },
+    ]);
+  }
+
+  return req.payload.update({
+    collection: "translation-status",
+    id: entry.id,
+    data: {
+      status: "done",
+      translatedAt: new Date().toISOString(),
+      machineTranslatedFields: [],
+      machineTranslations: {},
+    },
+    overrideAccess: true,
+    req,
+  });
+}
+
+export interface RebuildResult {
+  documents: number;
+  entries: number;
+  removed: number;
+}
+
+// Recomputes the entries of every translatable document and global, and
+// drops entries whose document is gone - for data created before tracking
+// existed. Timestamps already recorded are kept.
+export async function rebuildTranslationStatus(
+  req: PayloadRequest
+): Promise<RebuildResult> {
+  const result: RebuildResult = { documents: 0, entries: 0, removed: 0 };
+  const seen = new Set<string>();
+
+  for (const collection of TRANSLATION_COLLECTIONS) {
+    const { docs } = await req.payload.find({
+      collection,
+      depth: 0,
+      pagination: false,
+      select: { updatedAt: true },
+      overrideAccess: true,
+      req,
+    });
+    for (const { id } of docs) {
+      result.entries += await syncTranslationStatus(req, { collection, id });
+      result.documents++;
+      seen.add(`${collection}:${id}`);
+    }
+  }
+  for (const global of TRANSLATION_GLOBALS) {
+    result.entries += await syncTranslationStatus(req, { global });
+    result.documents++;
+    seen.add(`${global}:${global}`);
+  }
+
+  const { docs: entries } = await req.payload.find({
+    collection: "translation-status",
+    depth: 0,
+    pagination: false,
+    select: { collectionSlug: true, globalSlug: true, documentId: true },
+    overrideAccess: true,
+    req,
+  });
+  for (const entry of entries) {
+    const key = `${entry.collectionSlug ?? entry.globalSlug}:${entry.documentId}`;
+    if (seen.has(key)) continue;
+    await req.payload.delete({
+      collection: "translation-status",
+      id: entry.id,
+      overrideAccess: true,
+      req,
+    });
+    result.removed++;
+  }
+  return result;
+}
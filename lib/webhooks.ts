@@ -0,0 +1,35 @@
+import { createHmac } from "node:crypto";
+
+// Events admins can subscribe a webhook to
+export const webhookEvents = [
+  "post.created",
+  "post.updated",
+  "post.published",
+  "post.unpublished",
+  "post.deleted",
+  "author.created",
+  "author.updated",
+  "author.deleted",
+  "category.created",
+  "category.updated",
+  "category.deleted",
+] as const;
+
+// "ping" is only sent by the "send test ping" endpoint
+export type WebhookEvent = (typeof webhookEvents)[number] | "ping";
+
+export const WEBHOOK_SIGNATURE_HEADER = "x-webhook-signature";
+
+// Stripe-style signature: HMAC-SHA256 over "<timestamp>.<raw body>".
+// The header looks like `t=1700000000,v1=5257a869e7…`. Receivers verify it
+// themselves; scripts/webhook-receiver.mjs shows how.
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const digest = createHmac("sha256", secret)
+    .update(`${timestamp}.${body}`)
+    .digest("hex");
+  return `t=${timestamp},v1=${digest}`;
+}
@@ -0,0 +1,10 @@
+export const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>';
+
+// Escapes text for XML element content and attribute values
+export const escapeXML = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
@@ -0,0 +1,64 @@
+import { NextResponse, type NextRequest } from "next/server";
+import {
+  DEFAULT_LOCALE,
+  LOCALE_COOKIE,
+  localeHref,
+  parseLocale,
+  preferredLocale,
+} from "./lib/localized-paths";
+
+// ============================================================================
+// Locale routing for the public pages, which live under app/(frontend)/[locale]
+//
+// - /zh/…  is served as is and remembered in the locale cookie
+// - /en/…  (the default locale) redirects to the plain path, remembering it
+// - /…     is rewritten to /en/… unless the cookie or, for a first visit,
+//          Accept-Language asks for another locale, which redirects there
+// ============================================================================
+
+// 1 year; the locale switcher links set it through the prefixed paths
+const COOKIE_OPTIONS = { path: "/", maxAge: 60 * 60 * 24 * 365 };
+
+// lib/preview.ts's PREVIEW_TOKEN_PARAM; that module needs Node's crypto
+const PREVIEW_PARAM = "preview";
+
+export function middleware(request: NextRequest) {
+  const { pathname, search, searchParams } = request.nextUrl;
+  const [, prefix, ...rest] = pathname.split("/");
+  const prefixLocale = parseLocale(prefix);
+
+  if (prefixLocale === DEFAULT_LOCALE) {
+    const url = request.nextUrl.clone();
+    url.pathname = `/${rest.join("/")}`;
+    const response = NextResponse.redirect(url);
+    response.cookies.set(LOCALE_COOKIE, prefixLocale, COOKIE_OPTIONS);
+    return response;
+  }
+  if (prefixLocale) {
+    const response = NextResponse.next();
+    response.cookies.set(LOCALE_COOKIE, prefixLocale, COOKIE_OPTIONS);
+    return response;
+  }
+
+  // Preview links name their locale; the admin's choice wins over the
+  // visitor's preference
+  const preferred = searchParams.has(PREVIEW_PARAM)
+    ? null
+    : (parseLocale(request.cookies.get(LOCALE_COOKIE)?.value) ??
+      preferredLocale(request.headers.get("accept-language")));
+  if (preferred && preferred !== DEFAULT_LOCALE) {
+    return NextResponse.redirect(
+      new URL(`${localeHref(pathname, preferred)}${search}`, request.url)
+    );
+  }
+
+  const url = request.nextUrl.clone();
+  url.pathname = `/${DEFAULT_LOCALE}${pathname === "/" ? "" : pathname}`;
+  return NextResponse.rewrite(url);
+}
+
+// Everything but the admin, the API, Next's own files and anything with a
+// file extension (feeds, sitemaps, robots.txt, media)
+export const config = {
+  matcher: ["/((?!admin|api|_next|.*\\..*).*)"],
+};
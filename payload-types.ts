@@ -67,24 +67,38 @@ export interface Config {
   };
   blocks: {};
   collections: {
+    users: User;
     authors: Author;
     categories: Category;
     posts: Post;
+    media: Media;
     'field-showcase': FieldShowcase;
+    webhooks: Webhook;
+    'webhook-deliveries': WebhookDelivery;
+    'audit-logs': AuditLog;
+    'search-index': SearchIndex;
+    'translation-status': TranslationStatus;
     'payload-kv': PayloadKv;
-    users: User;
+    'payload-jobs': PayloadJob;
     'payload-locked-documents': PayloadLockedDocument;
     'payload-preferences': PayloadPreference;
     'payload-migrations': PayloadMigration;
   };
   collectionsJoins: {};
   collectionsSelect: {
+    users: UsersSelect<false> | UsersSelect<true>;
     authors: AuthorsSelect<false> | AuthorsSelect<true>;
     categories: CategoriesSelect<false> | CategoriesSelect<true>;
     posts: PostsSelect<false> | PostsSelect<true>;
+    media: MediaSelect<false> | MediaSelect<true>;
     'field-showcase': FieldShowcaseSelect<false> | FieldShowcaseSelect<true>;
+    webhooks: WebhooksSelect<false> | WebhooksSelect<true>;
+    'webhook-deliveries': WebhookDeliveriesSelect<false> | WebhookDeliveriesSelect<true>;
+    'audit-logs': AuditLogsSelect<false> | AuditLogsSelect<true>;
+    'search-index': SearchIndexSelect<false> | SearchIndexSelect<true>;
+    'translation-status': TranslationStatusSelect<false> | TranslationStatusSelect<true>;
     'payload-kv': PayloadKvSelect<false> | PayloadKvSelect<true>;
-    users: UsersSelect<false> | UsersSelect<true>;
+    'payload-jobs': PayloadJobsSelect<false> | PayloadJobsSelect<true>;
     'payload-locked-documents': PayloadLockedDocumentsSelect<false> | PayloadLockedDocumentsSelect<true>;
     'payload-preferences': PayloadPreferencesSelect<false> | PayloadPreferencesSelect<true>;
     'payload-migrations': PayloadMigrationsSelect<false> | PayloadMigrationsSelect<true>;
@@ -104,7 +118,14 @@ export interface Config {
     collection: 'users';
   };
   jobs: {
-    tasks: unknown;
+    tasks: {
+      deliverWebhook: TaskDeliverWebhook;
+      schedulePublish: TaskSchedulePublish;
+      inline: {
+        input: unknown;
+        output: unknown;
+      };
+    };
     workflows: unknown;
   };
 }
@@ -126,6 +147,38 @@ export interface UserAuthOperations {
     password: string;
   };
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "users".
+ */
+export interface User {
+  id: number;
+  /**
+   * Only admins can change roles
+   */
+  role: 'admin' | 'editor' | 'author' | 'viewer';
+  /**
+   * Users with the Author role can only edit posts by this author
+   */
+  author?: (number | null) | Author;
+  updatedAt: string;
+  createdAt: string;
+  email: string;
+  resetPasswordToken?: string | null;
+  resetPasswordExpiration?: string | null;
+  salt?: string | null;
+  hash?: string | null;
+  loginAttempts?: number | null;
+  lockUntil?: string | null;
+  sessions?:
+    | {
+        id: string;
+        createdAt?: string | null;
+        expiresAt: string;
+      }[]
+    | null;
+  password?: string | null;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "authors".
@@ -134,10 +187,58 @@ export interface Author {
   id: number;
   name: string;
   bio?: string | null;
-  avatar?: string | null;
+  avatar?: (number | null) | Media;
   updatedAt: string;
   createdAt: string;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "media".
+ */
+export interface Media {
+  id: number;
+  /**
+   * Describes the image for screen readers
+   */
+  alt: string;
+  updatedAt: string;
+  createdAt: string;
+  url?: string | null;
+  thumbnailURL?: string | null;
+  filename?: string | null;
+  mimeType?: string | null;
+  filesize?: number | null;
+  width?: number | null;
+  height?: number | null;
+  focalX?: number | null;
+  focalY?: number | null;
+  sizes?: {
+    thumbnail?: {
+      url?: string | null;
+      width?: number | null;
+      height?: number | null;
+      mimeType?: string | null;
+      filesize?: number | null;
+      filename?: string | null;
+    };
+    card?: {
+      url?: string | null;
+      width?: number | null;
+      height?: number | null;
+      mimeType?: string | null;
+      filesize?: number | null;
+      filename?: string | null;
+    };
+    hero?: {
+      url?: string | null;
+      width?: number | null;
+      height?: number | null;
+      mimeType?: string | null;
+      filesize?: number | null;
+      filename?: string | null;
+    };
+  };
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "categories".
@@ -145,7 +246,32 @@ export interface Author {
 export interface Category {
   id: number;
   title: string;
+  /**
+   * Generated from the English title. Clear it to regenerate.
+   */
+  slug?: string | null;
+  /**
+   * Leave empty for a top-level category.
+   */
+  parent?: (number | null) | Category;
+  /**
+   * Slugs from the top-level category down.
+   */
+  path?: string | null;
+  ancestors?: (number | Category)[] | null;
+  breadcrumbs?:
+    | {
+        category?: number | null;
+        title?: string | null;
+        slug?: string | null;
+        path?: string | null;
+        id?: string | null;
+      }[]
+    | null;
   description?: string | null;
+  /**
+   * Kept in sync with each post's Categories field; editing either side updates the other.
+   */
   posts?: (number | Post)[] | null;
   updatedAt: string;
   createdAt: string;
@@ -157,8 +283,13 @@ export interface Category {
 export interface Post {
   id: number;
   title: string;
+  /**
+   * Generated from the English title. Click Edit to type your own.
+   */
   slug: string;
+  slugLock?: boolean | null;
   excerpt?: string | null;
+  featuredImage?: (number | null) | Media;
   content?: {
     root: {
       type: string;
@@ -176,10 +307,36 @@ export interface Post {
   } | null;
   author: number | Author;
   categories?: (number | Category)[] | null;
+  /**
+   * Set automatically the first time the post is published
+   */
   publishedOn?: string | null;
-  status?: ('draft' | 'published') | null;
+  /**
+   * Retired posts: unpublished and kept out of editorial lists. Set by the bulk "archive" action and cleared when the post is published again.
+   */
+  archived?: boolean | null;
+  /**
+   * Search and social sharing. Empty fields use the title, excerpt and featured image, then the defaults in Site Settings.
+   */
+  seo?: {
+    /**
+     * Shown as is, without the site name template
+     */
+    metaTitle?: string | null;
+    metaDescription?: string | null;
+    /**
+     * Only when the post first appeared elsewhere; defaults to this post's own URL
+     */
+    canonicalURL?: string | null;
+    /**
+     * Defaults to the featured image
+     */
+    ogImage?: (number | null) | Media;
+    noindex?: boolean | null;
+  };
   updatedAt: string;
   createdAt: string;
+  _status?: ('draft' | 'published') | null;
 }
 /**
  * Demonstrates various Payload field types and components
@@ -296,6 +453,182 @@ export interface FieldShowcase {
   updatedAt: string;
   createdAt: string;
 }
+/**
+ * Signed POST requests sent when content changes. Test one with POST /api/webhooks/:id/ping.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "webhooks".
+ */
+export interface Webhook {
+  id: number;
+  name: string;
+  url: string;
+  events: (
+    | 'post.created'
+    | 'post.updated'
+    | 'post.published'
+    | 'post.unpublished'
+    | 'post.deleted'
+    | 'author.created'
+    | 'author.updated'
+    | 'author.deleted'
+    | 'category.created'
+    | 'category.updated'
+    | 'category.deleted'
+  )[];
+  /**
+   * Used to sign each request (HMAC-SHA256, x-webhook-signature header)
+   */
+  secret: string;
+  active?: boolean | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "webhook-deliveries".
+ */
+export interface WebhookDelivery {
+  id: number;
+  webhook: number | Webhook;
+  event:
+    | 'post.created'
+    | 'post.updated'
+    | 'post.published'
+    | 'post.unpublished'
+    | 'post.deleted'
+    | 'author.created'
+    | 'author.updated'
+    | 'author.deleted'
+    | 'category.created'
+    | 'category.updated'
+    | 'category.deleted'
+    | 'ping';
+  status: 'pending' | 'retrying' | 'succeeded' | 'failed';
+  payload?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  attempts?: number | null;
+  responseStatus?: number | null;
+  durationMs?: number | null;
+  responseBody?: string | null;
+  error?: string | null;
+  deliveredAt?: string | null;
+  redeliveryOf?: (number | null) | WebhookDelivery;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * Every create, update and delete. Use Filters to narrow by user, collection or date range.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "audit-logs".
+ */
+export interface AuditLog {
+  id: number;
+  operation: 'create' | 'update' | 'delete';
+  collectionSlug?: ('users' | 'authors' | 'categories' | 'posts' | 'media' | 'field-showcase' | 'webhooks') | null;
+  globalSlug?: 'site-settings' | null;
+  documentId?: string | null;
+  locale?: string | null;
+  user?: (number | null) | User;
+  userEmail?: string | null;
+  changedFields?: string | null;
+  /**
+   * Field-level diff: { field: { from, to } }
+   */
+  changes?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * One entry per post, author and category in each locale, kept up to date on save. POST /api/search/reindex rebuilds it.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "search-index".
+ */
+export interface SearchIndex {
+  id: number;
+  doc:
+    | {
+        relationTo: 'posts';
+        value: number | Post;
+      }
+    | {
+        relationTo: 'authors';
+        value: number | Author;
+      }
+    | {
+        relationTo: 'categories';
+        value: number | Category;
+      };
+  locale: string;
+  title: string;
+  /**
+   * Plain text searched alongside the title
+   */
+  body?: string | null;
+  url: string;
+  /**
+   * Unpublished posts only show up for logged-in users
+   */
+  published?: boolean | null;
+  updatedAt: string;
+  createdAt: string;
+}
+/**
+ * One entry per document and translated locale, kept up to date on save. Work through them in the Translations view.
+ *
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "translation-status".
+ */
+export interface TranslationStatus {
+  id: number;
+  /**
+   * The document's title in the default locale
+   */
+  title: string;
+  collectionSlug?: ('posts' | 'authors' | 'categories') | null;
+  globalSlug?: 'site-settings' | null;
+  documentId: string;
+  locale: string;
+  status: 'missing' | 'outdated' | 'review' | 'done';
+  /**
+   * Translated in the default locale, empty here
+   */
+  missingFields?: string[] | null;
+  /**
+   * Machine-translated and not reviewed yet
+   */
+  machineTranslatedFields?: string[] | null;
+  machineTranslations?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  sourceChangedAt?: string | null;
+  translatedAt?: string | null;
+  updatedAt: string;
+  createdAt: string;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "payload-kv".
@@ -315,27 +648,95 @@ export interface PayloadKv {
 }
 /**
  * This interface was referenced by `Config`'s JSON-Schema
- * via the `definition` "users".
+ * via the `definition` "payload-jobs".
  */
-export interface User {
+export interface PayloadJob {
   id: number;
-  updatedAt: string;
-  createdAt: string;
-  email: string;
-  resetPasswordToken?: string | null;
-  resetPasswordExpiration?: string | null;
-  salt?: string | null;
-  hash?: string | null;
-  loginAttempts?: number | null;
-  lockUntil?: string | null;
-  sessions?:
+  /**
+   * Input data provided to the job
+   */
+  input?:
     | {
-        id: string;
-        createdAt?: string | null;
-        expiresAt: string;
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  taskStatus?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  completedAt?: string | null;
+  totalTried?: number | null;
+  /**
+   * If hasError is true this job will not be retried
+   */
+  hasError?: boolean | null;
+  /**
+   * If hasError is true, this is the error that caused it
+   */
+  error?:
+    | {
+        [k: string]: unknown;
+      }
+    | unknown[]
+    | string
+    | number
+    | boolean
+    | null;
+  /**
+   * Task execution log
+   */
+  log?:
+    | {
+        executedAt: string;
+        completedAt: string;
+        taskSlug: 'inline' | 'deliverWebhook' | 'schedulePublish';
+        taskID: string;
+        input?:
+          | {
+              [k: string]: unknown;
+            }
+          | unknown[]
+          | string
+          | number
+          | boolean
+          | null;
+        output?:
+          | {
+              [k: string]: unknown;
+            }
+          | unknown[]
+          | string
+          | number
+          | boolean
+          | null;
+        state: 'failed' | 'succeeded';
+        error?:
+          | {
+              [k: string]: unknown;
+            }
+          | unknown[]
+          | string
+          | number
+          | boolean
+          | null;
+        id?: string | null;
       }[]
     | null;
-  password?: string | null;
+  taskSlug?: ('inline' | 'deliverWebhook' | 'schedulePublish') | null;
+  queue?: string | null;
+  waitUntil?: string | null;
+  processing?: boolean | null;
+  updatedAt: string;
+  createdAt: string;
 }
 /**
  * This interface was referenced by `Config`'s JSON-Schema
@@ -344,6 +745,10 @@ export interface User {
 export interface PayloadLockedDocument {
   id: number;
   document?:
+    | ({
+        relationTo: 'users';
+        value: number | User;
+      } | null)
     | ({
         relationTo: 'authors';
         value: number | Author;
@@ -356,13 +761,33 @@ export interface PayloadLockedDocument {
         relationTo: 'posts';
         value: number | Post;
       } | null)
+    | ({
+        relationTo: 'media';
+        value: number | Media;
+      } | null)
     | ({
         relationTo: 'field-showcase';
         value: number | FieldShowcase;
       } | null)
     | ({
-        relationTo: 'users';
-        value: number | User;
+        relationTo: 'webhooks';
+        value: number | Webhook;
+      } | null)
+    | ({
+        relationTo: 'webhook-deliveries';
+        value: number | WebhookDelivery;
+      } | null)
+    | ({
+        relationTo: 'audit-logs';
+        value: number | AuditLog;
+      } | null)
+    | ({
+        relationTo: 'search-index';
+        value: number | SearchIndex;
+      } | null)
+    | ({
+        relationTo: 'translation-status';
+        value: number | TranslationStatus;
       } | null);
   globalSlug?: string | null;
   user: {
@@ -406,6 +831,30 @@ export interface PayloadMigration {
   updatedAt: string;
   createdAt: string;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "users_select".
+ */
+export interface UsersSelect<T extends boolean = true> {
+  role?: T;
+  author?: T;
+  updatedAt?: T;
+  createdAt?: T;
+  email?: T;
+  resetPasswordToken?: T;
+  resetPasswordExpiration?: T;
+  salt?: T;
+  hash?: T;
+  loginAttempts?: T;
+  lockUntil?: T;
+  sessions?:
+    | T
+    | {
+        id?: T;
+        createdAt?: T;
+        expiresAt?: T;
+      };
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "authors_select".
@@ -423,6 +872,19 @@ export interface AuthorsSelect<T extends boolean = true> {
  */
 export interface CategoriesSelect<T extends boolean = true> {
   title?: T;
+  slug?: T;
+  parent?: T;
+  path?: T;
+  ancestors?: T;
+  breadcrumbs?:
+    | T
+    | {
+        category?: T;
+        title?: T;
+        slug?: T;
+        path?: T;
+        id?: T;
+      };
   description?: T;
   posts?: T;
   updatedAt?: T;
@@ -435,14 +897,78 @@ export interface CategoriesSelect<T extends boolean = true> {
 export interface PostsSelect<T extends boolean = true> {
   title?: T;
   slug?: T;
+  slugLock?: T;
   excerpt?: T;
+  featuredImage?: T;
   content?: T;
   author?: T;
   categories?: T;
   publishedOn?: T;
-  status?: T;
+  archived?: T;
+  seo?:
+    | T
+    | {
+        metaTitle?: T;
+        metaDescription?: T;
+        canonicalURL?: T;
+        ogImage?: T;
+        noindex?: T;
+      };
   updatedAt?: T;
   createdAt?: T;
+  _status?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "media_select".
+ */
+export interface MediaSelect<T extends boolean = true> {
+  alt?: T;
+  updatedAt?: T;
+  createdAt?: T;
+  url?: T;
+  thumbnailURL?: T;
+  filename?: T;
+  mimeType?: T;
+  filesize?: T;
+  width?: T;
+  height?: T;
+  focalX?: T;
+  focalY?: T;
+  sizes?:
+    | T
+    | {
+        thumbnail?:
+          | T
+          | {
+              url?: T;
+              width?: T;
+              height?: T;
+              mimeType?: T;
+              filesize?: T;
+              filename?: T;
+            };
+        card?:
+          | T
+          | {
+              url?: T;
+              width?: T;
+              height?: T;
+              mimeType?: T;
+              filesize?: T;
+              filename?: T;
+            };
+        hero?:
+          | T
+          | {
+              url?: T;
+              width?: T;
+              height?: T;
+              mimeType?: T;
+              filesize?: T;
+              filename?: T;
+            };
+      };
 }
 /**
  * This interface was referenced by `Config`'s JSON-Schema
@@ -477,6 +1003,88 @@ export interface FieldShowcaseSelect<T extends boolean = true> {
   updatedAt?: T;
   createdAt?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "webhooks_select".
+ */
+export interface WebhooksSelect<T extends boolean = true> {
+  name?: T;
+  url?: T;
+  events?: T;
+  secret?: T;
+  active?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "webhook-deliveries_select".
+ */
+export interface WebhookDeliveriesSelect<T extends boolean = true> {
+  webhook?: T;
+  event?: T;
+  status?: T;
+  payload?: T;
+  attempts?: T;
+  responseStatus?: T;
+  durationMs?: T;
+  responseBody?: T;
+  error?: T;
+  deliveredAt?: T;
+  redeliveryOf?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "audit-logs_select".
+ */
+export interface AuditLogsSelect<T extends boolean = true> {
+  operation?: T;
+  collectionSlug?: T;
+  globalSlug?: T;
+  documentId?: T;
+  locale?: T;
+  user?: T;
+  userEmail?: T;
+  changedFields?: T;
+  changes?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "search-index_select".
+ */
+export interface SearchIndexSelect<T extends boolean = true> {
+  doc?: T;
+  locale?: T;
+  title?: T;
+  body?: T;
+  url?: T;
+  published?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "translation-status_select".
+ */
+export interface TranslationStatusSelect<T extends boolean = true> {
+  title?: T;
+  collectionSlug?: T;
+  globalSlug?: T;
+  documentId?: T;
+  locale?: T;
+  status?: T;
+  missingFields?: T;
+  machineTranslatedFields?: T;
+  machineTranslations?: T;
+  sourceChangedAt?: T;
+  translatedAt?: T;
+  updatedAt?: T;
+  createdAt?: T;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "payload-kv_select".
@@ -487,25 +1095,34 @@ export interface PayloadKvSelect<T extends boolean = true> {
 }
 /**
  * This interface was referenced by `Config`'s JSON-Schema
- * via the `definition` "users_select".
+ * via the `definition` "payload-jobs_select".
  */
-export interface UsersSelect<T extends boolean = true> {
-  updatedAt?: T;
-  createdAt?: T;
-  email?: T;
-  resetPasswordToken?: T;
-  resetPasswordExpiration?: T;
-  salt?: T;
-  hash?: T;
-  loginAttempts?: T;
-  lockUntil?: T;
-  sessions?:
+export interface PayloadJobsSelect<T extends boolean = true> {
+  input?: T;
+  taskStatus?: T;
+  completedAt?: T;
+  totalTried?: T;
+  hasError?: T;
+  error?: T;
+  log?:
     | T
     | {
+        executedAt?: T;
+        completedAt?: T;
+        taskSlug?: T;
+        taskID?: T;
+        input?: T;
+        output?: T;
+        state?: T;
+        error?: T;
         id?: T;
-        createdAt?: T;
-        expiresAt?: T;
       };
+  taskSlug?: T;
+  queue?: T;
+  waitUntil?: T;
+  processing?: T;
+  updatedAt?: T;
+  createdAt?: T;
 }
 /**
  * This interface was referenced by `Config`'s JSON-Schema
@@ -547,6 +1164,47 @@ export interface SiteSetting {
   id: number;
   siteName: string;
   tagline?: string | null;
+  /**
+   * Used wherever a page has no SEO values of its own
+   */
+  seo?: {
+    /**
+     * Page titles with %s replaced by the page name, e.g. "%s | My Blog". Defaults to "%s | <Site Name>".
+     */
+    titleTemplate?: string | null;
+    metaDescription?: string | null;
+    /**
+     * Shared image for pages without their own
+     */
+    ogImage?: (number | null) | Media;
+  };
+  /**
+   * Served at /robots.txt, followed by a Sitemap line. Without rules, crawlers may visit everything except /admin, /api and /search.
+   */
+  robots?: {
+    /**
+     * Answers `Disallow: /` for every user agent (e.g. on staging) and ignores the rules below
+     */
+    blockAll?: boolean | null;
+    rules?:
+      | {
+          userAgent: string;
+          /**
+           * One path per line, e.g. /posts
+           */
+          allow?: string | null;
+          /**
+           * One path per line, e.g. /search
+           */
+          disallow?: string | null;
+          /**
+           * Seconds between requests
+           */
+          crawlDelay?: number | null;
+          id?: string | null;
+        }[]
+      | null;
+  };
   updatedAt?: string | null;
   createdAt?: string | null;
 }
@@ -557,10 +1215,60 @@ export interface SiteSetting {
 export interface SiteSettingsSelect<T extends boolean = true> {
   siteName?: T;
   tagline?: T;
+  seo?:
+    | T
+    | {
+        titleTemplate?: T;
+        metaDescription?: T;
+        ogImage?: T;
+      };
+  robots?:
+    | T
+    | {
+        blockAll?: T;
+        rules?:
+          | T
+          | {
+              userAgent?: T;
+              allow?: T;
+              disallow?: T;
+              crawlDelay?: T;
+              id?: T;
+            };
+      };
   updatedAt?: T;
   createdAt?: T;
   globalType?: T;
 }
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskDeliverWebhook".
+ */
+export interface TaskDeliverWebhook {
+  input: {
+    deliveryId: number;
+  };
+  output: {
+    responseStatus?: number | null;
+  };
+}
+/**
+ * This interface was referenced by `Config`'s JSON-Schema
+ * via the `definition` "TaskSchedulePublish".
+ */
+export interface TaskSchedulePublish {
+  input: {
+    type?: ('publish' | 'unpublish') | null;
+    locale?: string | null;
+    doc?: {
+      relationTo: 'posts';
+      value: number | Post;
+    } | null;
+    global?: string | null;
+    user?: (number | null) | User;
+  };
+  output?: unknown;
+}
 /**
  * This interface was referenced by `Config`'s JSON-Schema
  * via the `definition` "auth".
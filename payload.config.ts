@@ -1,16 +1,108 @@
 import sharp from "sharp";
 import { lexicalEditor } from "@payloadcms/richtext-lexical";
-import { buildConfig } from "payload";
+import {
+  addDataAndFileToRequest,
+  buildConfig,
+  commitTransaction,
+  createDataloaderCacheKey,
+  initTransaction,
+  killTransaction,
+  ValidationError,
+} from "payload";
 import { sqliteAdapter } from "@payloadcms/db-sqlite";
 import { en } from "@payloadcms/translations/languages/en";
 import { zh } from "@payloadcms/translations/languages/zh";
+import type { AuditLog, Category, Post } from "./payload-types";
+import {
+  describeError,
+  errorResponse,
+  invalidRequest,
+  type ErrorBody,
+  type FieldError,
+} from "./lib/api-errors";
+import {
+  getPostStats,
+  invalidatePostStats,
+  parseStatsRange,
+} from "./lib/post-stats";
+import {
+  repairPostCategoryLinks,
+  repairStrategies,
+  syncCategoriesOfPost,
+  syncPostsOfCategory,
+  type RepairResult,
+  type RepairStrategy,
+} from "./lib/category-sync";
+import {
+  checkReadiness,
+  getBuildInfo,
+  recordPayloadInit,
+} from "./lib/health";
+import {
+  exportResponse,
+  importRows,
+  parseExportParams,
+  parseImportParams,
+  parseImportRows,
+} from "./lib/import-export";
+import { DEFAULT_LOCALE, LOCALES, localeHref } from "./lib/localized-paths";
+import {
+  machineTranslate,
+  parseMachineTranslationRequest,
+} from "./lib/machine-translation";
+import { postsInCategoryWhere } from "./lib/posts";
+import { createPreviewToken, PREVIEW_TOKEN_PARAM } from "./lib/preview";
+import { keepingRequestLocale } from "./lib/request-locale";
+import { SEO_LIMITS, validateCanonicalURL } from "./lib/seo";
+import {
+  indexDocument,
+  parseSearchParams,
+  reindexAll,
+  removeFromIndex,
+  searchIndex,
+  type SearchableCollection,
+} from "./lib/search";
+import { seed } from "./lib/seed";
+import { resolveServerURL } from "./lib/server-url";
+import { slugify } from "./lib/slugify";
+import {
+  changedFields,
+  fieldsForTarget,
+  markTranslationDone,
+  rebuildTranslationStatus,
+  removeTranslationStatus,
+  syncTranslationStatus,
+  TRANSLATION_COLLECTIONS,
+  TRANSLATION_STATES,
+  type TranslationCollection,
+  type TranslationTarget,
+} from "./lib/translations";
+import {
+  signWebhookPayload,
+  webhookEvents,
+  WEBHOOK_SIGNATURE_HEADER,
+  type WebhookEvent,
+} from "./lib/webhooks";
 import type {
+  Access,
   CollectionConfig,
   CollectionSlug,
   Endpoint,
   CollectionAfterChangeHook,
+  CollectionAfterDeleteHook,
   CollectionBeforeChangeHook,
+  CollectionBeforeDeleteHook,
+  CollectionBeforeValidateHook,
+  Field,
+  FieldAccess,
+  FieldHook,
+  GlobalAfterChangeHook,
   GlobalConfig,
+  GraphQLExtension,
+  PayloadRequest,
+  TaskConfig,
+  TypedLocale,
+  Where,
 } from "payload";
 
 // ============================================================================
@@ -19,6 +111,103 @@ import type {
 const postsSlug = "posts" as CollectionSlug;
 const authorsSlug = "authors" as CollectionSlug;
 const categoriesSlug = "categories" as CollectionSlug;
+const mediaSlug = "media" as CollectionSlug;
+
+// ============================================================================
+// ACCESS CONTROL - role-based permissions for the admin users
+// ============================================================================
+//
+// admin  -> everything, including users and the Site Settings global
+// editor -> manages all content (posts, authors, categories, field showcase)
+// author -> creates posts and edits only posts linked to their own Author
+// viewer -> read-only access to the admin panel
+
+const roles = ["admin", "editor", "author", "viewer"] as const;
+type Role = (typeof roles)[number];
+
+// Relationship values can be an ID or a populated document
+const relationId = (value: unknown): string | number | undefined => {
+  if (value && typeof value === "object" && "id" in value) {
+    return (value as { id: string | number }).id;
+  }
+  return typeof value === "string" || typeof value === "number"
+    ? value
+    : undefined;
+};
+
+const hasRole = (req: PayloadRequest, ...allowed: Role[]): boolean => {
+  const role = req.user?.role;
+  return Boolean(role && allowed.includes(role));
+};
+
+const isAdmin: Access = ({ req }) => hasRole(req, "admin");
+const isAdminOrEditor: Access = ({ req }) => hasRole(req, "admin", "editor");
+const isAdminFieldLevel: FieldAccess = ({ req }) => hasRole(req, "admin");
+const isAdminOrEditorFieldLevel: FieldAccess = ({ req }) =>
+  hasRole(req, "admin", "editor");
+
+// Anonymous visitors only see published posts; every admin role sees all
+const canReadPosts: Access = ({ req }) => {
+  if (req.user) return true;
+  return { _status: { equals: "published" } };
+};
+
+// Authors may only create posts attributed to their own Author record.
+// `data` is undefined when the admin UI asks for general permissions.
+const canCreatePost: Access = ({ req, data }) => {
+  if (hasRole(req, "admin", "editor")) return true;
+  if (!hasRole(req, "author")) return false;
+
+  const ownAuthor = relationId(req.user?.author);
+  if (ownAuthor === undefined) return false;
+  if (!data) return true;
+
+  return relationId(data.author) === ownAuthor;
+};
+
+// Authors may only update/delete posts whose `author` is their Author record
+const canManageOwnPosts: Access = ({ req }) => {
+  if (hasRole(req, "admin", "editor")) return true;
+  if (!hasRole(req, "author")) return false;
+
+  const ownAuthor = relationId(req.user?.author);
+  if (ownAuthor === undefined) return false;
+
+  return { author: { equals: ownAuthor } };
+};
+
+// Anyone who writes content may upload images for it
+const canUploadMedia: Access = ({ req }) =>
+  hasRole(req, "admin", "editor", "author");
+
+// Authors may keep their own profile up to date
+const canUpdateAuthor: Access = ({ req }) => {
+  if (hasRole(req, "admin", "editor")) return true;
+  if (!hasRole(req, "author")) return false;
+
+  const ownAuthor = relationId(req.user?.author);
+  if (ownAuthor === undefined) return false;
+
+  return { id: { equals: ownAuthor } };
+};
+
+// Queued jobs (e.g. scheduled publishing) can be run by admins, or by a cron
+// / orchestrator that sends `Authorization: Bearer $CRON_SECRET`
+const canRunJobs = ({ req }: { req: PayloadRequest }): boolean => {
+  if (hasRole(req, "admin")) return true;
+
+  const secret = process.env.CRON_SECRET;
+  return (
+    Boolean(secret) && req.headers.get("authorization") === `Bearer ${secret}`
+  );
+};
+
+// Admins manage every user; everyone else only sees/updates themselves
+const canManageSelf: Access = ({ req }) => {
+  if (!req.user) return false;
+  if (hasRole(req, "admin")) return true;
+  return { id: { equals: req.user.id } };
+};
 
 // ============================================================================
 // HOOKS SHOWCASE - demonstrates Payload's powerful hook system
@@ -34,6 +223,27 @@ const logAfterAuthorChange: CollectionAfterChangeHook = ({
   return doc;
 };
 
+// The very first user (created via the admin "create first user" screen)
+// becomes an admin, otherwise nobody could ever assign roles.
+const promoteFirstUser: CollectionBeforeChangeHook = async ({
+  data,
+  operation,
+  req,
+}) => {
+  if (operation !== "create") return data;
+
+  const { totalDocs } = await req.payload.count({
+    collection: "users",
+    req,
+  });
+
+  if (totalDocs === 0) {
+    console.log(`[HOOK] First user "${data.email}" promoted to admin`);
+    return { ...data, role: "admin" };
+  }
+  return data;
+};
+
 // Log before any Post is created/updated (can also mutate data)
 const logBeforePostChange: CollectionBeforeChangeHook = ({
   data,
@@ -41,19 +251,170 @@ const logBeforePostChange: CollectionBeforeChangeHook = ({
   req,
 }) => {
   console.log(
-    `[HOOK] Post ${operation}: Title="${data.title}", Status="${data.status}"`
+    `[HOOK] Post ${operation}: Title="${data.title}", Status="${data._status}"`
   );
-  // You could mutate data here, e.g., auto-generate slug
   return data;
 };
 
+// Collections whose slug is generated from a localized `title`
+type SluggedCollection = "posts" | "categories";
+
+const isSlugTaken = async (
+  req: PayloadRequest,
+  slug: string,
+  ownId?: string | number,
+  collection: SluggedCollection = "posts"
+): Promise<boolean> => {
+  const { totalDocs } = await req.payload.count({
+    collection,
+    where: {
+      and: [
+        { slug: { equals: slug } },
+        ...(ownId !== undefined ? [{ id: { not_equals: ownId } }] : []),
+      ],
+    },
+    overrideAccess: true,
+    req,
+  });
+  return totalDocs > 0;
+};
+
+// "my-post" -> "my-post-2" -> "my-post-3" … until nobody else uses it
+const findAvailableSlug = async (
+  req: PayloadRequest,
+  base: string,
+  ownId?: string | number,
+  collection: SluggedCollection = "posts"
+): Promise<string> => {
+  let candidate = base;
+  let suffix = 2;
+  while (await isSlugTaken(req, candidate, ownId, collection)) {
+    candidate = `${base}-${suffix++}`;
+  }
+  return candidate;
+};
+
+// Slugs come from the default-locale (en) title so every translation shares
+// one URL. A post first written in another locale falls back to that title.
+const getDefaultLocaleTitle = async (
+  req: PayloadRequest,
+  data: Record<string, unknown>,
+  originalDoc?: Record<string, unknown>,
+  collection: SluggedCollection = "posts"
+): Promise<string> => {
+  const current = data.title ?? originalDoc?.title;
+  const currentTitle = typeof current === "string" ? current : "";
+  const { localization } = req.payload.config;
+
+  if (!localization || !req.locale || req.locale === localization.defaultLocale) {
+    return currentTitle;
+  }
+
+  if (originalDoc?.id !== undefined) {
+    // Within the request's transaction, which may have just created the
+    // document (imports save each locale in turn)
+    const doc = await keepingRequestLocale(req, () =>
+      req.payload.findByID({
+        collection,
+        id: originalDoc.id as number,
+        locale: localization.defaultLocale as TypedLocale,
+        fallbackLocale: false,
+        draft: true,
+        depth: 0,
+        overrideAccess: true,
+        req,
+      })
+    );
+    if (doc.title) return doc.title;
+  }
+
+  return currentTitle;
+};
+
+// Fill in a unique slug before validation, so posts created in the admin or
+// via /api/posts never hit a raw unique-constraint error:
+// - a slug typed by hand (or sent to the API) is kept, but must be unique
+// - otherwise the slug follows the title until the post is first published,
+//   after which it stays put so live URLs don't change
+const generatePostSlug: CollectionBeforeValidateHook = async ({
+  data,
+  originalDoc,
+  req,
+}) => {
+  if (!data) return data;
+
+  const base = slugify(await getDefaultLocaleTitle(req, data, originalDoc));
+
+  // A new slug that isn't simply the title's slug was typed by somebody
+  const incomingSlug = typeof data.slug === "string" ? slugify(data.slug) : "";
+  const isManual =
+    data.slugLock === false ||
+    (incomingSlug !== "" &&
+      data.slug !== originalDoc?.slug &&
+      incomingSlug !== base);
+
+  const manualSlug = isManual ? incomingSlug : "";
+  if (manualSlug) {
+    if (await isSlugTaken(req, manualSlug, originalDoc?.id)) {
+      throw new ValidationError({
+        collection: "posts",
+        errors: [
+          {
+            path: "slug",
+            message: `The slug "${manualSlug}" is already used by another post`,
+          },
+        ],
+        req,
+      });
+    }
+    return { ...data, slug: manualSlug, slugLock: false };
+  }
+
+  const currentSlug = data.slug ?? originalDoc?.slug;
+  if (originalDoc?.publishedOn && currentSlug) {
+    return data;
+  }
+
+  if (!base) {
+    // e.g. an autosaved draft that has no title yet
+    return data;
+  }
+
+  console.log(`[HOOK] Post slug generated from title: "${base}"`);
+  return {
+    ...data,
+    slug: await findAvailableSlug(req, base, originalDoc?.id),
+  };
+};
+
+// Stamp `publishedOn` the first time a post goes live, whether it was
+// published from the admin, an endpoint or a scheduled publish job
+const stampPublishedOn: CollectionBeforeChangeHook = ({
+  data,
+  originalDoc,
+}) => {
+  if (data._status !== "published") return data;
+  if (data.publishedOn || originalDoc?.publishedOn) return data;
+
+  return { ...data, publishedOn: new Date().toISOString() };
+};
+
+// Publishing an archived post brings it back, however it gets published
+const unarchiveOnPublish: CollectionBeforeChangeHook = ({
+  data,
+  originalDoc,
+}) => {
+  if (data._status !== "published") return data;
+  if (!data.archived && !originalDoc?.archived) return data;
+
+  return { ...data, archived: false };
+};
+
 // Log after any Post is created/updated
 const logAfterPostChange: CollectionAfterChangeHook = ({ doc, operation }) => {
   console.log(`[HOOK] Post ${operation} complete: ID=${doc.id}`);
   if (operation === "create") {
-    console.log(
-      `[HOOK] 🎉 New post created! Consider sending a notification or webhook.`
-    );
+    console.log(`[HOOK] 🎉 New post created! Subscribed webhooks are queued.`);
   }
   return doc;
 };
@@ -63,135 +424,2175 @@ const logAfterPostChange: CollectionAfterChangeHook = ({ doc, operation }) => {
 // ============================================================================
 
 // Custom endpoint: GET /api/posts/stats - returns post statistics
+// `?interval=day|week|month&from=…&to=…` picks the publishing timeline range.
+// Results are cached in memory until a post, author or category changes.
 const postsStatsEndpoint: Endpoint = {
   path: "/stats",
   method: "get",
   handler: async (req) => {
     console.log("[CUSTOM API] /api/posts/stats called");
 
-    const allPosts = await req.payload.find({
+    try {
+      const range = parseStatsRange(req.searchParams);
+      const { stats, cached } = await getPostStats(req.payload, range);
+
+      console.log(
+        `[CUSTOM API] Stats ${cached ? "served from cache" : "calculated"}:`,
+        { total: stats.total, published: stats.published, draft: stats.draft }
+      );
+      return Response.json({ ...stats, cached });
+    } catch (error) {
+      return errorResponse(error, "[CUSTOM API]");
+    }
+  },
+};
+
+// Any change to posts (or the author names / category titles shown next to
+// the counts) makes cached stats stale
+const invalidateStatsAfterChange: CollectionAfterChangeHook = ({ doc }) => {
+  invalidatePostStats();
+  return doc;
+};
+
+const invalidateStatsAfterDelete: CollectionAfterDeleteHook = ({ doc }) => {
+  invalidatePostStats();
+  return doc;
+};
+
+// ----------------------------------------------------------------------------
+// Bulk post operations - shared by /api/posts/bulk and /api/posts/publish-all
+// ----------------------------------------------------------------------------
+
+const bulkPostActions = [
+  "publish",
+  "unpublish",
+  "archive",
+  "reassign-author",
+  "add-category",
+  "remove-category",
+] as const;
+type BulkPostAction = (typeof bulkPostActions)[number];
+
+const BULK_DEFAULT_BATCH_SIZE = 25;
+const BULK_MAX_BATCH_SIZE = 100;
+
+interface BulkPostRequest {
+  action: BulkPostAction;
+  // Exactly one of `where` and `ids` selects the posts
+  where?: Where;
+  ids?: number[];
+  authorId?: number;
+  categoryId?: number;
+  dryRun: boolean;
+  batchSize: number;
+}
+
+type BulkPostResultStatus =
+  | "updated"
+  | "would-update"
+  | "unchanged"
+  | "forbidden"
+  | "not-found"
+  | "failed"
+  | "rolled-back"
+  | "skipped";
+
+interface BulkPostResult {
+  id: number;
+  title?: string;
+  status: BulkPostResultStatus;
+  changes?: Record<string, { from: unknown; to: unknown }>;
+  // The post has unpublished edits, so the change went into that draft
+  savedAsDraft?: boolean;
+  error?: ErrorBody;
+}
+
+const isPositiveInt = (value: unknown): value is number =>
+  typeof value === "number" && Number.isInteger(value) && value > 0;
+
+const parseBulkPostRequest = (body: unknown): BulkPostRequest => {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw invalidRequest([
+      { path: "", message: "Request body must be a JSON object" },
+    ]);
+  }
+
+  const input = body as Record<string, unknown>;
+  const errors: FieldError[] = [];
+  const action = input.action as BulkPostAction;
+
+  if (!bulkPostActions.includes(action)) {
+    errors.push({
+      path: "action",
+      message: `Must be one of: ${bulkPostActions.join(", ")}`,
+    });
+  }
+
+  if ((input.where === undefined) === (input.ids === undefined)) {
+    errors.push({ path: "where", message: "Provide either `where` or `ids`" });
+  }
+  if (
+    input.where !== undefined &&
+    (!input.where || typeof input.where !== "object" || Array.isArray(input.where))
+  ) {
+    errors.push({ path: "where", message: "Must be a Payload where object" });
+  }
+  if (input.ids !== undefined) {
+    if (!Array.isArray(input.ids) || input.ids.length === 0) {
+      errors.push({ path: "ids", message: "Must be a non-empty array of IDs" });
+    } else {
+      input.ids.forEach((id, index) => {
+        if (!isPositiveInt(id)) {
+          errors.push({ path: `ids.${index}`, message: "Must be a numeric ID" });
+        }
+      });
+    }
+  }
+
+  if (action === "reassign-author" && !isPositiveInt(input.authorId)) {
+    errors.push({ path: "authorId", message: "Required for reassign-author" });
+  }
+  if (
+    (action === "add-category" || action === "remove-category") &&
+    !isPositiveInt(input.categoryId)
+  ) {
+    errors.push({ path: "categoryId", message: `Required for ${action}` });
+  }
+
+  if (input.dryRun !== undefined && typeof input.dryRun !== "boolean") {
+    errors.push({ path: "dryRun", message: "Must be a boolean" });
+  }
+  const batchSize = input.batchSize ?? BULK_DEFAULT_BATCH_SIZE;
+  if (!isPositiveInt(batchSize) || batchSize > BULK_MAX_BATCH_SIZE) {
+    errors.push({
+      path: "batchSize",
+      message: `Must be an integer between 1 and ${BULK_MAX_BATCH_SIZE}`,
+    });
+  }
+
+  if (errors.length > 0) throw invalidRequest(errors);
+
+  return {
+    action,
+    where: input.where as Where | undefined,
+    ids: input.ids as number[] | undefined,
+    authorId: input.authorId as number | undefined,
+    categoryId: input.categoryId as number | undefined,
+    dryRun: input.dryRun === true,
+    batchSize: batchSize as number,
+  };
+};
+
+// The update a post needs for the requested action, or null when it is
+// already in the desired state
+const planBulkPostChange = (
+  post: Post,
+  request: BulkPostRequest
+): Record<string, { from: unknown; to: unknown }> | null => {
+  const categories = (post.categories ?? []).map(relationId);
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  const set = (field: string, from: unknown, to: unknown) => {
+    if (JSON.stringify(from) !== JSON.stringify(to)) {
+      changes[field] = { from, to };
+    }
+  };
+
+  switch (request.action) {
+    case "publish":
+      set("_status", post._status, "published");
+      if (changes._status) set("archived", Boolean(post.archived), false);
+      break;
+    case "unpublish":
+      set("_status", post._status, "draft");
+      break;
+    case "archive":
+      set("_status", post._status, "draft");
+      set("archived", Boolean(post.archived), true);
+      break;
+    case "reassign-author":
+      set("author", relationId(post.author), request.authorId);
+      break;
+    case "add-category":
+      if (!categories.includes(request.categoryId)) {
+        set("categories", categories, [...categories, request.categoryId]);
+      }
+      break;
+    case "remove-category":
+      set(
+        "categories",
+        categories,
+        categories.filter((id) => id !== request.categoryId)
+      );
+      break;
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+};
+
+// Applies an action to every matching post the user may update. Planned
+// changes run in batches, each inside its own DB transaction: if one post in
+// a batch fails the whole batch is rolled back and later batches are
+// skipped, so a run never stops halfway through a batch. Batches committed
+// before the failure are not undone; the result then says `partial: true`
+// and `committedBatches` lists them. With `dryRun` the per-post plan is
+// returned without writing anything.
+const runBulkPostAction = async (
+  req: PayloadRequest,
+  request: BulkPostRequest
+) => {
+  const { payload } = req;
+  const user = req.user;
+
+  // Unknown IDs would otherwise surface as foreign key errors mid-batch
+  const relations = [
+    { collection: "authors", path: "authorId", id: request.authorId },
+    { collection: "categories", path: "categoryId", id: request.categoryId },
+  ] as const;
+  for (const { collection, path, id } of relations) {
+    if (id === undefined) continue;
+    const exists = await payload.count({ collection, where: { id: { equals: id } } });
+    if (exists.totalDocs === 0) {
+      throw invalidRequest([{ path, message: `No document with ID ${id}` }]);
+    }
+  }
+
+  const targets = await payload.find({
+    collection: "posts",
+    where: request.ids ? { id: { in: request.ids } } : request.where,
+    depth: 0,
+    pagination: false,
+    sort: "id",
+    user,
+    overrideAccess: false,
+  });
+
+  const results: BulkPostResult[] = [];
+
+  if (request.ids) {
+    const found = new Set(targets.docs.map((post) => post.id));
+    for (const id of request.ids) {
+      if (!found.has(id)) results.push({ id, status: "not-found" });
+    }
+  }
+
+  // Update access may be a query (authors: only their own posts), so the
+  // allowed subset is looked up instead of waiting for each update to fail
+  const access = await canManageOwnPosts({ req });
+  let allowed = new Set<number>();
+  if (access === true) {
+    allowed = new Set(targets.docs.map((post) => post.id));
+  } else if (access && targets.docs.length > 0) {
+    const permitted = await payload.find({
       collection: "posts",
-      limit: 1000,
+      where: {
+        and: [{ id: { in: targets.docs.map((post) => post.id) } }, access],
+      },
       depth: 0,
+      pagination: false,
+      select: {},
     });
+    allowed = new Set(permitted.docs.map((post) => post.id));
+  }
 
-    const stats = {
-      total: allPosts.totalDocs,
-      published: allPosts.docs.filter((p) => p.status === "published").length,
-      draft: allPosts.docs.filter((p) => p.status === "draft").length,
-      timestamp: new Date().toISOString(),
+  // Updating a post starts from its newest version. For a published post with
+  // newer unpublished edits that would put the edits live (or, without a
+  // `_status` change, take the post offline), so changes that don't touch
+  // `_status` are saved into the pending draft instead.
+  const pendingDrafts = new Set<number>();
+  const published = targets.docs.filter((post) => post._status === "published");
+  if (published.length > 0) {
+    const latest = await payload.findVersions({
+      collection: "posts",
+      where: {
+        and: [
+          { parent: { in: published.map((post) => post.id) } },
+          { latest: { equals: true } },
+          { "version._status": { equals: "draft" } },
+        ],
+      },
+      depth: 0,
+      pagination: false,
+    });
+    for (const version of latest.docs) {
+      pendingDrafts.add(relationId(version.parent) as number);
+    }
+  }
+
+  const planned: { post: Post; result: BulkPostResult }[] = [];
+  for (const post of targets.docs) {
+    const result: BulkPostResult = {
+      id: post.id,
+      title: post.title,
+      status: "unchanged",
     };
+    results.push(result);
+
+    if (!allowed.has(post.id)) {
+      result.status = "forbidden";
+      continue;
+    }
+
+    const changes = planBulkPostChange(post, request);
+    if (!changes) continue;
+
+    result.changes = changes;
+    result.status = request.dryRun ? "would-update" : "skipped";
+    if (pendingDrafts.has(post.id) && !changes._status) {
+      result.savedAsDraft = true;
+    }
+    planned.push({ post, result });
+  }
+
+  // Positions (1-based, in `planned` order) and IDs of the batches that
+  // were committed before a later batch failed
+  const committedBatches: { from: number; to: number; ids: number[] }[] = [];
+  let failedBatch = false;
+
+  for (
+    let start = 0;
+    start < planned.length && !request.dryRun;
+    start += request.batchSize
+  ) {
+    const batch = planned.slice(start, start + request.batchSize);
+    await initTransaction(req);
+
+    try {
+      for (const { post, result } of batch) {
+        const data = Object.fromEntries(
+          Object.entries(result.changes ?? {}).map(([field, { to }]) => [
+            field,
+            to,
+          ])
+        );
+
+        try {
+          await payload.update({
+            collection: "posts",
+            id: post.id,
+            data,
+            draft: result.savedAsDraft,
+            depth: 0,
+            req,
+            overrideAccess: false,
+          });
+          result.status = "updated";
+        } catch (error) {
+          result.status = "failed";
+          result.error = describeError(error, "[CUSTOM API]").body;
+          throw error;
+        }
+      }
+
+      await commitTransaction(req);
+      committedBatches.push({
+        from: start + 1,
+        to: start + batch.length,
+        ids: batch.map(({ post }) => post.id),
+      });
+    } catch {
+      failedBatch = true;
+      await killTransaction(req);
+      for (const { result } of batch) {
+        if (result.status === "updated") result.status = "rolled-back";
+      }
+      console.log(
+        `[CUSTOM API] Bulk ${request.action}: batch starting at #${start + 1} rolled back`
+      );
+      break;
+    }
+  }
+
+  const summary: Partial<Record<BulkPostResultStatus, number>> = {};
+  for (const result of results) {
+    summary[result.status] = (summary[result.status] ?? 0) + 1;
+  }
+
+  console.log(`[CUSTOM API] Bulk ${request.action}:`, summary);
+  return {
+    action: request.action,
+    dryRun: request.dryRun,
+    // Earlier batches stay applied when a later one fails
+    partial: failedBatch && committedBatches.length > 0,
+    committedBatches,
+    matched: targets.docs.length,
+    summary,
+    results,
+  };
+};
+
+// Custom endpoint: POST /api/posts/bulk - publish, unpublish, archive,
+// reassign author or add/remove a category on many posts at once.
+// Body: { action, where | ids, authorId?, categoryId?, dryRun?, batchSize? }
+// Only admins and editors may reassign authors. A failed batch rolls back on its own: with `partial: true` in the response
+// the earlier batches in `committedBatches` have been applied.
+const bulkPostsEndpoint: Endpoint = {
+  path: "/bulk",
+  method: "post",
+  handler: async (req) => {
+    console.log("[CUSTOM API] /api/posts/bulk called");
 
-    console.log("[CUSTOM API] Stats calculated:", stats);
-    return Response.json(stats);
+    if (!req.user) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+      await addDataAndFileToRequest(req);
+      const request = parseBulkPostRequest(req.data);
+      // The author field is only writable for admins and editors; an update
+      // from anyone else would drop it silently yet report the post updated
+      if (
+        request.action === "reassign-author" &&
+        !(await isAdminOrEditorFieldLevel({ req }))
+      ) {
+        return Response.json({ error: "Forbidden" }, { status: 403 });
+      }
+      const result = await runBulkPostAction(req, request);
+      return Response.json(result);
+    } catch (error) {
+      return errorResponse(error, "[CUSTOM API]");
+    }
   },
 };
 
-// Custom endpoint: POST /api/posts/publish-all - bulk publish drafts
+// Custom endpoint: POST /api/posts/publish-all - bulk publish drafts.
+// Shorthand for the bulk "publish" action on every post that has never been
+// published; updating by ID starts from the latest draft version, so its
+// newest content goes live. Archived posts and posts that were taken offline
+// after going live are left alone. Whether a post has been live is read from
+// its version history, not `publishedOn`, which editors may fill in ahead of
+// time. Accepts `{ "dryRun": true }`.
 const publishAllEndpoint: Endpoint = {
   path: "/publish-all",
   method: "post",
   handler: async (req) => {
     console.log("[CUSTOM API] /api/posts/publish-all called");
 
-    const drafts = await req.payload.find({
-      collection: "posts",
-      where: { status: { equals: "draft" } },
-      limit: 100,
-    });
+    if (!req.user) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
 
-    let publishedCount = 0;
-    for (const post of drafts.docs) {
-      await req.payload.update({
+    try {
+      await addDataAndFileToRequest(req);
+      const publishedVersions = await req.payload.findVersions({
         collection: "posts",
-        id: post.id,
-        data: { status: "published" },
+        where: { "version._status": { equals: "published" } },
+        depth: 0,
+        pagination: false,
+        req,
       });
-      publishedCount++;
-      console.log(`[CUSTOM API] Published: "${post.title}"`);
-    }
+      const everPublished = [
+        ...new Set(
+          publishedVersions.docs.map(
+            (version) => relationId(version.parent) as number
+          )
+        ),
+      ];
+      const where: Where = {
+        and: [
+          { _status: { not_equals: "published" } },
+          { archived: { not_equals: true } },
+          ...(everPublished.length > 0
+            ? [{ id: { not_in: everPublished } }]
+            : []),
+        ],
+      };
+      const result = await runBulkPostAction(
+        req,
+        parseBulkPostRequest({
+          dryRun: req.data?.dryRun,
+          action: "publish",
+          where,
+        })
+      );
+      const publishedCount = result.summary.updated ?? 0;
 
-    return Response.json({
-      message: `Published ${publishedCount} posts`,
-      publishedCount,
-    });
+      return Response.json({
+        message: `Published ${publishedCount} posts`,
+        publishedCount,
+        ...result,
+      });
+    } catch (error) {
+      return errorResponse(error, "[CUSTOM API]");
+    }
   },
 };
 
-// Root-level custom endpoint: GET /api/health
-const healthEndpoint: Endpoint = {
-  path: "/health",
+// Root-level custom endpoints: GET /api/health/live and /api/health/ready.
+// Liveness never touches the database so a slow query can't get the process
+// restarted; readiness answers 503 with the failing checks.
+const healthLiveEndpoint: Endpoint = {
+  path: "/health/live",
   method: "get",
-  handler: () => {
-    console.log("[CUSTOM API] Health check called");
-    return Response.json({
+  handler: () =>
+    Response.json({
       status: "ok",
+      uptimeSeconds: Math.round(process.uptime()),
+      build: getBuildInfo(),
       timestamp: new Date().toISOString(),
-      payload: "running",
-    });
-  },
+    }),
+};
+
+const readinessHandler: Endpoint["handler"] = async (req) => {
+  const report = await checkReadiness(req.payload);
+  if (report.status !== "ok") {
+    const failed = Object.entries(report.checks)
+      .filter(([, check]) => check.status === "fail")
+      .map(([name, check]) => `${name}: ${check.error}`);
+    console.warn(`[CUSTOM API] Readiness check failed - ${failed.join("; ")}`);
+  }
+  return Response.json(report, { status: report.status === "ok" ? 200 : 503 });
+};
+
+const healthReadyEndpoint: Endpoint = {
+  path: "/health/ready",
+  method: "get",
+  handler: readinessHandler,
+};
+
+// GET /api/health - kept for existing monitors, same report as readiness
+const healthEndpoint: Endpoint = {
+  path: "/health",
+  method: "get",
+  handler: readinessHandler,
 };
 
 // ============================================================================
-// COLLECTIONS
+// POST <-> CATEGORY LINKS - keeps posts.categories and categories.posts in sync
 // ============================================================================
+//
+// Both fields stay editable. The side that was saved wins for its own links
+// and the other side is rewritten to match (see lib/category-sync.ts).
 
-const siteSettingsGlobal: GlobalConfig = {
-  slug: "site-settings",
-  label: "Site Settings",
-  access: {
-    read: () => true,
-  },
-  fields: [
-    {
-      name: "siteName",
-      type: "text",
-      required: true,
-      localized: true,
-      defaultValue: "Payload Demo",
-    },
-    {
-      name: "tagline",
-      type: "text",
-      localized: true,
-      defaultValue: "A tiny demo of Payload + Next.js",
-    },
-  ],
+const syncCategoriesAfterPostChange: CollectionAfterChangeHook<Post> = async ({
+  doc,
+  req,
+}) => {
+  await syncCategoriesOfPost(req, doc.id);
+  return doc;
 };
 
-const collections: CollectionConfig[] = [
-  // ----------------------------------------------------------------------------
-  // AUTHORS - Simple collection with hooks
-  // ----------------------------------------------------------------------------
-  {
-    slug: "authors",
-    labels: { singular: "Author", plural: "Authors" },
-    admin: { useAsTitle: "name" },
-    access: {
-      read: () => true,
-    },
-    hooks: {
-      afterChange: [logAfterAuthorChange],
-    },
-    fields: [
-      { name: "name", type: "text", required: true, localized: true },
-      { name: "bio", type: "textarea" },
-      { name: "avatar", type: "text", label: "Avatar URL" },
-    ],
-  },
+const syncPostsAfterCategoryChange: CollectionAfterChangeHook<Category> =
+  async ({ doc, previousDoc, operation, req }) => {
+    const postIds = (doc.posts ?? []).map((post) => relationId(post) as number);
+    const previousIds = (previousDoc?.posts ?? []).map(
+      (post) => relationId(post) as number
+    );
+    const unchanged =
+      operation === "update" &&
+      postIds.length === previousIds.length &&
+      postIds.every((id) => previousIds.includes(id));
 
-  // ----------------------------------------------------------------------------
-  // CATEGORIES - Demonstrates relationship field
-  // ----------------------------------------------------------------------------
-  {
-    slug: "categories",
-    labels: { singular: "Category", plural: "Categories" },
-    admin: { useAsTitle: "title" },
+    if (!unchanged) {
+      await syncPostsOfCategory(req, doc.id, postIds);
+    }
+    return doc;
+  };
+
+// Custom endpoint: POST /api/categories/repair-post-links - one-off
+// reconciliation of links that drifted apart before the hooks existed.
+// Body: `{ "strategy": "union" | "posts" | "categories", "dryRun": true }`
+const repairPostLinksEndpoint: Endpoint = {
+  path: "/repair-post-links",
+  method: "post",
+  handler: async (req) => {
+    console.log("[CUSTOM API] /api/categories/repair-post-links called");
+
+    if (!req.user) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!hasRole(req, "admin")) {
+      return Response.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    try {
+      await addDataAndFileToRequest(req);
+      const strategy = (req.data?.strategy ?? "union") as RepairStrategy;
+      if (!repairStrategies.includes(strategy)) {
+        throw invalidRequest([
+          {
+            path: "strategy",
+            message: `Must be one of: ${repairStrategies.join(", ")}`,
+          },
+        ]);
+      }
+      const dryRun = req.data?.dryRun === true;
+
+      await initTransaction(req);
+      let result: RepairResult;
+      try {
+        result = await repairPostCategoryLinks(req, { strategy, dryRun });
+        await commitTransaction(req);
+      } catch (error) {
+        await killTransaction(req);
+        throw error;
+      }
+
+      console.log(
+        `[CUSTOM API] ${result.mismatches.length} post/category mismatches ${dryRun ? "found" : "repaired"} (${strategy})`
+      );
+      return Response.json(result);
+    } catch (error) {
+      return errorResponse(error, "[CUSTOM API]");
+    }
+  },
+};
+
+// ============================================================================
+// CATEGORY TREE - nested categories with paths and breadcrumbs
+// ============================================================================
+//
+// Every category stores its `ancestors` (top level first) and a `path` made
+// of their slugs, e.g. "technology/web/react". Both are recomputed on save
+// and pushed down the subtree whenever a category moves or changes slug.
+// `breadcrumbs` is a virtual field: the same chain with titles in the
+// requested locale.
+
+// Categories keep the slug they were created with; send `slug` to change it
+// or an empty `slug` to regenerate it from the default-locale title
+const generateCategorySlug: CollectionBeforeValidateHook = async ({
+  data,
+  originalDoc,
+  req,
+}) => {
+  if (!data) return data;
+
+  const incomingSlug = typeof data.slug === "string" ? slugify(data.slug) : "";
+  if (incomingSlug) {
+    if (
+      incomingSlug !== originalDoc?.slug &&
+      (await isSlugTaken(req, incomingSlug, originalDoc?.id, "categories"))
+    ) {
+      throw new ValidationError({
+        collection: "categories",
+        errors: [
+          {
+            path: "slug",
+            message: `The slug "${incomingSlug}" is already used by another category`,
+          },
+        ],
+        req,
+      });
+    }
+    return { ...data, slug: incomingSlug };
+  }
+
+  if (data.slug === undefined && originalDoc?.slug) return data;
+
+  const base = slugify(
+    await getDefaultLocaleTitle(req, data, originalDoc, "categories")
+  );
+  if (!base) return data;
+
+  return {
+    ...data,
+    slug: await findAvailableSlug(req, base, originalDoc?.id, "categories"),
+  };
+};
+
+// Derives `ancestors` and `path` from the parent, rejecting a parent that
+// is the category itself or one of its descendants
+const setCategoryLineage: CollectionBeforeChangeHook<Category> = async ({
+  data,
+  originalDoc,
+  req,
+}) => {
+  const slug = data.slug ?? originalDoc?.slug;
+  const parentId = relationId("parent" in data ? data.parent : originalDoc?.parent);
+
+  if (parentId === undefined) {
+    return { ...data, ancestors: [], path: slug };
+  }
+
+  const parent = await req.payload.findByID({
+    collection: "categories",
+    id: parentId,
+    depth: 0,
+    select: { ancestors: true, path: true },
+    disableErrors: true,
+    req,
+  });
+  if (!parent) {
+    throw new ValidationError({
+      collection: "categories",
+      errors: [{ path: "parent", message: `No category with ID ${parentId}` }],
+      req,
+    });
+  }
+
+  const ancestors = [
+    ...(parent.ancestors ?? []).map((ancestor) => relationId(ancestor) as number),
+    parent.id,
+  ];
+  if (originalDoc?.id !== undefined && ancestors.includes(originalDoc.id)) {
+    throw new ValidationError({
+      collection: "categories",
+      errors: [
+        {
+          path: "parent",
+          message:
+            parent.id === originalDoc.id
+              ? "A category can't be its own parent"
+              : "A category can't be nested inside one of its own subcategories",
+        },
+      ],
+      req,
+    });
+  }
+
+  return { ...data, ancestors, path: `${parent.path}/${slug}` };
+};
+
+// Re-saving the direct children recomputes their lineage, and each child's
+// own afterChange carries it further down
+const updateSubcategoryPaths: CollectionAfterChangeHook<Category> = async ({
+  doc,
+  previousDoc,
+  operation,
+  req,
+}) => {
+  if (operation !== "update" || doc.path === previousDoc?.path) return doc;
+
+  const { docs } = await req.payload.update({
+    collection: "categories",
+    where: { parent: { equals: doc.id } },
+    data: {},
+    depth: 0,
+    req,
+  });
+  if (docs.length > 0) {
+    console.log(
+      `[HOOK] Updated paths of ${docs.length} subcategories under "${doc.path}"`
+    );
+  }
+  return doc;
+};
+
+// Subcategories of a deleted category move up to its parent
+const reparentSubcategories: CollectionBeforeDeleteHook = async ({
+  id,
+  req,
+}) => {
+  const category = await req.payload.findByID({
+    collection: "categories",
+    id,
+    depth: 0,
+    disableErrors: true,
+    req,
+  });
+  if (!category) return;
+
+  const { docs } = await req.payload.update({
+    collection: "categories",
+    where: { parent: { equals: id } },
+    data: { parent: (relationId(category.parent) as number) ?? null },
+    depth: 0,
+    req,
+  });
+  if (docs.length > 0) {
+    console.log(
+      `[HOOK] Moved ${docs.length} subcategories of "${category.path}" up one level`
+    );
+  }
+};
+
+// afterRead for the virtual `breadcrumbs`: ancestors first, then the
+// category itself, titled in the locale of the request. Ancestors go through
+// the request's dataloader, so reading a page of categories looks up all of
+// their ancestors in one `id in [...]` query rather than one per category.
+const buildCategoryBreadcrumbs: FieldHook<Category> = async ({
+  data,
+  req,
+}) => {
+  if (!data?.id) return [];
+
+  const ancestorIds = (data.ancestors ?? []).map(
+    (ancestor) => relationId(ancestor) as number
+  );
+  // The loader hands the ID in the key back to the database adapter: it has
+  // to be the settled ID while a transaction starts, and empty outside one
+  const transactionID = (await req.transactionID) ?? "";
+  const ancestors = await Promise.all(
+    ancestorIds.map(
+      (id) =>
+        req.payloadDataLoader.load(
+          createDataloaderCacheKey({
+            collectionSlug: categoriesSlug,
+            currentDepth: 0,
+            depth: 0,
+            docID: id,
+            draft: false,
+            fallbackLocale: req.fallbackLocale ?? null,
+            locale: req.locale ?? DEFAULT_LOCALE,
+            overrideAccess: true,
+            select: { title: true, slug: true, path: true },
+            showHiddenFields: false,
+            transactionID,
+          })
+        ) as Promise<Category | null>
+    )
+  );
+
+  return [
+    ...ancestors.flatMap((ancestor) => (ancestor ? [ancestor] : [])),
+    data,
+  ].map(({ id, title, slug, path }) => ({
+    id: String(id),
+    category: id,
+    title,
+    slug,
+    path,
+  }));
+};
+
+// Custom endpoint: GET /api/categories/:id/posts - posts filed under the
+// category or any of its subcategories (`?subcategories=false` for only the
+// category itself). Supports `page`, `limit` (up to 100), `depth` (up to 2)
+// and `locale`; read access applies, so visitors only get published posts.
+const categoryPostsEndpoint: Endpoint = {
+  path: "/:id/posts",
+  method: "get",
+  handler: async (req) => {
+    const id = Number(req.routeParams?.id);
+    const params = req.searchParams;
+
+    try {
+      const errors: FieldError[] = [];
+      const intParam = (
+        name: "page" | "limit" | "depth",
+        min: number,
+        max: number | undefined,
+        fallback: number
+      ) => {
+        const raw = params.get(name);
+        if (raw === null) return fallback;
+        const value = Number(raw);
+        if (!Number.isInteger(value) || value < min || (max && value > max)) {
+          errors.push({
+            path: name,
+            message: max
+              ? `Must be an integer between ${min} and ${max}`
+              : `Must be an integer of at least ${min}`,
+          });
+        }
+        return value;
+      };
+      const page = intParam("page", 1, undefined, 1);
+      const limit = intParam("limit", 1, 100, 10);
+      const depth = intParam("depth", 0, 2, 1);
+      if (errors.length > 0) throw invalidRequest(errors);
+
+      const category = Number.isInteger(id)
+        ? await req.payload.findByID({
+            collection: "categories",
+            id,
+            depth: 0,
+            disableErrors: true,
+            req,
+          })
+        : null;
+      if (!category) {
+        return Response.json({ error: "Not Found" }, { status: 404 });
+      }
+
+      const posts = await req.payload.find({
+        collection: "posts",
+        where: postsInCategoryWhere(category.id, {
+          subcategories: params.get("subcategories") !== "false",
+        }),
+        page,
+        limit,
+        depth,
+        sort: "-publishedOn",
+        overrideAccess: false,
+        req,
+      });
+      return Response.json(posts);
+    } catch (error) {
+      return errorResponse(error, "[CUSTOM API]");
+    }
+  },
+};
+
+// GraphQL: `PostsInCategory(category: 3, subcategories: true) { docs { … } }`
+const postsInCategoryQuery: GraphQLExtension = (GraphQL, { Query }) => ({
+  PostsInCategory: {
+    // The built-in `Posts` query's result type; building another type with
+    // the same name would break the schema
+    type: Query.fields.Posts.type,
+    args: {
+      category: { type: new GraphQL.GraphQLNonNull(GraphQL.GraphQLInt) },
+      subcategories: { type: GraphQL.GraphQLBoolean, defaultValue: true },
+      page: { type: GraphQL.GraphQLInt, defaultValue: 1 },
+      limit: { type: GraphQL.GraphQLInt, defaultValue: 10 },
+    },
+    resolve: async (
+      _: unknown,
+      args: { category: number; subcategories: boolean; page: number; limit: number },
+      { req }: { req: PayloadRequest }
+    ) =>
+      req.payload.find({
+        collection: "posts",
+        where: postsInCategoryWhere(args.category, {
+          subcategories: args.subcategories,
+        }),
+        page: args.page,
+        limit: Math.min(args.limit, 100),
+        // Relationship fields are resolved by the GraphQL field resolvers
+        depth: 0,
+        sort: "-publishedOn",
+        overrideAccess: false,
+        req,
+      }),
+  },
+});
+
+// ============================================================================
+// SEARCH - full-text index over posts, authors and categories
+// ============================================================================
+//
+// The `search-index` collection holds one entry per document and locale,
+// rebuilt by the hooks below on every save (see lib/search.ts). Autosaves
+// are skipped; the next manual save or publish picks the changes up.
+
+const indexAfterChange: CollectionAfterChangeHook = async ({
+  collection,
+  doc,
+  req,
+}) => {
+  if (isAutosave(req)) return doc;
+  await indexDocument(req, collection.slug as SearchableCollection, doc.id);
+  return doc;
+};
+
+// Runs before the delete: afterwards the entries' `doc` rows are already gone
+// through the foreign key cascade and the entries can't be found by document
+const removeFromIndexBeforeDelete: CollectionBeforeDeleteHook = async ({
+  collection,
+  id,
+  req,
+}) => {
+  await removeFromIndex(req, collection.slug as SearchableCollection, id as number);
+};
+
+// Root-level custom endpoint: GET /api/search?q=… - ranked matches with
+// highlighted titles and snippets, plus per-collection and per-locale counts.
+// `locale`, `collection` (comma-separated), `page` and `limit` are optional.
+// Unpublished posts are only included for logged-in users.
+const searchEndpoint: Endpoint = {
+  path: "/search",
+  method: "get",
+  handler: async (req) => {
+    const { localization } = req.payload.config;
+
+    try {
+      const options = parseSearchParams(req.searchParams, {
+        defaultLocale: localization ? localization.defaultLocale : "en",
+        localeCodes: localization ? localization.localeCodes : ["en"],
+      });
+      const result = await searchIndex(req.payload, {
+        ...options,
+        includeDrafts: Boolean(req.user),
+      });
+
+      console.log(
+        `[CUSTOM API] Search "${options.q}" (${options.locale}): ${result.totalDocs} results`
+      );
+      return Response.json(result);
+    } catch (error) {
+      return errorResponse(error, "[CUSTOM API]");
+    }
+  },
+};
+
+// Root-level custom endpoint: POST /api/search/reindex - rebuilds the index
+// from every post, author and category. Not wrapped in a transaction: each
+// document is indexed on its own, so an interrupted run can simply be
+// repeated.
+const searchReindexEndpoint: Endpoint = {
+  path: "/search/reindex",
+  method: "post",
+  handler: async (req) => {
+    console.log("[CUSTOM API] /api/search/reindex called");
+
+    if (!req.user) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!hasRole(req, "admin")) {
+      return Response.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    try {
+      const result = await reindexAll(req);
+      console.log(
+        `[CUSTOM API] Search index rebuilt: ${result.entries} entries, ${result.removed} removed`
+      );
+      return Response.json(result);
+    } catch (error) {
+      return errorResponse(error, "[CUSTOM API]");
+    }
+  },
+};
+
+// ============================================================================
+// TRANSLATIONS - per-locale status of posts, authors, categories and settings
+// ============================================================================
+//
+// The `translation-status` collection holds one entry per document and
+// non-default locale: missing, outdated, review or done (see
+// lib/translations.ts). The admin's "Translations" view lists what needs
+// work, and posts have a "Translate" tab showing two locales side by side.
+// Localized fields offer a machine translation from the default locale
+// (lib/machine-translation.ts).
+
+const translationStatusAfterChange: CollectionAfterChangeHook = async ({
+  collection,
+  doc,
+  operation,
+  previousDoc,
+  req,
+}) => {
+  if (isAutosave(req)) return doc;
+
+  const target: TranslationTarget = {
+    collection: collection.slug as TranslationCollection,
+    id: doc.id,
+  };
+  const fields = fieldsForTarget(req.payload, target);
+  const changed =
+    operation === "create"
+      ? fields.map(({ path }) => path)
+      : changedFields(fields, previousDoc, doc);
+  await syncTranslationStatus(req, target, {
+    changedLocale: changed.length > 0 ? req.locale : null,
+    changedFields: changed,
+  });
+  return doc;
+};
+
+const removeTranslationStatusAfterDelete: CollectionAfterDeleteHook = async ({
+  collection,
+  id,
+  req,
+}) => {
+  await removeTranslationStatus(req, {
+    collection: collection.slug as TranslationCollection,
+    id,
+  });
+};
+
+const translationStatusGlobalAfterChange: GlobalAfterChangeHook = async ({
+  doc,
+  previousDoc,
+  req,
+}) => {
+  if (isAutosave(req)) return doc;
+
+  const target: TranslationTarget = { global: "site-settings" };
+  const changed = changedFields(
+    fieldsForTarget(req.payload, target),
+    previousDoc,
+    doc
+  );
+  await syncTranslationStatus(req, target, {
+    changedLocale: changed.length > 0 ? req.locale : null,
+    changedFields: changed,
+  });
+  return doc;
+};
+
+// Custom endpoint: POST /api/translation-status/:id/mark-done - confirms a
+// translation still fits after a source change that needed no edits
+const markTranslationDoneEndpoint: Endpoint = {
+  path: "/:id/mark-done",
+  method: "post",
+  handler: async (req) => {
+    if (!req.user) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!hasRole(req, "admin", "editor")) {
+      return Response.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    try {
+      const entry = await markTranslationDone(
+        req,
+        Number(req.routeParams?.id)
+      );
+      console.log(
+        `[CUSTOM API] Translation marked done: ${entry.title} (${entry.locale})`
+      );
+      return Response.json({ entry });
+    } catch (error) {
+      return errorResponse(error, "[CUSTOM API]");
+    }
+  },
+};
+
+// Custom endpoint: POST /api/translation-status/rebuild - recomputes every
+// entry, e.g. for content created before tracking existed. Like the search
+// reindex, each document is handled on its own and a run can be repeated.
+const rebuildTranslationStatusEndpoint: Endpoint = {
+  path: "/rebuild",
+  method: "post",
+  handler: async (req) => {
+    console.log("[CUSTOM API] /api/translation-status/rebuild called");
+
+    if (!req.user) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!hasRole(req, "admin")) {
+      return Response.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    try {
+      const result = await rebuildTranslationStatus(req);
+      console.log(
+        `[CUSTOM API] Translation status rebuilt: ${result.entries} entries, ${result.removed} removed`
+      );
+      return Response.json(result);
+    } catch (error) {
+      return errorResponse(error, "[CUSTOM API]");
+    }
+  },
+};
+
+// Custom endpoint: POST /api/translation-status/translate - machine
+// translation of a document's fields into another locale, through the
+// provider set by TRANSLATION_PROVIDER. Returns the translated values, or
+// with `save: true` also saves them (as a draft for posts).
+// Body: { collection, id | global, to, from?, fields?, save? }
+const machineTranslateEndpoint: Endpoint = {
+  path: "/translate",
+  method: "post",
+  handler: async (req) => {
+    console.log("[CUSTOM API] /api/translation-status/translate called");
+
+    if (!req.user) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+    if (!hasRole(req, "admin", "editor", "author")) {
+      return Response.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    try {
+      await addDataAndFileToRequest(req);
+      const request = parseMachineTranslationRequest(req.payload, req.data);
+      const result = await machineTranslate(req, request);
+      console.log(
+        `[CUSTOM API] Machine-translated ${Object.keys(result.values).length} fields into ${result.to} (${result.provider})`
+      );
+      return Response.json(result);
+    } catch (error) {
+      return errorResponse(error, "[CUSTOM API]");
+    }
+  },
+};
+
+// "Translate from English" under the input of a localized field
+const translateFieldAction = {
+  afterInput: ["app/(payload)/components/TranslateFieldButton#default"],
+};
+
+// Sidebar summary on every translatable document and the site settings
+const translationStatusField = (
+  serverProps: { globalSlug?: string } = {}
+): Field => ({
+  name: "translationStatus",
+  type: "ui",
+  admin: {
+    position: "sidebar",
+    components: {
+      Field: {
+        path: "app/(payload)/components/TranslationStatusField#default",
+        serverProps,
+      },
+    },
+  },
+});
+
+// ============================================================================
+// WEBHOOKS - signed outbound notifications delivered by the job queue
+// ============================================================================
+//
+// Content hooks record a `webhook-deliveries` entry per subscribed webhook and
+// queue a `deliverWebhook` job. The job POSTs the signed payload and retries
+// with exponential backoff (10s, 20s, 40s, 80s) before giving up.
+
+const WEBHOOK_MAX_ATTEMPTS = 5;
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+const queueWebhookDelivery = async (
+  req: PayloadRequest,
+  webhookId: number,
+  event: WebhookEvent,
+  data: unknown,
+  redeliveryOf?: number
+) => {
+  const delivery = await req.payload.create({
+    collection: "webhook-deliveries",
+    data: {
+      webhook: webhookId,
+      event,
+      payload: data as Record<string, unknown>,
+      status: "pending",
+      attempts: 0,
+      redeliveryOf,
+    },
+    overrideAccess: true,
+    req,
+  });
+
+  await req.payload.jobs.queue({
+    task: "deliverWebhook",
+    queue: "webhooks",
+    input: { deliveryId: delivery.id },
+    req,
+  });
+
+  return delivery;
+};
+
+// Fan an event out to every active webhook subscribed to it. Failures are
+// logged, never thrown: a broken receiver must not block editors from saving.
+const dispatchWebhookEvent = async (
+  req: PayloadRequest,
+  event: WebhookEvent,
+  data: unknown
+) => {
+  try {
+    const webhooks = await req.payload.find({
+      collection: "webhooks",
+      where: {
+        and: [{ active: { equals: true } }, { events: { in: [event] } }],
+      },
+      pagination: false,
+      depth: 0,
+      overrideAccess: true,
+      req,
+    });
+
+    for (const webhook of webhooks.docs) {
+      await queueWebhookDelivery(req, webhook.id, event, data);
+    }
+
+    if (webhooks.docs.length > 0) {
+      console.log(
+        `[WEBHOOK] ${event} queued for ${webhooks.docs.length} webhook(s)`
+      );
+    }
+  } catch (error) {
+    console.error(`[WEBHOOK] Failed to queue ${event}:`, error);
+  }
+};
+
+type WebhookEntity = "author" | "category";
+
+const webhookAfterChange =
+  (entity: WebhookEntity): CollectionAfterChangeHook =>
+  async ({ doc, operation, req }) => {
+    const action = operation === "create" ? "created" : "updated";
+    await dispatchWebhookEvent(req, `${entity}.${action}`, doc);
+    return doc;
+  };
+
+const webhookAfterDelete =
+  (entity: WebhookEntity | "post"): CollectionAfterDeleteHook =>
+  async ({ doc, req }) => {
+    await dispatchWebhookEvent(req, `${entity}.deleted`, doc);
+    return doc;
+  };
+
+// Posts have drafts, so only changes to what the public sees are announced:
+// autosaves and other draft-only saves of a live post stay quiet.
+const postWebhookAfterChange: CollectionAfterChangeHook = async ({
+  doc,
+  operation,
+  previousDoc,
+  req,
+}) => {
+  if (operation === "create") {
+    await dispatchWebhookEvent(req, "post.created", doc);
+    if (doc._status === "published") {
+      await dispatchWebhookEvent(req, "post.published", doc);
+    }
+    return doc;
+  }
+
+  const wasPublished = previousDoc?._status === "published";
+
+  if (doc._status === "published") {
+    await dispatchWebhookEvent(
+      req,
+      wasPublished ? "post.updated" : "post.published",
+      doc
+    );
+    return doc;
+  }
+
+  if (wasPublished) {
+    // Either an unpublish, or the first draft saved on top of a live post.
+    // Only the former changes the published document itself.
+    const { totalDocs: stillLive } = await req.payload.count({
+      collection: "posts",
+      where: {
+        and: [{ id: { equals: doc.id } }, { _status: { equals: "published" } }],
+      },
+      overrideAccess: true,
+      req,
+    });
+    if (!stillLive) {
+      await dispatchWebhookEvent(req, "post.unpublished", doc);
+    }
+  }
+
+  return doc;
+};
+
+const deliverWebhookTask: TaskConfig<"deliverWebhook"> = {
+  slug: "deliverWebhook",
+  label: "Deliver webhook",
+  inputSchema: [{ name: "deliveryId", type: "number", required: true }],
+  outputSchema: [{ name: "responseStatus", type: "number" }],
+  retries: {
+    attempts: WEBHOOK_MAX_ATTEMPTS - 1,
+    backoff: { type: "exponential", delay: 10_000 },
+  },
+  handler: async ({ input, req }) => {
+    const delivery = await req.payload.findByID({
+      collection: "webhook-deliveries",
+      id: input.deliveryId,
+      depth: 1,
+      overrideAccess: true,
+      req,
+    });
+    const webhook = typeof delivery.webhook === "object" ? delivery.webhook : null;
+    const attempts = (delivery.attempts ?? 0) + 1;
+
+    if (!webhook || !webhook.active) {
+      await req.payload.update({
+        collection: "webhook-deliveries",
+        id: delivery.id,
+        data: { status: "failed", error: "Webhook was deleted or disabled" },
+        overrideAccess: true,
+        req,
+      });
+      return { output: {} };
+    }
+
+    const body = JSON.stringify({
+      id: delivery.id,
+      event: delivery.event,
+      createdAt: delivery.createdAt,
+      data: delivery.payload,
+    });
+
+    let responseStatus: number | undefined;
+    let responseBody = "";
+    let error: string | undefined;
+    const startedAt = Date.now();
+
+    try {
+      const response = await fetch(webhook.url, {
+        method: "POST",
+        headers: {
+          "content-type": "application/json",
+          "user-agent": "payload-webhooks/1.0",
+          "x-webhook-event": delivery.event,
+          "x-webhook-delivery": String(delivery.id),
+          [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(webhook.secret, body),
+        },
+        body,
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+      responseBody = (await response.text()).slice(0, 2000);
+      if (!response.ok) {
+        error = `Receiver responded with HTTP ${response.status}`;
+      }
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    const succeeded = !error;
+    const willRetry = !succeeded && attempts < WEBHOOK_MAX_ATTEMPTS;
+
+    await req.payload.update({
+      collection: "webhook-deliveries",
+      id: delivery.id,
+      data: {
+        status: succeeded ? "succeeded" : willRetry ? "retrying" : "failed",
+        attempts,
+        responseStatus,
+        responseBody,
+        durationMs: Date.now() - startedAt,
+        error: error ?? null,
+        deliveredAt: succeeded ? new Date().toISOString() : undefined,
+      },
+      overrideAccess: true,
+      req,
+    });
+
+    console.log(
+      `[WEBHOOK] ${delivery.event} -> ${webhook.url}: ${
+        responseStatus ?? "no response"
+      } (attempt ${attempts}/${WEBHOOK_MAX_ATTEMPTS})`
+    );
+
+    if (willRetry) {
+      // Throwing hands the job back to the queue, which applies the backoff
+      throw new Error(error);
+    }
+    return { output: { responseStatus } };
+  },
+};
+
+// The `:id` of a webhook route. Anything but a positive integer is a 400
+// rather than a database error.
+const routeId = (req: PayloadRequest): number => {
+  const id = Number(req.routeParams?.id);
+  if (!Number.isInteger(id) || id < 1) {
+    throw invalidRequest([
+      { path: "id", message: "Must be a positive integer" },
+    ]);
+  }
+  return id;
+};
+
+// Custom endpoint: POST /api/webhook-deliveries/:id/redeliver
+// Queues a fresh delivery of the same payload; the original stays in the log
+const redeliverWebhookEndpoint: Endpoint = {
+  path: "/:id/redeliver",
+  method: "post",
+  handler: async (req) => {
+    if (!hasRole(req, "admin")) {
+      return Response.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    try {
+      const original = await req.payload.findByID({
+        collection: "webhook-deliveries",
+        id: routeId(req),
+        depth: 0,
+        disableErrors: true,
+        req,
+      });
+      if (!original) {
+        return Response.json({ error: "Delivery not found" }, { status: 404 });
+      }
+
+      const delivery = await queueWebhookDelivery(
+        req,
+        relationId(original.webhook) as number,
+        original.event,
+        original.payload,
+        original.id
+      );
+
+      console.log(
+        `[WEBHOOK] Delivery ${original.id} redelivered as ${delivery.id}`
+      );
+      return Response.json({ message: "Redelivery queued", delivery });
+    } catch (error) {
+      return errorResponse(error, "[WEBHOOK]");
+    }
+  },
+};
+
+// Custom endpoint: POST /api/webhooks/:id/ping - sends a test event
+const pingWebhookEndpoint: Endpoint = {
+  path: "/:id/ping",
+  method: "post",
+  handler: async (req) => {
+    if (!hasRole(req, "admin")) {
+      return Response.json({ error: "Forbidden" }, { status: 403 });
+    }
+
+    try {
+      const webhook = await req.payload.findByID({
+        collection: "webhooks",
+        id: routeId(req),
+        depth: 0,
+        disableErrors: true,
+        req,
+      });
+      if (!webhook) {
+        return Response.json({ error: "Webhook not found" }, { status: 404 });
+      }
+
+      const delivery = await queueWebhookDelivery(req, webhook.id, "ping", {
+        message: "Hello from Payload!",
+        webhook: { id: webhook.id, name: webhook.name },
+      });
+
+      return Response.json({ message: "Ping queued", delivery });
+    } catch (error) {
+      return errorResponse(error, "[WEBHOOK]");
+    }
+  },
+};
+
+// ============================================================================
+// AUDIT LOG - shared hooks recording who changed what, field by field
+// ============================================================================
+
+// Auth internals and bookkeeping never end up in the log; secrets are masked
+const AUDIT_IGNORED_FIELDS = new Set([
+  "id",
+  "createdAt",
+  "updatedAt",
+  "globalType",
+  "password",
+  "hash",
+  "salt",
+  "sessions",
+  "resetPasswordToken",
+  "resetPasswordExpiration",
+  "loginAttempts",
+  "lockUntil",
+]);
+const AUDIT_REDACTED_FIELDS = new Set(["secret"]);
+
+// The logs themselves (and the webhook delivery log) are not audited
+const AUDIT_EXCLUDED_COLLECTIONS = new Set(["audit-logs", "webhook-deliveries"]);
+
+type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+// Populated relationships are compared (and stored) by ID only, and an
+// empty hasMany counts as "no value"
+const normalizeForAudit = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.map(normalizeForAudit) : null;
+  }
+  if (value && typeof value === "object" && "id" in value && "createdAt" in value) {
+    return (value as { id: unknown }).id;
+  }
+  return value ?? null;
+};
+
+const diffForAudit = (
+  before: Record<string, unknown> = {},
+  after: Record<string, unknown> = {}
+): AuditChanges => {
+  const changes: AuditChanges = {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const key of keys) {
+    if (AUDIT_IGNORED_FIELDS.has(key)) continue;
+
+    const from = normalizeForAudit(before[key]);
+    const to = normalizeForAudit(after[key]);
+    if (JSON.stringify(from) === JSON.stringify(to)) continue;
+
+    changes[key] = AUDIT_REDACTED_FIELDS.has(key)
+      ? { from: "[redacted]", to: "[redacted]" }
+      : { from, to };
+  }
+  return changes;
+};
+
+const writeAuditLog = async (
+  req: PayloadRequest,
+  entry: {
+    operation: AuditLog["operation"];
+    collectionSlug?: string;
+    globalSlug?: string;
+    documentId?: string | number;
+    changes: AuditChanges;
+  }
+) => {
+  const changedFields = Object.keys(entry.changes);
+  if (changedFields.length === 0) return;
+
+  try {
+    await req.payload.create({
+      collection: "audit-logs",
+      data: {
+        operation: entry.operation,
+        collectionSlug: entry.collectionSlug as AuditLog["collectionSlug"],
+        globalSlug: entry.globalSlug as AuditLog["globalSlug"],
+        documentId:
+          entry.documentId !== undefined ? String(entry.documentId) : undefined,
+        locale: req.locale ?? undefined,
+        user: req.user?.id,
+        userEmail: req.user?.email ?? "system",
+        changedFields: changedFields.join(", "),
+        changes: entry.changes,
+      },
+      overrideAccess: true,
+      req,
+    });
+  } catch (error) {
+    console.error("[AUDIT] Failed to write audit log entry:", error);
+  }
+};
+
+// Autosaves fire every couple of seconds while typing; the explicit save or
+// publish that follows records the same changes once
+const isAutosave = (req: PayloadRequest) => req.query?.autosave === "true";
+
+const auditAfterChange: CollectionAfterChangeHook = async ({
+  collection,
+  doc,
+  operation,
+  previousDoc,
+  req,
+}) => {
+  if (isAutosave(req)) return doc;
+
+  await writeAuditLog(req, {
+    operation,
+    collectionSlug: collection.slug,
+    documentId: doc.id,
+    changes: diffForAudit(operation === "create" ? {} : previousDoc, doc),
+  });
+  return doc;
+};
+
+const auditAfterDelete: CollectionAfterDeleteHook = async ({
+  collection,
+  doc,
+  id,
+  req,
+}) => {
+  await writeAuditLog(req, {
+    operation: "delete",
+    collectionSlug: collection.slug,
+    documentId: id,
+    changes: diffForAudit(doc, {}),
+  });
+  return doc;
+};
+
+const auditGlobalAfterChange: GlobalAfterChangeHook = async ({
+  doc,
+  global,
+  previousDoc,
+  req,
+}) => {
+  if (isAutosave(req)) return doc;
+
+  await writeAuditLog(req, {
+    operation: "update",
+    globalSlug: global.slug,
+    changes: diffForAudit(previousDoc, doc),
+  });
+  return doc;
+};
+
+const withAuditLog = (collection: CollectionConfig): CollectionConfig => {
+  if (AUDIT_EXCLUDED_COLLECTIONS.has(collection.slug)) return collection;
+
+  return {
+    ...collection,
+    hooks: {
+      ...collection.hooks,
+      afterChange: [...(collection.hooks?.afterChange ?? []), auditAfterChange],
+      afterDelete: [...(collection.hooks?.afterDelete ?? []), auditAfterDelete],
+    },
+  };
+};
+
+const withGlobalAuditLog = (global: GlobalConfig): GlobalConfig => ({
+  ...global,
+  hooks: {
+    ...global.hooks,
+    afterChange: [...(global.hooks?.afterChange ?? []), auditGlobalAfterChange],
+  },
+});
+
+// ============================================================================
+// IMPORT / EXPORT - CSV, JSON and NDJSON for every collection
+// ============================================================================
+//
+// Each collection gets `GET /api/<slug>/export` and `POST /api/<slug>/import`
+// (lib/import-export.ts describes the columns), and its list view an
+// "Import / export" menu: the exports follow the list's current filters,
+// search and sort, and "Import…" opens the /admin/import view with its
+// preview (dry run) and row-level report.
+
+// Custom endpoint: GET /api/<slug>/export - streams the documents the user
+// can read. Query: format (csv, json, ndjson), relationships (id, slug),
+// where, search, sort
+const exportEndpoint: Endpoint = {
+  path: "/export",
+  method: "get",
+  handler: async (req) => {
+    const slug = String(req.routeParams?.collection);
+    console.log(`[CUSTOM API] /api/${slug}/export called`);
+
+    if (!req.user) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+      return await exportResponse(req, slug, parseExportParams(req, slug));
+    } catch (error) {
+      return errorResponse(error, "[CUSTOM API]");
+    }
+  },
+};
+
+// Custom endpoint: POST /api/<slug>/import - creates or, with
+// `mode=upsert`, updates documents by slug from the file in the body. Every
+// row is saved on its own with the user's access; `dryRun=true` reports what
+// would happen without keeping anything. Query: format, mode, dryRun
+const importEndpoint: Endpoint = {
+  path: "/import",
+  method: "post",
+  handler: async (req) => {
+    const slug = String(req.routeParams?.collection);
+    console.log(`[CUSTOM API] /api/${slug}/import called`);
+
+    if (!req.user) {
+      return Response.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+      const options = parseImportParams(req, slug);
+      const rows = parseImportRows((await req.text?.()) ?? "", options.format);
+      return Response.json(await importRows(req, slug, rows, options));
+    } catch (error) {
+      return errorResponse(error, "[CUSTOM API]");
+    }
+  },
+};
+
+const withImportExport = (collection: CollectionConfig): CollectionConfig => ({
+  ...collection,
+  endpoints: [
+    ...(collection.endpoints || []),
+    exportEndpoint,
+    importEndpoint,
+  ],
+  admin: {
+    ...collection.admin,
+    components: {
+      ...collection.admin?.components,
+      listMenuItems: [
+        ...(collection.admin?.components?.listMenuItems ?? []),
+        "app/(payload)/components/ImportExportMenu#default",
+      ],
+    },
+  },
+});
+
+// ============================================================================
+// SEED - demo content for development databases
+// ============================================================================
+//
+// lib/seed.ts holds the fixtures. `pnpm seed` runs it from the command line;
+// the endpoint does the same for a running dev server.
+
+// Root-level custom endpoint: POST /api/seed - creates the demo content that
+// is missing; `?reset=true` deletes all content first. Never available in
+// production. Open while the database has no users (so a fresh checkout can
+// be seeded before anyone signs up), admins only after that.
+const seedEndpoint: Endpoint = {
+  path: "/seed",
+  method: "post",
+  handler: async (req) => {
+    console.log("[CUSTOM API] /api/seed called");
+
+    if (process.env.NODE_ENV === "production") {
+      return Response.json({ error: "Not Found" }, { status: 404 });
+    }
+
+    try {
+      const { totalDocs: userCount } = await req.payload.count({
+        collection: "users",
+      });
+      if (userCount > 0 && !req.user) {
+        return Response.json({ error: "Unauthorized" }, { status: 401 });
+      }
+      if (userCount > 0 && !hasRole(req, "admin")) {
+        return Response.json({ error: "Forbidden" }, { status: 403 });
+      }
+
+      const reset = req.searchParams.get("reset") ?? "false";
+      if (reset !== "true" && reset !== "false") {
+        throw invalidRequest([
+          { path: "reset", message: "Must be true or false" },
+        ]);
+      }
+
+      const result = await seed(req.payload, { reset: reset === "true" });
+      return Response.json(result);
+    } catch (error) {
+      return errorResponse(error, "[CUSTOM API]");
+    }
+  },
+};
+
+// ============================================================================
+// PREVIEW - opens the frontend post page from the admin, drafts included
+// ============================================================================
+
+// `/posts/<slug>?preview=<token>`, under `/zh` etc. for the locale being
+// edited. The signed token lets the page render the latest draft of this one
+// post for a limited time (see lib/preview.ts). Used by the edit view's
+// "Preview" button and its Live Preview tab.
+const postPreviewURL = (
+  req: PayloadRequest,
+  doc: Record<string, unknown>,
+  locale: string | undefined
+): string | null => {
+  const id = doc.id as string | number | undefined;
+  // Unsaved documents have nothing to preview yet
+  if (id === undefined || id === null) return null;
+
+  const token = createPreviewToken(req.payload.secret, "posts", id);
+  const slug = typeof doc.slug === "string" && doc.slug ? doc.slug : id;
+  const path = localeHref(
+    `/posts/${encodeURIComponent(slug)}`,
+    locale ?? DEFAULT_LOCALE
+  );
+  return `${resolveServerURL(req.headers)}${path}?${PREVIEW_TOKEN_PARAM}=${token}`;
+};
+
+// ============================================================================
+// COLLECTIONS
+// ============================================================================
+
+const siteSettingsGlobal: GlobalConfig = {
+  slug: "site-settings",
+  label: "Site Settings",
+  access: {
+    read: () => true,
+    update: isAdmin,
+  },
+  hooks: {
+    afterChange: [translationStatusGlobalAfterChange],
+  },
+  fields: [
+    {
+      name: "siteName",
+      type: "text",
+      required: true,
+      localized: true,
+      defaultValue: "Payload Demo",
+      admin: { components: translateFieldAction },
+    },
+    {
+      name: "tagline",
+      type: "text",
+      localized: true,
+      defaultValue: "A tiny demo of Payload + Next.js",
+      admin: { components: translateFieldAction },
+    },
+    {
+      name: "seo",
+      type: "group",
+      label: "SEO Defaults",
+      admin: {
+        description: "Used wherever a page has no SEO values of its own",
+      },
+      fields: [
+        {
+          name: "titleTemplate",
+          type: "text",
+          localized: true,
+          admin: {
+            description:
+              "Page titles with %s replaced by the page name, e.g. \"%s | My Blog\". Defaults to \"%s | <Site Name>\".",
+            components: translateFieldAction,
+          },
+        },
+        {
+          name: "metaDescription",
+          type: "textarea",
+          label: "Meta Description",
+          localized: true,
+          admin: {
+            components: {
+              Field: {
+                path: "app/(payload)/components/SeoMetaField#default",
+                clientProps: {
+                  source: "tagline",
+                  multiline: true,
+                  ...SEO_LIMITS.description,
+                },
+              },
+            },
+          },
+        },
+        {
+          name: "ogImage",
+          type: "upload",
+          relationTo: mediaSlug,
+          label: "Open Graph Image",
+          admin: { description: "Shared image for pages without their own" },
+        },
+      ],
+    },
+    {
+      name: "robots",
+      type: "group",
+      label: "robots.txt",
+      admin: {
+        description:
+          "Served at /robots.txt, followed by a Sitemap line. Without rules, crawlers may visit everything except /admin, /api and /search.",
+      },
+      fields: [
+        {
+          name: "blockAll",
+          type: "checkbox",
+          label: "Block all crawlers",
+          defaultValue: false,
+          admin: {
+            description:
+              "Answers `Disallow: /` for every user agent (e.g. on staging) and ignores the rules below",
+          },
+        },
+        {
+          name: "rules",
+          type: "array",
+          labels: { singular: "Rule", plural: "Rules" },
+          fields: [
+            {
+              name: "userAgent",
+              type: "text",
+              required: true,
+              defaultValue: "*",
+            },
+            {
+              name: "allow",
+              type: "textarea",
+              admin: { description: "One path per line, e.g. /posts" },
+            },
+            {
+              name: "disallow",
+              type: "textarea",
+              admin: { description: "One path per line, e.g. /search" },
+            },
+            {
+              name: "crawlDelay",
+              type: "number",
+              min: 0,
+              admin: { description: "Seconds between requests" },
+            },
+          ],
+        },
+      ],
+    },
+    translationStatusField({ globalSlug: "site-settings" }),
+  ],
+};
+
+const collections: CollectionConfig[] = [
+  // ----------------------------------------------------------------------------
+  // USERS - Admin panel accounts with roles
+  // ----------------------------------------------------------------------------
+  {
+    slug: "users",
+    labels: { singular: "User", plural: "Users" },
+    auth: true,
+    admin: {
+      useAsTitle: "email",
+      defaultColumns: ["email", "role", "author"],
+    },
+    access: {
+      admin: ({ req }) => Boolean(req.user),
+      read: canManageSelf,
+      create: isAdmin,
+      update: canManageSelf,
+      delete: isAdmin,
+    },
+    hooks: {
+      beforeChange: [promoteFirstUser],
+    },
+    fields: [
+      {
+        name: "role",
+        type: "select",
+        required: true,
+        defaultValue: "viewer",
+        options: [
+          { label: "Admin", value: "admin" },
+          { label: "Editor", value: "editor" },
+          { label: "Author", value: "author" },
+          { label: "Viewer", value: "viewer" },
+        ],
+        access: {
+          create: isAdminFieldLevel,
+          update: isAdminFieldLevel,
+        },
+        admin: { description: "Only admins can change roles" },
+      },
+      {
+        name: "author",
+        type: "relationship",
+        relationTo: authorsSlug,
+        label: "Linked Author",
+        access: {
+          create: isAdminFieldLevel,
+          update: isAdminFieldLevel,
+        },
+        admin: {
+          description:
+            "Users with the Author role can only edit posts by this author",
+        },
+      },
+    ],
+  },
+
+  // ----------------------------------------------------------------------------
+  // AUTHORS - Simple collection with hooks
+  // ----------------------------------------------------------------------------
+  {
+    slug: "authors",
+    labels: { singular: "Author", plural: "Authors" },
+    admin: { useAsTitle: "name" },
+    access: {
+      read: () => true,
+      create: isAdminOrEditor,
+      update: canUpdateAuthor,
+      delete: isAdminOrEditor,
+    },
+    hooks: {
+      beforeDelete: [removeFromIndexBeforeDelete],
+      afterChange: [
+        logAfterAuthorChange,
+        webhookAfterChange("author"),
+        invalidateStatsAfterChange,
+        indexAfterChange,
+        translationStatusAfterChange,
+      ],
+      afterDelete: [
+        webhookAfterDelete("author"),
+        invalidateStatsAfterDelete,
+        removeTranslationStatusAfterDelete,
+      ],
+    },
+    fields: [
+      {
+        name: "name",
+        type: "text",
+        required: true,
+        localized: true,
+        admin: { components: translateFieldAction },
+      },
+      { name: "bio", type: "textarea" },
+      {
+        name: "avatar",
+        type: "upload",
+        relationTo: mediaSlug,
+        label: "Avatar",
+      },
+      translationStatusField(),
+    ],
+  },
+
+  // ----------------------------------------------------------------------------
+  // CATEGORIES - Demonstrates relationship field
+  // ----------------------------------------------------------------------------
+  {
+    slug: "categories",
+    labels: { singular: "Category", plural: "Categories" },
+    admin: {
+      useAsTitle: "title",
+      defaultColumns: ["title", "path", "parent"],
+    },
+    defaultSort: "path",
     access: {
       read: () => true,
+      create: isAdminOrEditor,
+      update: isAdminOrEditor,
+      delete: isAdminOrEditor,
+    },
+    hooks: {
+      beforeValidate: [generateCategorySlug],
+      beforeChange: [setCategoryLineage],
+      beforeDelete: [reparentSubcategories, removeFromIndexBeforeDelete],
+      afterChange: [
+        updateSubcategoryPaths,
+        syncPostsAfterCategoryChange,
+        webhookAfterChange("category"),
+        invalidateStatsAfterChange,
+        indexAfterChange,
+        translationStatusAfterChange,
+      ],
+      afterDelete: [
+        webhookAfterDelete("category"),
+        invalidateStatsAfterDelete,
+        removeTranslationStatusAfterDelete,
+      ],
     },
+    endpoints: [categoryPostsEndpoint, repairPostLinksEndpoint],
     fields: [
-      { name: "title", type: "text", required: true, localized: true },
+      {
+        name: "title",
+        type: "text",
+        required: true,
+        localized: true,
+        admin: { components: translateFieldAction },
+      },
+      {
+        name: "slug",
+        type: "text",
+        unique: true,
+        index: true,
+        admin: {
+          position: "sidebar",
+          description:
+            "Generated from the English title. Clear it to regenerate.",
+        },
+      },
+      {
+        name: "parent",
+        type: "relationship",
+        relationTo: categoriesSlug,
+        admin: {
+          position: "sidebar",
+          description: "Leave empty for a top-level category.",
+        },
+        // Hides the category itself and its subcategories from the picker
+        filterOptions: async ({ id, req }) => {
+          if (!id) return true;
+          const { docs } = await req.payload.find({
+            collection: "categories",
+            where: { ancestors: { in: [id] } },
+            depth: 0,
+            pagination: false,
+            select: {},
+            req,
+          });
+          return { id: { not_in: [id, ...docs.map((doc) => doc.id)] } };
+        },
+      },
+      {
+        name: "path",
+        type: "text",
+        unique: true,
+        index: true,
+        admin: {
+          position: "sidebar",
+          readOnly: true,
+          description: "Slugs from the top-level category down.",
+        },
+      },
+      {
+        // Maintained by setCategoryLineage; queryable, e.g. every descendant
+        // of 3 is `where[ancestors][in]=3`
+        name: "ancestors",
+        type: "relationship",
+        relationTo: categoriesSlug,
+        hasMany: true,
+        maxDepth: 0,
+        admin: { hidden: true },
+      },
+      {
+        name: "breadcrumbs",
+        type: "array",
+        virtual: true,
+        admin: { hidden: true },
+        hooks: { afterRead: [buildCategoryBreadcrumbs] },
+        fields: [
+          { name: "category", type: "number" },
+          { name: "title", type: "text" },
+          { name: "slug", type: "text" },
+          { name: "path", type: "text" },
+        ],
+      },
       { name: "description", type: "textarea" },
       {
         name: "posts",
@@ -199,7 +2600,12 @@ const collections: CollectionConfig[] = [
         relationTo: postsSlug,
         hasMany: true,
         label: "Related Posts",
+        admin: {
+          description:
+            "Kept in sync with each post's Categories field; editing either side updates the other.",
+        },
       },
+      translationStatusField(),
     ],
   },
 
@@ -213,32 +2619,126 @@ const collections: CollectionConfig[] = [
       useAsTitle: "title",
       components: {
         edit: {
-          SaveButton: "app/(payload)/components/CustomSaveButton#default",
+          SaveDraftButton: "app/(payload)/components/CustomSaveButton#default",
+        },
+        views: {
+          edit: {
+            // Side-by-side source and translation (see lib/translations.ts)
+            translate: {
+              Component: "app/(payload)/components/LocaleComparisonView#default",
+              path: "/translate",
+              tab: { label: "Translate", href: "/translate", order: 150 },
+            },
+          },
         },
       },
+      preview: (doc, { locale, req }) => postPreviewURL(req, doc, locale),
+      // The "Live Preview" tab renders the frontend page next to the form;
+      // it re-renders on every change, before anything is saved
+      livePreview: {
+        url: ({ data, locale, req }) => postPreviewURL(req, data, locale?.code),
+        breakpoints: [
+          { label: "Mobile", name: "mobile", width: 375, height: 667 },
+          { label: "Tablet", name: "tablet", width: 768, height: 1024 },
+          { label: "Desktop", name: "desktop", width: 1440, height: 900 },
+        ],
+      },
     },
     access: {
-      read: () => true,
+      read: canReadPosts,
+      readVersions: ({ req }) => Boolean(req.user),
+      create: canCreatePost,
+      update: canManageOwnPosts,
+      delete: canManageOwnPosts,
+    },
+    // Drafts + autosave: every save is kept as a revision that can be
+    // compared side by side and restored from the "Versions" tab.
+    versions: {
+      maxPerDoc: 50,
+      drafts: {
+        autosave: { interval: 2000, showSaveDraftButton: true },
+        // Adds "Schedule Publish" to the publish button: pick a future
+        // publish and/or unpublish (expiry) time, listed and cancellable there
+        schedulePublish: true,
+      },
     },
     hooks: {
-      beforeChange: [logBeforePostChange],
-      afterChange: [logAfterPostChange],
+      beforeValidate: [generatePostSlug],
+      beforeChange: [logBeforePostChange, stampPublishedOn, unarchiveOnPublish],
+      beforeDelete: [removeFromIndexBeforeDelete],
+      afterChange: [
+        logAfterPostChange,
+        syncCategoriesAfterPostChange,
+        postWebhookAfterChange,
+        invalidateStatsAfterChange,
+        indexAfterChange,
+        translationStatusAfterChange,
+      ],
+      afterDelete: [
+        webhookAfterDelete("post"),
+        invalidateStatsAfterDelete,
+        removeTranslationStatusAfterDelete,
+      ],
     },
-    endpoints: [postsStatsEndpoint, publishAllEndpoint],
+    endpoints: [postsStatsEndpoint, publishAllEndpoint, bulkPostsEndpoint],
     fields: [
-      { name: "title", type: "text", required: true, localized: true },
-      { name: "slug", type: "text", required: true, index: true, unique: true },
-      { name: "excerpt", type: "textarea" },
+      {
+        name: "title",
+        type: "text",
+        required: true,
+        localized: true,
+        admin: { components: translateFieldAction },
+      },
+      {
+        name: "slug",
+        type: "text",
+        required: true,
+        index: true,
+        unique: true,
+        admin: {
+          position: "sidebar",
+          description:
+            "Generated from the English title. Click Edit to type your own.",
+          components: {
+            Field: "app/(payload)/components/SlugField#default",
+          },
+        },
+      },
+      {
+        // false once someone types the slug by hand; see generatePostSlug
+        name: "slugLock",
+        type: "checkbox",
+        defaultValue: true,
+        admin: { hidden: true },
+      },
+      {
+        name: "excerpt",
+        type: "textarea",
+        localized: true,
+        admin: { components: translateFieldAction },
+      },
+      {
+        name: "featuredImage",
+        type: "upload",
+        relationTo: mediaSlug,
+        label: "Featured Image",
+      },
       {
         name: "content",
         type: "richText",
+        localized: true,
         editor: lexicalEditor(),
+        admin: { components: translateFieldAction },
       },
       {
         name: "author",
         type: "relationship",
         relationTo: authorsSlug,
         required: true,
+        access: {
+          // Authors cannot hand their posts over to somebody else
+          update: isAdminOrEditorFieldLevel,
+        },
       },
       {
         name: "categories",
@@ -246,16 +2746,143 @@ const collections: CollectionConfig[] = [
         relationTo: categoriesSlug,
         hasMany: true,
       },
-      { name: "publishedOn", type: "date" },
       {
-        name: "status",
-        type: "select",
-        defaultValue: "draft",
-        options: [
-          { label: "Draft", value: "draft" },
-          { label: "Published", value: "published" },
+        name: "publishedOn",
+        type: "date",
+        admin: {
+          position: "sidebar",
+          date: { pickerAppearance: "dayAndTime" },
+          description: "Set automatically the first time the post is published",
+        },
+      },
+      {
+        name: "archived",
+        type: "checkbox",
+        defaultValue: false,
+        index: true,
+        admin: {
+          position: "sidebar",
+          description:
+            "Retired posts: unpublished and kept out of editorial lists. Set by the bulk \"archive\" action and cleared when the post is published again.",
+        },
+      },
+      {
+        name: "seo",
+        type: "group",
+        label: "SEO",
+        localized: true,
+        admin: {
+          description:
+            "Search and social sharing. Empty fields use the title, excerpt and featured image, then the defaults in Site Settings.",
+        },
+        fields: [
+          {
+            name: "metaTitle",
+            type: "text",
+            label: "Meta Title",
+            admin: {
+              description: "Shown as is, without the site name template",
+              components: {
+                Field: {
+                  path: "app/(payload)/components/SeoMetaField#default",
+                  clientProps: { source: "title", ...SEO_LIMITS.title },
+                },
+              },
+            },
+          },
+          {
+            name: "metaDescription",
+            type: "textarea",
+            label: "Meta Description",
+            admin: {
+              components: {
+                Field: {
+                  path: "app/(payload)/components/SeoMetaField#default",
+                  clientProps: {
+                    source: "excerpt",
+                    multiline: true,
+                    ...SEO_LIMITS.description,
+                  },
+                },
+              },
+            },
+          },
+          {
+            name: "canonicalURL",
+            // Usually the same URL in every locale, not something to translate
+            custom: { translatable: false },
+            type: "text",
+            label: "Canonical URL",
+            validate: (value: string | null | undefined) =>
+              validateCanonicalURL(value),
+            admin: {
+              description:
+                "Only when the post first appeared elsewhere; defaults to this post's own URL",
+            },
+          },
+          {
+            name: "ogImage",
+            type: "upload",
+            relationTo: mediaSlug,
+            label: "Open Graph Image",
+            admin: { description: "Defaults to the featured image" },
+          },
+          {
+            name: "noindex",
+            type: "checkbox",
+            label: "Hide from search engines",
+            defaultValue: false,
+          },
         ],
       },
+      translationStatusField(),
+    ],
+  },
+
+  // ----------------------------------------------------------------------------
+  // MEDIA - Image uploads resized by sharp into named sizes
+  // ----------------------------------------------------------------------------
+  {
+    slug: "media",
+    labels: { singular: "Media", plural: "Media" },
+    admin: {
+      useAsTitle: "alt",
+      defaultColumns: ["filename", "alt", "mimeType", "filesize"],
+    },
+    access: {
+      read: () => true,
+      create: canUploadMedia,
+      update: isAdminOrEditor,
+      delete: isAdminOrEditor,
+    },
+    upload: {
+      staticDir: "media",
+      mimeTypes: [
+        "image/jpeg",
+        "image/png",
+        "image/webp",
+        "image/gif",
+        "image/avif",
+      ],
+      adminThumbnail: "thumbnail",
+      // Editors pick a focal point; every size below is cropped around it
+      focalPoint: true,
+      crop: true,
+      imageSizes: [
+        { name: "thumbnail", width: 300, height: 300, position: "centre" },
+        { name: "card", width: 768, height: 432, position: "centre" },
+        { name: "hero", width: 1920, height: 1080, position: "centre" },
+      ],
+    },
+    fields: [
+      {
+        name: "alt",
+        type: "text",
+        required: true,
+        localized: true,
+        label: "Alt Text",
+        admin: { description: "Describes the image for screen readers" },
+      },
     ],
   },
 
@@ -271,6 +2898,9 @@ const collections: CollectionConfig[] = [
     },
     access: {
       read: () => true,
+      create: isAdminOrEditor,
+      update: isAdminOrEditor,
+      delete: isAdminOrEditor,
     },
     fields: [
       // Group: Basic Fields
@@ -480,22 +3110,389 @@ const collections: CollectionConfig[] = [
       },
     ],
   },
+
+  // ----------------------------------------------------------------------------
+  // WEBHOOKS - Admin-registered receivers for content events
+  // ----------------------------------------------------------------------------
+  {
+    slug: "webhooks",
+    labels: { singular: "Webhook", plural: "Webhooks" },
+    admin: {
+      useAsTitle: "name",
+      group: "Webhooks",
+      defaultColumns: ["name", "url", "events", "active"],
+      description:
+        "Signed POST requests sent when content changes. Test one with POST /api/webhooks/:id/ping.",
+    },
+    access: {
+      read: isAdmin,
+      create: isAdmin,
+      update: isAdmin,
+      delete: isAdmin,
+    },
+    endpoints: [pingWebhookEndpoint],
+    fields: [
+      { name: "name", type: "text", required: true },
+      {
+        name: "url",
+        type: "text",
+        required: true,
+        label: "Target URL",
+        validate: (value: string | null | undefined) => {
+          try {
+            const { protocol } = new URL(value ?? "");
+            return protocol === "http:" || protocol === "https:"
+              ? true
+              : "Must be an http(s) URL";
+          } catch {
+            return "Must be a valid URL";
+          }
+        },
+      },
+      {
+        name: "events",
+        type: "select",
+        hasMany: true,
+        required: true,
+        options: webhookEvents.map((event) => ({ label: event, value: event })),
+      },
+      {
+        name: "secret",
+        type: "text",
+        required: true,
+        label: "Signing Secret",
+        admin: {
+          description:
+            "Used to sign each request (HMAC-SHA256, x-webhook-signature header)",
+        },
+      },
+      {
+        name: "active",
+        type: "checkbox",
+        defaultValue: true,
+        admin: { position: "sidebar" },
+      },
+    ],
+  },
+
+  // ----------------------------------------------------------------------------
+  // WEBHOOK DELIVERIES - Read-only delivery log written by the job queue
+  // ----------------------------------------------------------------------------
+  {
+    slug: "webhook-deliveries",
+    labels: { singular: "Webhook Delivery", plural: "Webhook Deliveries" },
+    admin: {
+      useAsTitle: "event",
+      group: "Webhooks",
+      defaultColumns: [
+        "event",
+        "webhook",
+        "status",
+        "responseStatus",
+        "attempts",
+        "updatedAt",
+      ],
+    },
+    access: {
+      read: isAdmin,
+      create: () => false,
+      update: () => false,
+      delete: isAdmin,
+    },
+    endpoints: [redeliverWebhookEndpoint],
+    fields: [
+      {
+        name: "webhook",
+        type: "relationship",
+        relationTo: "webhooks" as CollectionSlug,
+        required: true,
+      },
+      {
+        name: "event",
+        type: "select",
+        required: true,
+        options: [...webhookEvents, "ping"].map((event) => ({
+          label: event,
+          value: event,
+        })),
+      },
+      {
+        name: "status",
+        type: "select",
+        required: true,
+        defaultValue: "pending",
+        options: [
+          { label: "Pending", value: "pending" },
+          { label: "Retrying", value: "retrying" },
+          { label: "Succeeded", value: "succeeded" },
+          { label: "Failed", value: "failed" },
+        ],
+      },
+      { name: "payload", type: "json" },
+      {
+        type: "row",
+        fields: [
+          { name: "attempts", type: "number", defaultValue: 0 },
+          { name: "responseStatus", type: "number", label: "Response Code" },
+          { name: "durationMs", type: "number", label: "Duration (ms)" },
+        ],
+      },
+      { name: "responseBody", type: "textarea" },
+      { name: "error", type: "text" },
+      { name: "deliveredAt", type: "date" },
+      {
+        name: "redeliveryOf",
+        type: "relationship",
+        relationTo: "webhook-deliveries" as CollectionSlug,
+        admin: { position: "sidebar" },
+      },
+      {
+        name: "redeliver",
+        type: "ui",
+        admin: {
+          position: "sidebar",
+          components: {
+            Field: "app/(payload)/components/RedeliverButton#default",
+          },
+        },
+      },
+    ],
+  },
 ];
 
+// ----------------------------------------------------------------------------
+// AUDIT LOGS - Read-only history written by the shared audit hooks
+// ----------------------------------------------------------------------------
+const auditLogsCollection: CollectionConfig = {
+  slug: "audit-logs",
+  labels: { singular: "Audit Log", plural: "Audit Logs" },
+  admin: {
+    useAsTitle: "changedFields",
+    group: "System",
+    defaultColumns: [
+      "createdAt",
+      "userEmail",
+      "operation",
+      "collectionSlug",
+      "documentId",
+      "changedFields",
+    ],
+    listSearchableFields: ["documentId", "userEmail", "changedFields"],
+    description:
+      "Every create, update and delete. Use Filters to narrow by user, collection or date range.",
+  },
+  defaultSort: "-createdAt",
+  access: {
+    read: isAdmin,
+    create: () => false,
+    update: () => false,
+    delete: () => false,
+  },
+  fields: [
+    {
+      name: "operation",
+      type: "select",
+      required: true,
+      options: [
+        { label: "Create", value: "create" },
+        { label: "Update", value: "update" },
+        { label: "Delete", value: "delete" },
+      ],
+    },
+    {
+      name: "collectionSlug",
+      type: "select",
+      label: "Collection",
+      index: true,
+      options: collections
+        .filter(({ slug }) => !AUDIT_EXCLUDED_COLLECTIONS.has(slug))
+        .map(({ slug }) => ({ label: slug, value: slug })),
+    },
+    {
+      name: "globalSlug",
+      type: "select",
+      label: "Global",
+      options: [{ label: siteSettingsGlobal.slug, value: siteSettingsGlobal.slug }],
+    },
+    { name: "documentId", type: "text", label: "Document ID", index: true },
+    { name: "locale", type: "text" },
+    {
+      name: "user",
+      type: "relationship",
+      relationTo: "users" as CollectionSlug,
+      index: true,
+    },
+    {
+      // Kept alongside the relationship so entries survive user deletion
+      name: "userEmail",
+      type: "text",
+      label: "User Email",
+    },
+    { name: "changedFields", type: "text", label: "Changed Fields" },
+    {
+      name: "changes",
+      type: "json",
+      admin: { description: "Field-level diff: { field: { from, to } }" },
+    },
+  ],
+};
+
+// ----------------------------------------------------------------------------
+// SEARCH INDEX - Entries maintained by the search hooks, queried by /api/search
+// ----------------------------------------------------------------------------
+const searchIndexCollection: CollectionConfig = {
+  slug: "search-index",
+  labels: { singular: "Search Entry", plural: "Search Index" },
+  admin: {
+    useAsTitle: "title",
+    group: "System",
+    defaultColumns: ["title", "doc", "locale", "published", "updatedAt"],
+    description:
+      "One entry per post, author and category in each locale, kept up to date on save. POST /api/search/reindex rebuilds it.",
+  },
+  access: {
+    read: isAdminOrEditor,
+    create: () => false,
+    update: () => false,
+    delete: () => false,
+  },
+  fields: [
+    {
+      name: "doc",
+      type: "relationship",
+      relationTo: [postsSlug, authorsSlug, categoriesSlug],
+      required: true,
+      index: true,
+    },
+    { name: "locale", type: "text", required: true, index: true },
+    { name: "title", type: "text", required: true },
+    {
+      name: "body",
+      type: "textarea",
+      admin: { description: "Plain text searched alongside the title" },
+    },
+    { name: "url", type: "text", required: true },
+    {
+      name: "published",
+      type: "checkbox",
+      index: true,
+      admin: { description: "Unpublished posts only show up for logged-in users" },
+    },
+  ],
+};
+
+// ----------------------------------------------------------------------------
+// TRANSLATION STATUS - Entries maintained by the translation hooks
+// ----------------------------------------------------------------------------
+const translationStatusCollection: CollectionConfig = {
+  slug: "translation-status",
+  labels: { singular: "Translation Status", plural: "Translation Status" },
+  admin: {
+    useAsTitle: "title",
+    group: "System",
+    defaultColumns: ["title", "collectionSlug", "locale", "status", "updatedAt"],
+    description:
+      "One entry per document and translated locale, kept up to date on save. Work through them in the Translations view.",
+  },
+  defaultSort: "-updatedAt",
+  access: {
+    read: isAdminOrEditor,
+    create: () => false,
+    update: () => false,
+    delete: () => false,
+  },
+  endpoints: [
+    rebuildTranslationStatusEndpoint,
+    markTranslationDoneEndpoint,
+    machineTranslateEndpoint,
+  ],
+  fields: [
+    {
+      name: "title",
+      type: "text",
+      required: true,
+      admin: { description: "The document's title in the default locale" },
+    },
+    {
+      name: "collectionSlug",
+      type: "select",
+      label: "Collection",
+      index: true,
+      options: TRANSLATION_COLLECTIONS.map((slug) => ({ label: slug, value: slug })),
+    },
+    {
+      name: "globalSlug",
+      type: "select",
+      label: "Global",
+      options: [{ label: siteSettingsGlobal.slug, value: siteSettingsGlobal.slug }],
+    },
+    {
+      name: "documentId",
+      type: "text",
+      label: "Document ID",
+      required: true,
+      index: true,
+    },
+    { name: "locale", type: "text", required: true, index: true },
+    {
+      name: "status",
+      type: "select",
+      required: true,
+      index: true,
+      options: TRANSLATION_STATES.map((state) => ({
+        label: state.charAt(0).toUpperCase() + state.slice(1),
+        value: state,
+      })),
+    },
+    {
+      name: "missingFields",
+      type: "text",
+      hasMany: true,
+      admin: { description: "Translated in the default locale, empty here" },
+    },
+    {
+      name: "machineTranslatedFields",
+      type: "text",
+      hasMany: true,
+      admin: { description: "Machine-translated and not reviewed yet" },
+    },
+    {
+      // `{ [path]: fingerprint }` of the machine translations handed out
+      name: "machineTranslations",
+      type: "json",
+      admin: { hidden: true },
+    },
+    {
+      name: "sourceChangedAt",
+      type: "date",
+      label: "Source Changed",
+      admin: { date: { pickerAppearance: "dayAndTime" } },
+    },
+    {
+      name: "translatedAt",
+      type: "date",
+      label: "Translated",
+      admin: { date: { pickerAppearance: "dayAndTime" } },
+    },
+  ],
+};
+
 // ============================================================================
 // PAYLOAD CONFIG
 // ============================================================================
 
 export default buildConfig({
   editor: lexicalEditor(),
-  collections,
-  globals: [siteSettingsGlobal],
+  collections: [
+    ...collections.map(withImportExport).map(withAuditLog),
+    auditLogsCollection,
+    searchIndexCollection,
+    translationStatusCollection,
+  ],
+  globals: [withGlobalAuditLog(siteSettingsGlobal)],
   localization: {
-    locales: [
-      { code: "en", label: "English" },
-      { code: "zh", label: "中文" },
-    ],
-    defaultLocale: "en",
+    locales: LOCALES.map((locale) => ({ ...locale })),
+    defaultLocale: DEFAULT_LOCALE,
     fallback: true,
   },
   i18n: {
@@ -518,18 +3515,76 @@ export default buildConfig({
       },
     },
   },
+  // Job queue powering scheduled publishing and webhook delivery. Queued jobs
+  // are picked up in-process; `GET /api/payload-jobs/run` runs them on demand.
+  jobs: {
+    access: {
+      run: canRunJobs,
+    },
+    tasks: [deliverWebhookTask],
+    autoRun: [
+      { cron: "* * * * *", queue: "default", limit: 50 },
+      { cron: "*/10 * * * * *", queue: "webhooks", limit: 20 },
+    ],
+    shouldAutoRun: () => process.env.DISABLE_JOBS_AUTORUN !== "true",
+    jobsCollectionOverrides: ({ defaultJobsCollection }) => ({
+      ...defaultJobsCollection,
+      admin: {
+        ...defaultJobsCollection.admin,
+        group: "System",
+        hidden: ({ user }) => user?.role !== "admin",
+      },
+    }),
+  },
   // Root-level custom endpoints
-  endpoints: [healthEndpoint],
+  endpoints: [
+    healthEndpoint,
+    healthLiveEndpoint,
+    healthReadyEndpoint,
+    searchEndpoint,
+    searchReindexEndpoint,
+    seedEndpoint,
+  ],
+  graphQL: {
+    queries: postsInCategoryQuery,
+  },
+  onInit: () => {
+    recordPayloadInit();
+  },
   admin: {
-    // Custom admin components would go here
+    user: "users",
+    components: {
+      afterNavLinks: ["app/(payload)/components/TranslationsNavLink#default"],
+      views: {
+        // /admin/translations - documents with missing or outdated translations
+        translations: {
+          Component: "app/(payload)/components/TranslationsView#default",
+          path: "/translations",
+        },
+        // /admin/import?collection=<slug> - file upload, preview and report
+        import: {
+          Component: "app/(payload)/components/ImportView#default",
+          path: "/import",
+        },
+      },
+    },
     // Note: SaveButton override requires proper component path registration
   },
+  // Applies to every upload collection (currently only `media`)
+  upload: {
+    limits: {
+      fileSize: 5_000_000, // 5 MB
+    },
+  },
   secret: process.env.PAYLOAD_SECRET || "dev-secret-change-in-production",
   db: sqliteAdapter({
     client: {
       url: process.env.DATABASE_URL || "file:./payload.sqlite",
       authToken: process.env.DATABASE_AUTH_TOKEN,
     },
+    // SQLite transactions are opt-in; bulk post operations rely on them to
+    // roll back a failed batch
+    transactionOptions: {},
   }),
   sharp,
 });
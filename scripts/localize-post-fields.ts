@@ -0,0 +1,121 @@
+// One-off data move for databases created before post excerpts and content
+// became localized. Schema push moves those fields from `posts` (and
+// `_posts_v`) to the `*_locales` tables and drops the old columns, so their
+// values would be lost. Run this once BEFORE starting the app on such a
+// database:
+//
+//   pnpm migrate:localize-posts
+//
+// It copies every excerpt and body, current and versioned, into the default
+// locale and leaves the old columns for the next push to drop (answer "yes"
+// to its data loss prompt once this has run). Running it again, or on a
+// database that never had the old columns, changes nothing.
+import { sql } from "@payloadcms/db-sqlite";
+import { getPayload } from "payload";
+import config from "../payload.config";
+
+// Connect without pushing the schema, which would drop the columns first
+process.env.PAYLOAD_MIGRATING = "true";
+process.env.DISABLE_JOBS_AUTORUN = "true";
+
+const payload = await getPayload({ config });
+const { drizzle } = payload.db;
+
+const TABLES = [
+  { table: "posts", prefix: "" },
+  { table: "_posts_v", prefix: "version_" },
+];
+const FIELDS = ["excerpt", "content"];
+
+const columnsOf = async (table: string) =>
+  new Set(
+    (
+      await drizzle.all<{ name: string }>(
+        sql.raw(`SELECT name FROM pragma_table_info('${table}')`)
+      )
+    ).map(({ name }) => name)
+  );
+
+try {
+  const locale = payload.config.localization
+    ? payload.config.localization.defaultLocale
+    : "en";
+
+  for (const { table, prefix } of TABLES) {
+    const locales = `${table}_locales`;
+    const columns = FIELDS.map((field) => `${prefix}${field}`);
+    const existing = await columnsOf(table);
+
+    if (existing.size === 0) {
+      console.log(`[MIGRATE] ${table}: no such table, nothing to copy`);
+      continue;
+    }
+    if (!columns.every((column) => existing.has(column))) {
+      console.log(`[MIGRATE] ${table}: already localized, nothing to copy`);
+      continue;
+    }
+
+    const localized = await columnsOf(locales);
+    if (localized.size === 0) {
+      throw new Error(`${locales} is missing; start the app once first`);
+    }
+    for (const column of columns) {
+      if (!localized.has(column)) {
+        await drizzle.run(
+          sql.raw(`ALTER TABLE \`${locales}\` ADD COLUMN \`${column}\` text`)
+        );
+      }
+    }
+
+    // Documents without a default-locale row yet get one. Before drafts the
+    // title column is NOT NULL; such a row takes the title readers of the
+    // default locale were already shown through the locale fallback.
+    const [titleColumn] = await drizzle.all<{ notnull: number }>(
+      sql.raw(
+        `SELECT "notnull" FROM pragma_table_info('${locales}')
+         WHERE name = '${prefix}title'`
+      )
+    );
+    const title = titleColumn?.notnull
+      ? {
+          column: `, \`${prefix}title\``,
+          value: `, COALESCE((SELECT t.\`${prefix}title\` FROM \`${locales}\` t
+              WHERE t._parent_id = d.id AND t.\`${prefix}title\` IS NOT NULL
+              LIMIT 1), '')`,
+        }
+      : { column: "", value: "" };
+    await drizzle.run(
+      sql.raw(
+        `INSERT INTO \`${locales}\` (\`_locale\`, \`_parent_id\`${title.column})
+         SELECT '${locale}', d.id${title.value} FROM \`${table}\` d
+         WHERE (${columns.map((c) => `d.\`${c}\` IS NOT NULL`).join(" OR ")})
+           AND NOT EXISTS (
+             SELECT 1 FROM \`${locales}\` l
+             WHERE l._parent_id = d.id AND l._locale = '${locale}'
+           )`
+      )
+    );
+
+    // Values already saved in the locale table win
+    const result = await drizzle.run(
+      sql.raw(
+        `UPDATE \`${locales}\` SET ${columns
+          .map(
+            (c) =>
+              `\`${c}\` = COALESCE(\`${c}\`, (SELECT d.\`${c}\` FROM \`${table}\` d WHERE d.id = \`${locales}\`._parent_id))`
+          )
+          .join(", ")}
+         WHERE _locale = '${locale}'`
+      )
+    );
+    console.log(
+      `[MIGRATE] ${table}: copied ${columns.join(", ")} into ${locale} (${result.rowsAffected} rows)`
+    );
+  }
+
+  console.log("[MIGRATE] Done. Start the app and accept the schema push.");
+  process.exit(0);
+} catch (error) {
+  console.error("[MIGRATE] Failed:", error);
+  process.exit(1);
+}
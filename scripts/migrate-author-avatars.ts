@@ -0,0 +1,131 @@
+// One-off data move for databases created before author avatars were
+// uploads. `avatar` used to hold an image URL; it is now a relationship to
+// `media`, and schema push drops the old column with every URL in it. Run
+// this twice on such a database:
+//
+//   pnpm migrate:author-avatars   # before starting the app
+//   (start the app once and accept the schema push)
+//   pnpm migrate:author-avatars   # again, with the media table in place
+//
+// The first run keeps each author's URL in Payload's key-value store, which
+// the push leaves alone. The second downloads every image into `media`, alt
+// text being the author's name, and sets it as the avatar. URLs that can't be
+// imported are listed and kept for another run; running it again after they
+// are all done, or on a database that never had URLs, changes nothing.
+import { sql } from "@payloadcms/db-sqlite";
+import path from "node:path";
+import { getPayload } from "payload";
+import config from "../payload.config";
+
+// Connect without pushing the schema, which would drop the column first
+process.env.PAYLOAD_MIGRATING = "true";
+process.env.DISABLE_JOBS_AUTORUN = "true";
+
+// Author ID -> avatar URL, for the authors still to import
+const KV_KEY = "migrate-author-avatars";
+
+const payload = await getPayload({ config });
+const { drizzle } = payload.db;
+
+const columnsOf = async (table: string) =>
+  new Set(
+    (
+      await drizzle.all<{ name: string }>(
+        sql.raw(`SELECT name FROM pragma_table_info('${table}')`)
+      )
+    ).map(({ name }) => name)
+  );
+
+// The URL's own file name, or one named after the author
+const fileNameOf = (url: string, authorId: string, mimetype: string) => {
+  const name = path.basename(new URL(url).pathname);
+  return path.extname(name)
+    ? name
+    : `avatar-${authorId}.${mimetype.split("/")[1]}`;
+};
+
+try {
+  const columns = await columnsOf("authors");
+  const pending =
+    (await payload.kv.get<Record<string, string>>(KV_KEY)) ?? {};
+
+  if (columns.has("avatar")) {
+    const rows = await drizzle.all<{ id: number; avatar: string }>(
+      sql.raw(
+        `SELECT id, avatar FROM \`authors\`
+         WHERE avatar IS NOT NULL AND trim(avatar) != ''`
+      )
+    );
+    for (const { id, avatar } of rows) pending[id] = avatar.trim();
+    await payload.kv.set(KV_KEY, pending);
+    console.log(`[MIGRATE] authors: kept ${rows.length} avatar URLs`);
+  } else {
+    console.log("[MIGRATE] authors: no avatar URL column, nothing to keep");
+  }
+
+  if (!columns.has("avatar_id")) {
+    console.log(
+      '[MIGRATE] Start the app, accept the schema push (answer "create" for authors.avatar_id), then run this again to import the avatars.'
+    );
+    process.exit(0);
+  }
+
+  const failed: string[] = [];
+  for (const [authorId, url] of Object.entries(pending)) {
+    try {
+      const author = await payload.findByID({
+        collection: "authors",
+        id: Number(authorId),
+        depth: 0,
+        disableErrors: true,
+      });
+      if (author && !author.avatar) {
+        const response = await fetch(url, {
+          signal: AbortSignal.timeout(30_000),
+        });
+        if (!response.ok) {
+          throw new Error(`${response.status} ${response.statusText}`);
+        }
+        const data = Buffer.from(await response.arrayBuffer());
+        const mimetype =
+          response.headers.get("content-type")?.split(";")[0].trim() ?? "";
+
+        const media = await payload.create({
+          collection: "media",
+          data: { alt: author.name },
+          file: {
+            data,
+            mimetype,
+            name: fileNameOf(url, authorId, mimetype),
+            size: data.length,
+          },
+        });
+        await payload.update({
+          collection: "authors",
+          id: author.id,
+          data: { avatar: media.id },
+        });
+      }
+      delete pending[authorId];
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      failed.push(`  author ${authorId}: ${url} (${message})`);
+    }
+  }
+
+  if (failed.length > 0) {
+    await payload.kv.set(KV_KEY, pending);
+    console.log(
+      `[MIGRATE] authors: ${failed.length} avatars could not be imported and are kept for the next run:\n${failed.join("\n")}`
+    );
+  } else {
+    await payload.kv.delete(KV_KEY);
+    console.log("[MIGRATE] authors: every kept avatar is imported");
+  }
+
+  console.log("[MIGRATE] Done.");
+  process.exit(0);
+} catch (error) {
+  console.error("[MIGRATE] Failed:", error);
+  process.exit(1);
+}
@@ -0,0 +1,99 @@
+// One-off data move for databases created before posts had drafts. The old
+// `status` select gave way to Payload's own `_status`, and schema push drops
+// the `status` column: a published post would come back as a draft, hidden
+// from visitors. Run this twice on such a database:
+//
+//   pnpm migrate:post-status   # before starting the app
+//   (start the app once and accept the schema push)
+//   pnpm migrate:post-status   # again, with the new tables in place
+//
+// The first run copies every `status` into `_status`. The second gives each
+// post without a version history its initial version, published or draft as
+// the post is, so the admin's edit view and Versions tab start from it.
+// Running it again, or on a database that never had `status`, changes
+// nothing.
+import { sql } from "@payloadcms/db-sqlite";
+import { getPayload } from "payload";
+import config from "../payload.config";
+
+// Connect without pushing the schema, which would drop the column first
+process.env.PAYLOAD_MIGRATING = "true";
+process.env.DISABLE_JOBS_AUTORUN = "true";
+
+const payload = await getPayload({ config });
+const { drizzle } = payload.db;
+
+const columnsOf = async (table: string) =>
+  new Set(
+    (
+      await drizzle.all<{ name: string }>(
+        sql.raw(`SELECT name FROM pragma_table_info('${table}')`)
+      )
+    ).map(({ name }) => name)
+  );
+
+try {
+  const columns = await columnsOf("posts");
+  const versions = await columnsOf("_posts_v");
+
+  if (columns.has("status")) {
+    if (!columns.has("_status")) {
+      await drizzle.run(
+        sql.raw("ALTER TABLE `posts` ADD COLUMN `_status` text DEFAULT 'draft'")
+      );
+    }
+    const result = await drizzle.run(
+      sql.raw(
+        `UPDATE \`posts\` SET \`_status\` = \`status\`
+         WHERE \`status\` IN ('draft', 'published')`
+      )
+    );
+    console.log(
+      `[MIGRATE] posts: copied status into _status (${result.rowsAffected} rows)`
+    );
+  } else {
+    console.log("[MIGRATE] posts: no status column, nothing to copy");
+  }
+
+  if (versions.size === 0) {
+    console.log(
+      "[MIGRATE] Start the app, accept the schema push, then run this again to create the initial versions."
+    );
+    process.exit(0);
+  }
+
+  const missing = await drizzle.all<{ id: number }>(
+    sql.raw(
+      `SELECT p.id FROM \`posts\` p
+       WHERE NOT EXISTS (SELECT 1 FROM \`_posts_v\` v WHERE v.parent_id = p.id)
+       ORDER BY p.id`
+    )
+  );
+  for (const { id } of missing) {
+    const post = await payload.findByID({
+      collection: "posts",
+      id,
+      locale: "all",
+      depth: 0,
+      overrideAccess: true,
+    });
+    // Dated like the post itself rather than the upgrade
+    await payload.db.createVersion({
+      collectionSlug: "posts",
+      parent: id,
+      versionData: post,
+      autosave: false,
+      createdAt: post.createdAt,
+      updatedAt: post.updatedAt,
+    });
+  }
+  console.log(
+    `[MIGRATE] _posts_v: created the initial version of ${missing.length} posts`
+  );
+
+  console.log("[MIGRATE] Done.");
+  process.exit(0);
+} catch (error) {
+  console.error("[MIGRATE] Failed:", error);
+  process.exit(1);
+}
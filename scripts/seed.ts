@@ -0,0 +1,24 @@
+// Seeds the database with the demo content from lib/seed.ts.
+//
+//   pnpm seed          creates whatever is missing
+//   pnpm seed:reset    deletes all content first
+//
+// Uses DATABASE_URL like the app; stop `pnpm dev` first when both point at
+// the same SQLite file, or POST /api/seed to the running server instead.
+import { getPayload } from "payload";
+import config from "../payload.config";
+import { seed, SEED_PASSWORD } from "../lib/seed";
+
+const payload = await getPayload({ config });
+
+try {
+  const result = await seed(payload, {
+    reset: process.argv.slice(2).includes("reset"),
+  });
+  console.log(`Seeded. Sign in as admin@example.com / ${SEED_PASSWORD}`);
+  console.log(JSON.stringify(result, null, 2));
+  process.exit(0);
+} catch (error) {
+  console.error("Seeding failed:", error);
+  process.exit(1);
+}
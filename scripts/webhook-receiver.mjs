@@ -0,0 +1,62 @@
+// Local webhook receiver for testing deliveries end to end.
+//
+//   WEBHOOK_SECRET=dev-secret pnpm webhooks:receiver
+//
+// Register http://localhost:4000/webhooks in the admin with the same secret.
+// FAIL_FIRST=n answers the first n requests with HTTP 500 so you can watch
+// the retries and backoff in the "Webhook Deliveries" log.
+import { createServer } from "node:http";
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+const port = Number(process.env.PORT ?? 4000);
+const secret = process.env.WEBHOOK_SECRET ?? "dev-secret";
+let failuresLeft = Number(process.env.FAIL_FIRST ?? 0);
+
+// Same scheme as lib/webhooks.ts: t=<unix>,v1=hmac_sha256("<t>.<body>").
+// Timestamps older than five minutes are rejected so a captured request
+// cannot be replayed later.
+const TOLERANCE_SECONDS = 300;
+
+function verify(body, header) {
+  if (!header) return false;
+  const parts = Object.fromEntries(header.split(",").map((p) => p.split("=")));
+  const timestamp = Number(parts.t);
+  if (!Number.isFinite(timestamp) || !parts.v1) return false;
+  if (Math.abs(Date.now() / 1000 - timestamp) > TOLERANCE_SECONDS) {
+    return false;
+  }
+
+  const expected = createHmac("sha256", secret)
+    .update(`${parts.t}.${body}`)
+    .digest();
+  const actual = Buffer.from(parts.v1, "hex");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    const event = req.headers["x-webhook-event"];
+    const valid = verify(body, req.headers["x-webhook-signature"]);
+
+    if (!valid) {
+      console.log(`[RECEIVER] ✗ ${event}: invalid or stale signature`);
+      res.writeHead(401).end("invalid signature");
+      return;
+    }
+
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      console.log(`[RECEIVER] ✗ ${event}: simulated failure`);
+      res.writeHead(500).end("simulated failure");
+      return;
+    }
+
+    console.log(`[RECEIVER] ✓ ${event}`, JSON.parse(body));
+    res.writeHead(200, { "content-type": "application/json" });
+    res.end(JSON.stringify({ received: true }));
+  });
+}).listen(port, () => {
+  console.log(`[RECEIVER] Listening on http://localhost:${port}/webhooks`);
+});
@@ -0,0 +1,144 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { fixtureId, resetDatabase, rest } from "./harness";
+
+// Collection access rules for each role, through Payload's REST API. No test
+// depends on another's writes, so one seeded database serves the file.
+
+beforeAll(async () => {
+  await resetDatabase();
+});
+
+const totalDocs = async (response: Response) =>
+  (await response.json()).totalDocs;
+
+describe("posts", () => {
+  it("are published-only for anonymous visitors", async () => {
+    expect(await totalDocs(await rest("GET", "/api/posts"))).toBe(4);
+    expect(
+      await totalDocs(await rest("GET", "/api/posts", { as: "viewer" }))
+    ).toBe(5);
+  });
+
+  it("can't be created by viewers", async () => {
+    const response = await rest("POST", "/api/posts", {
+      as: "viewer",
+      body: { title: "Viewer Post", author: 1 },
+    });
+    expect(response.status).toBe(403);
+  });
+
+  it("can be created by authors for their own author only", async () => {
+    const own = await rest("POST", "/api/posts", {
+      as: "author",
+      body: {
+        title: "Ada's Post",
+        author: await fixtureId("authors", "Ada Lovelace"),
+      },
+    });
+    const other = await rest("POST", "/api/posts", {
+      as: "author",
+      body: {
+        title: "Grace's Post",
+        author: await fixtureId("authors", "Grace Hopper"),
+      },
+    });
+
+    expect(own.status).toBe(201);
+    expect(other.status).toBe(403);
+  });
+
+  it("can be updated by authors when they wrote them", async () => {
+    const own = await fixtureId("posts", "a-translation-workflow-that-scales");
+    const other = await fixtureId("posts", "designing-for-two-languages");
+
+    const allowed = await rest("PATCH", `/api/posts/${own}`, {
+      as: "author",
+      body: { excerpt: "Edited by its author" },
+    });
+    const refused = await rest("PATCH", `/api/posts/${other}`, {
+      as: "author",
+      body: { excerpt: "Edited by someone else" },
+    });
+
+    expect(allowed.status).toBe(200);
+    expect(refused.status).toBe(403);
+  });
+
+  it("can be updated by editors but not deleted by viewers", async () => {
+    const id = await fixtureId("posts", "designing-for-two-languages");
+    const response = await rest("PATCH", `/api/posts/${id}`, {
+      as: "editor",
+      body: { excerpt: "Edited by an editor" },
+    });
+    expect(response.status).toBe(200);
+
+    const refused = await rest("DELETE", `/api/posts/${id}`, {
+      as: "viewer",
+    });
+    expect(refused.status).toBe(403);
+  });
+});
+
+describe("authors and categories", () => {
+  it("let authors edit their own profile only", async () => {
+    const own = await fixtureId("authors", "Ada Lovelace");
+    const other = await fixtureId("authors", "Alan Turing");
+
+    const allowed = await rest("PATCH", `/api/authors/${own}`, {
+      as: "author",
+      body: { bio: "Updated by Ada" },
+    });
+    const refused = await rest("PATCH", `/api/authors/${other}`, {
+      as: "author",
+      body: { bio: "Updated by Ada" },
+    });
+
+    expect(allowed.status).toBe(200);
+    expect(refused.status).toBe(403);
+  });
+
+  it("are created by editors and admins only", async () => {
+    const response = await rest("POST", "/api/categories", {
+      as: "author",
+      body: { title: "Poetry" },
+    });
+    expect(response.status).toBe(403);
+  });
+});
+
+describe("users", () => {
+  it("see only themselves unless they are admins", async () => {
+    expect(
+      await totalDocs(await rest("GET", "/api/users", { as: "editor" }))
+    ).toBe(1);
+    expect(
+      await totalDocs(await rest("GET", "/api/users", { as: "admin" }))
+    ).toBe(4);
+    expect((await rest("GET", "/api/users")).status).toBe(403);
+  });
+
+  it("can't change their own role", async () => {
+    const me = await (
+      await rest("GET", "/api/users/me", { as: "viewer" })
+    ).json();
+
+    await rest("PATCH", `/api/users/${me.user.id}`, {
+      as: "viewer",
+      body: { role: "admin" },
+    });
+
+    const after = await (
+      await rest("GET", "/api/users/me", { as: "viewer" })
+    ).json();
+    expect(after.user.role).toBe("viewer");
+  });
+});
+
+describe("POST /api/seed", () => {
+  it("is for admins once the database has users", async () => {
+    expect((await rest("POST", "/api/seed")).status).toBe(401);
+    expect((await rest("POST", "/api/seed", { as: "editor" })).status).toBe(
+      403
+    );
+  });
+});
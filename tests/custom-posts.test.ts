@@ -0,0 +1,209 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { sql } from "@payloadcms/db-sqlite";
+import { GET, POST } from "@/app/api/custom/posts/route";
+import { callRoute, fixtureId, getTestPayload, resetDatabase } from "./harness";
+
+// app/api/custom/posts/route.ts, the hand-written route next to Payload's
+// own /api/posts
+
+const PATH = "/api/custom/posts";
+
+beforeEach(async () => {
+  await resetDatabase();
+});
+
+describe("GET /api/custom/posts", () => {
+  it("shows anonymous callers published posts only", async () => {
+    const response = await callRoute(GET, "GET", `${PATH}?limit=100`);
+    const body = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(body.source).toBe("custom-api");
+    expect(body.totalDocs).toBe(4);
+    expect(body.docs.map(({ _status }: { _status: string }) => _status)).not
+      .toContain("draft");
+  });
+
+  it("shows signed-in users drafts too", async () => {
+    const response = await callRoute(GET, "GET", `${PATH}?status=draft`, {
+      as: "viewer",
+    });
+    const body = await response.json();
+
+    expect(body.docs.map(({ slug }: { slug: string }) => slug)).toEqual([
+      "upcoming-release-notes",
+    ]);
+  });
+
+  // Follows nextCursor from the first page to the last
+  const pageThrough = async (sort: string, limit: number) => {
+    const slugs: (string | null)[] = [];
+    let url: string | null = `${PATH}?sort=${sort}&limit=${limit}`;
+
+    // The first page is a regular one; its nextCursor starts keyset paging
+    for (let page = 0; url && page < 10; page++) {
+      const body = await (
+        await callRoute(GET, "GET", url, { as: "admin" })
+      ).json();
+      slugs.push(...body.docs.map(({ slug }: { slug: string }) => slug));
+      url = body.nextCursor
+        ? `${PATH}?sort=${sort}&limit=${limit}&cursor=${body.nextCursor}`
+        : null;
+    }
+    return slugs;
+  };
+
+  it("pages through every post with a cursor", async () => {
+    expect(await pageThrough("slug", 2)).toEqual([
+      "a-translation-workflow-that-scales",
+      "designing-for-two-languages",
+      "getting-started-with-payload",
+      "notes-on-the-analytical-engine",
+      "upcoming-release-notes",
+    ]);
+  });
+
+  it("pages past posts without a slug in either direction", async () => {
+    const payload = await getTestPayload();
+    const ids = [
+      await fixtureId("posts", "designing-for-two-languages"),
+      await fixtureId("posts", "notes-on-the-analytical-engine"),
+    ];
+    // Drafts-enabled collections allow it at the database level
+    await payload.db.drizzle.run(
+      sql.raw(`UPDATE posts SET slug = NULL WHERE id IN (${ids.join(", ")})`)
+    );
+
+    const ascending = [
+      null,
+      null,
+      "a-translation-workflow-that-scales",
+      "getting-started-with-payload",
+      "upcoming-release-notes",
+    ];
+    expect(await pageThrough("slug", 1)).toEqual(ascending);
+    expect(await pageThrough("-slug", 1)).toEqual([...ascending].reverse());
+  });
+
+  it("answers bad parameters with their paths", async () => {
+    const response = await callRoute(
+      GET,
+      "GET",
+      `${PATH}?limit=0&sort=title&status=live&locale=fr`
+    );
+
+    expect(response.status).toBe(400);
+    expect(
+      (await response.json()).errors.map(({ path }: { path: string }) => path)
+    ).toEqual(["limit", "sort", "status", "locale"]);
+  });
+});
+
+describe("POST /api/custom/posts", () => {
+  it("requires a signed-in user", async () => {
+    const response = await callRoute(POST, "POST", PATH, {
+      body: { title: "Anonymous" },
+    });
+    expect(response.status).toBe(401);
+  });
+
+  it("forbids users who can't create posts", async () => {
+    const response = await callRoute(POST, "POST", PATH, {
+      as: "viewer",
+      body: { title: "From a viewer" },
+    });
+    expect(response.status).toBe(403);
+  });
+
+  it("falls back to a single API Bot author", async () => {
+    const payload = await getTestPayload();
+
+    const first = await callRoute(POST, "POST", PATH, {
+      as: "editor",
+      body: { title: "Written by the API" },
+    });
+    const second = await callRoute(POST, "POST", PATH, {
+      as: "admin",
+      body: { title: "Written by the API" },
+    });
+    const { created } = await first.json();
+
+    expect(first.status).toBe(201);
+    expect(created).toMatchObject({
+      slug: "written-by-the-api",
+      _status: "draft",
+      author: { name: "API Bot" },
+    });
+    expect((await second.json()).created).toMatchObject({
+      slug: "written-by-the-api-2",
+      author: { id: created.author.id },
+    });
+
+    // find, not count: count doesn't pass a locale for the localized `name`
+    const { docs } = await payload.find({
+      collection: "authors",
+      where: { name: { equals: "API Bot" } },
+      pagination: false,
+    });
+    expect(docs).toHaveLength(1);
+  });
+
+  it("uses the caller's own author when they have one", async () => {
+    const response = await callRoute(POST, "POST", PATH, {
+      as: "author",
+      body: { title: "By Ada", status: "published" },
+    });
+
+    expect(response.status).toBe(201);
+    expect((await response.json()).created).toMatchObject({
+      _status: "published",
+      author: { id: await fixtureId("authors", "Ada Lovelace") },
+    });
+  });
+
+  it("keeps an explicit author", async () => {
+    const authorId = await fixtureId("authors", "Alan Turing");
+    const response = await callRoute(POST, "POST", PATH, {
+      as: "editor",
+      body: { title: "By Alan", authorId },
+    });
+
+    expect((await response.json()).created.author.id).toBe(authorId);
+  });
+
+  it("doesn't let an author write as someone else", async () => {
+    const response = await callRoute(POST, "POST", PATH, {
+      as: "author",
+      body: {
+        title: "Not by Ada",
+        authorId: await fixtureId("authors", "Grace Hopper"),
+      },
+    });
+    expect(response.status).toBe(403);
+  });
+
+  it("answers bad input with its paths", async () => {
+    const response = await callRoute(POST, "POST", PATH, {
+      as: "admin",
+      body: { title: " ", status: "live", categoryIds: [1, "x"], color: 1 },
+    });
+
+    expect(response.status).toBe(400);
+    expect(
+      (await response.json()).errors.map(({ path }: { path: string }) => path)
+    ).toEqual(["color", "title", "status", "categoryIds.1"]);
+  });
+
+  it("rejects authors and categories that don't exist", async () => {
+    const response = await callRoute(POST, "POST", PATH, {
+      as: "admin",
+      body: { title: "Dangling", authorId: 999, categoryIds: [1, 998] },
+    });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).errors).toEqual([
+      { path: "authorId", message: "No author with ID 999" },
+      { path: "categoryIds.1", message: "No category with ID 998" },
+    ]);
+  });
+});
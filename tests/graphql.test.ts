@@ -0,0 +1,115 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { fixtureId, graphql, resetDatabase } from "./harness";
+
+// POST /api/graphql: the generated schema and the custom PostsInCategory
+// query
+
+beforeAll(async () => {
+  await resetDatabase();
+});
+
+type PostsResult = { docs: { slug: string }[]; totalDocs: number };
+
+const POSTS_IN_CATEGORY = `
+  query ($category: Int!, $subcategories: Boolean) {
+    PostsInCategory(category: $category, subcategories: $subcategories) {
+      totalDocs
+      docs { slug }
+    }
+  }
+`;
+
+const slugs = (result: PostsResult | undefined) =>
+  result?.docs.map(({ slug }) => slug);
+
+describe("Posts", () => {
+  it("applies the posts read access", async () => {
+    const query = `{ Posts { totalDocs } }`;
+
+    expect((await graphql(query)).data).toEqual({ Posts: { totalDocs: 4 } });
+    expect((await graphql(query, {}, { as: "viewer" })).data).toEqual({
+      Posts: { totalDocs: 5 },
+    });
+  });
+
+  it("reads a post in another locale", async () => {
+    const { data } = await graphql<{ Post: { title: string } }>(
+      `query ($id: Int!) { Post(id: $id, locale: zh) { title } }`,
+      { id: await fixtureId("posts", "getting-started-with-payload") }
+    );
+
+    expect(data?.Post.title).toBe("Payload 入门");
+  });
+});
+
+describe("PostsInCategory", () => {
+  it("includes posts in subcategories, newest first", async () => {
+    const { data } = await graphql<{ PostsInCategory: PostsResult }>(
+      POSTS_IN_CATEGORY,
+      { category: await fixtureId("categories", "technology") },
+      { as: "admin" }
+    );
+
+    expect(slugs(data?.PostsInCategory)).toEqual([
+      "notes-on-the-analytical-engine",
+      "getting-started-with-payload",
+      "upcoming-release-notes",
+    ]);
+  });
+
+  it("can leave subcategories out", async () => {
+    const { data } = await graphql<{ PostsInCategory: PostsResult }>(
+      POSTS_IN_CATEGORY,
+      {
+        category: await fixtureId("categories", "technology"),
+        subcategories: false,
+      },
+      { as: "admin" }
+    );
+
+    expect(slugs(data?.PostsInCategory)).toEqual([
+      "notes-on-the-analytical-engine",
+      "getting-started-with-payload",
+    ]);
+  });
+
+  it("hides drafts from anonymous visitors", async () => {
+    const { data } = await graphql<{ PostsInCategory: PostsResult }>(
+      POSTS_IN_CATEGORY,
+      { category: await fixtureId("categories", "web-development") }
+    );
+
+    expect(slugs(data?.PostsInCategory)).toEqual([
+      "getting-started-with-payload",
+    ]);
+  });
+});
+
+describe("mutations", () => {
+  // `slug` is required in the schema, though the posts hook would fill it in
+  const CREATE_POST = `
+    mutation ($author: Int!) {
+      createPost(
+        data: { title: "From GraphQL", slug: "from-graphql", author: $author }
+      ) {
+        slug
+        _status
+      }
+    }
+  `;
+
+  it("create posts for users with access", async () => {
+    const author = await fixtureId("authors", "Ada Lovelace");
+
+    const refused = await graphql(CREATE_POST, { author }, { as: "viewer" });
+    expect(refused.data?.createPost).toBeNull();
+    expect(refused.errors?.[0].message).toBe(
+      "You are not allowed to perform this action."
+    );
+
+    const created = await graphql(CREATE_POST, { author }, { as: "editor" });
+    expect(created).toEqual({
+      data: { createPost: { slug: "from-graphql", _status: "draft" } },
+    });
+  });
+});
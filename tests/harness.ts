@@ -0,0 +1,163 @@
+import { GRAPHQL_POST } from "@payloadcms/next/routes";
+import {
+  getPayload,
+  handleEndpoints,
+  type CollectionSlug,
+  type Payload,
+} from "payload";
+import config from "@payload-config";
+import { seed, SEED_PASSWORD } from "@/lib/seed";
+import type { User } from "@/payload-types";
+
+// ============================================================================
+// Integration test harness: the real payload.config.ts, booted against the
+// temporary SQLite database tests/setup.ts gives every test file, and filled
+// with the lib/seed.ts fixtures. Tests reach it the ways clients do: the
+// Local API (`getTestPayload`), Payload's REST handlers (`rest`), GraphQL
+// (`graphql`) and the app's own route handlers (`callRoute`).
+// ============================================================================
+
+export const SERVER_URL = "http://localhost:3000";
+
+// The seeded accounts, `<role>@example.com`
+export type SeedRole = User["role"];
+
+export type RequestOptions = {
+  // Signed in as the seeded account with this role; anonymous when omitted
+  as?: SeedRole;
+  // Sent as JSON unless it is already a string
+  body?: unknown;
+  headers?: HeadersInit;
+};
+
+type RouteHandler = (req: Request) => Promise<Response>;
+
+// Cached per test file, like getPayload caches the instance
+const tokens = new Map<SeedRole, string>();
+
+export const getTestPayload = (): Promise<Payload> => getPayload({ config });
+
+// Back to exactly the seeded state; the seeded users are kept, so tokens
+// from `loginAs` stay valid
+export async function resetDatabase(): Promise<Payload> {
+  const payload = await getTestPayload();
+  await seed(payload, { reset: true });
+  return payload;
+}
+
+export async function loginAs(role: SeedRole): Promise<string> {
+  const cached = tokens.get(role);
+  if (cached) return cached;
+
+  const payload = await getTestPayload();
+  const { token } = await payload.login({
+    collection: "users",
+    data: { email: `${role}@example.com`, password: SEED_PASSWORD },
+  });
+  if (!token) throw new Error(`Could not sign in as ${role}@example.com`);
+
+  tokens.set(role, token);
+  return token;
+}
+
+// The seeded account, for Local API calls with `user` and
+// `overrideAccess: false`
+export async function userOf(role: SeedRole): Promise<User> {
+  const payload = await getTestPayload();
+  const {
+    docs: [user],
+  } = await payload.find({
+    collection: "users",
+    where: { email: { equals: `${role}@example.com` } },
+    depth: 0,
+    limit: 1,
+  });
+  if (!user) throw new Error(`No seeded user ${role}@example.com`);
+  return user;
+}
+
+// ID of the fixture with this slug, or this name for authors
+export async function fixtureId(
+  collection: CollectionSlug,
+  key: string
+): Promise<number> {
+  const payload = await getTestPayload();
+  const field = collection === "authors" ? "name" : "slug";
+  const {
+    docs: [doc],
+  } = await payload.find({
+    collection,
+    where: { [field]: { equals: key } },
+    depth: 0,
+    draft: true,
+    limit: 1,
+    locale: "en",
+  });
+  if (!doc) throw new Error(`No ${collection} fixture "${key}"`);
+  return doc.id as number;
+}
+
+export async function buildRequest(
+  method: string,
+  path: string,
+  { as, body, headers }: RequestOptions = {}
+): Promise<Request> {
+  const init = new Headers(headers);
+  if (as) init.set("Authorization", `JWT ${await loginAs(as)}`);
+  if (body !== undefined && !init.has("Content-Type")) {
+    init.set("Content-Type", "application/json");
+  }
+
+  return new Request(new URL(path, SERVER_URL), {
+    method,
+    headers: init,
+    body:
+      body === undefined || typeof body === "string"
+        ? body
+        : JSON.stringify(body),
+  });
+}
+
+// Payload's REST API, e.g. `rest("GET", "/api/posts/stats")`, through the
+// same handler app/(payload)/api/[...slug]/route.ts uses
+export async function rest(
+  method: "GET" | "POST" | "PATCH" | "PUT" | "DELETE",
+  path: string,
+  options?: RequestOptions
+): Promise<Response> {
+  return handleEndpoints({
+    config,
+    request: await buildRequest(method, path, options),
+  });
+}
+
+export type GraphQLResult<T> = {
+  data?: T;
+  errors?: { message: string; path?: string[] }[];
+};
+
+// POST /api/graphql
+export async function graphql<T = Record<string, unknown>>(
+  query: string,
+  variables?: Record<string, unknown>,
+  options?: Omit<RequestOptions, "body">
+): Promise<GraphQLResult<T>> {
+  const response = await GRAPHQL_POST(config)(
+    await buildRequest("POST", "/api/graphql", {
+      ...options,
+      body: { query, variables },
+    })
+  );
+  return response.json();
+}
+
+// A Next.js route handler outside Payload's REST API, e.g. the GET export of
+// app/api/custom/posts/route.ts
+export async function callRoute(
+  handler: RouteHandler,
+  method: string,
+  path: string,
+  options?: RequestOptions
+): Promise<Response> {
+  return handler(await buildRequest(method, path, options));
+}
@@ -0,0 +1,311 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { Payload } from "payload";
+import type { Category, Post } from "@/payload-types";
+import { fixtureId, resetDatabase, rest, userOf } from "./harness";
+
+// Collection hooks in payload.config.ts, through the Local API
+
+let payload: Payload;
+
+beforeEach(async () => {
+  payload = await resetDatabase();
+});
+
+// Left empty, the slug is generated by the hook under test
+const createPost = async (data: Partial<Post>) =>
+  payload.create({
+    collection: "posts",
+    data: {
+      title: "Hello Hooks",
+      slug: "",
+      author: await fixtureId("authors", "Ada Lovelace"),
+      _status: "draft",
+      ...data,
+    },
+  });
+
+describe("post slugs", () => {
+  it("are generated from the title, with a suffix when taken", async () => {
+    const first = await createPost({});
+    const second = await createPost({});
+
+    expect(first.slug).toBe("hello-hooks");
+    expect(second.slug).toBe("hello-hooks-2");
+  });
+
+  it("follow the title until the post is published", async () => {
+    const post = await createPost({});
+
+    const renamed = await payload.update({
+      collection: "posts",
+      id: post.id,
+      data: { title: "Renamed Draft", _status: "published" },
+    });
+    expect(renamed.slug).toBe("renamed-draft");
+
+    const live = await payload.update({
+      collection: "posts",
+      id: post.id,
+      data: { title: "Renamed After Publishing" },
+    });
+    expect(live.slug).toBe("renamed-draft");
+  });
+
+  it("come from the English title when the post is written in Chinese", async () => {
+    const post = await createPost({});
+    const translated = await payload.update({
+      collection: "posts",
+      id: post.id,
+      data: { title: "你好" },
+      locale: "zh",
+    });
+
+    expect(translated.slug).toBe("hello-hooks");
+  });
+
+  it("must be unique when typed by hand", async () => {
+    await expect(
+      createPost({ slug: "getting-started-with-payload" })
+    ).rejects.toMatchObject({
+      data: {
+        errors: [
+          {
+            path: "slug",
+            message:
+              'The slug "getting-started-with-payload" is already used by another post',
+          },
+        ],
+      },
+    });
+  });
+});
+
+describe("publishing", () => {
+  it("stamps publishedOn the first time only", async () => {
+    const id = await fixtureId("posts", "getting-started-with-payload");
+
+    const republished = await payload.update({
+      collection: "posts",
+      id,
+      data: { _status: "published", excerpt: "Updated" },
+    });
+    expect(republished.publishedOn).toBe("2025-01-15T09:00:00.000Z");
+
+    const draft = await payload.update({
+      collection: "posts",
+      id: await fixtureId("posts", "upcoming-release-notes"),
+      data: { _status: "published" },
+    });
+    expect(draft.publishedOn).toBeTruthy();
+  });
+
+  it("brings an archived post back", async () => {
+    const post = await createPost({ archived: true });
+
+    const published = await payload.update({
+      collection: "posts",
+      id: post.id,
+      data: { _status: "published" },
+    });
+    expect(published.archived).toBe(false);
+  });
+});
+
+describe("categories", () => {
+  const createCategory = (title: string, parent?: number) =>
+    payload.create({
+      collection: "categories",
+      data: { title, parent },
+      depth: 0,
+    });
+
+  it("record their lineage", async () => {
+    const frontend = await createCategory(
+      "Frontend",
+      await fixtureId("categories", "web-development")
+    );
+
+    expect(frontend.path).toBe("technology/web-development/frontend");
+    expect(frontend.ancestors).toEqual([
+      await fixtureId("categories", "technology"),
+      await fixtureId("categories", "web-development"),
+    ]);
+  });
+
+  it("update the paths below a renamed category", async () => {
+    const frontend = await createCategory(
+      "Frontend",
+      await fixtureId("categories", "web-development")
+    );
+
+    await payload.update({
+      collection: "categories",
+      id: await fixtureId("categories", "technology"),
+      data: { slug: "tech" },
+    });
+
+    const moved = await payload.findByID({
+      collection: "categories",
+      id: frontend.id,
+      depth: 0,
+    });
+    expect(moved.path).toBe("tech/web-development/frontend");
+  });
+
+  it("move subcategories up when their parent is deleted", async () => {
+    await payload.delete({
+      collection: "categories",
+      id: await fixtureId("categories", "technology"),
+    });
+
+    const orphan = await payload.findByID({
+      collection: "categories",
+      id: await fixtureId("categories", "web-development"),
+      depth: 0,
+    });
+    expect(orphan).toMatchObject({ parent: null, path: "web-development" });
+  });
+
+  it("look up every listed category's ancestors at once", async () => {
+    await createCategory(
+      "Frontend",
+      await fixtureId("categories", "web-development")
+    );
+    const find = vi.spyOn(payload, "find");
+
+    const { docs } = await payload.find({
+      collection: "categories",
+      where: { path: { like: "technology" } },
+      sort: "path",
+      depth: 0,
+    });
+
+    expect(find).toHaveBeenCalledTimes(2);
+    find.mockRestore();
+    expect(
+      docs.map(({ breadcrumbs }) => breadcrumbs?.map(({ slug }) => slug))
+    ).toEqual([
+      ["technology"],
+      ["technology", "web-development"],
+      ["technology", "web-development", "frontend"],
+    ]);
+  });
+
+  it("list the posts filed under them", async () => {
+    const design = await fixtureId("categories", "design");
+    const post = await createPost({ categories: [design] });
+
+    const category: Category = await payload.findByID({
+      collection: "categories",
+      id: design,
+      depth: 0,
+    });
+    expect(category.posts).toContain(post.id);
+  });
+
+  it("reject bad paging when listing their posts", async () => {
+    const technology = await fixtureId("categories", "technology");
+    const response = await rest(
+      "GET",
+      `/api/categories/${technology}/posts?page=-1&limit=500&depth=x`
+    );
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).errors).toEqual([
+      { path: "page", message: "Must be an integer of at least 1" },
+      { path: "limit", message: "Must be an integer between 1 and 100" },
+      { path: "depth", message: "Must be an integer between 0 and 2" },
+    ]);
+    expect(
+      (await rest("GET", `/api/categories/${technology}/posts?limit=1`)).status
+    ).toBe(200);
+  });
+
+  it("file the posts listed on them", async () => {
+    const design = await fixtureId("categories", "design");
+    const id = await fixtureId("posts", "notes-on-the-analytical-engine");
+    const category = await payload.findByID({
+      collection: "categories",
+      id: design,
+      depth: 0,
+    });
+
+    await payload.update({
+      collection: "categories",
+      id: design,
+      data: { posts: [...(category.posts ?? []), id] as number[] },
+    });
+
+    const post = await payload.findByID({ collection: "posts", id, depth: 0 });
+    const { docs: versions } = await payload.findVersions({
+      collection: "posts",
+      where: { parent: { equals: id } },
+      sort: "-updatedAt",
+      limit: 1,
+      depth: 0,
+    });
+    expect(post.categories).toContain(design);
+    expect(versions[0].version.categories).toContain(design);
+  });
+});
+
+describe("search index", () => {
+  it("picks up new posts and forgets deleted ones", async () => {
+    const search = async () =>
+      (await rest("GET", "/api/search?q=zeppelin", { as: "admin" })).json();
+
+    const post = await createPost({ title: "Zeppelin Field Notes" });
+    expect((await search()).docs).toEqual([
+      expect.objectContaining({ title: "Zeppelin Field Notes" }),
+    ]);
+
+    await payload.delete({ collection: "posts", id: post.id });
+    expect((await search()).totalDocs).toBe(0);
+  });
+
+  it("links each entry to the page in its locale", async () => {
+    const { docs } = await payload.find({
+      collection: "search-index",
+      where: {
+        title: { in: ["Getting Started with Payload", "Payload 入门"] },
+      },
+      sort: "locale",
+      depth: 0,
+    });
+
+    expect(docs.map(({ locale, url }) => [locale, url])).toEqual([
+      ["en", "/posts/getting-started-with-payload"],
+      ["zh", "/zh/posts/getting-started-with-payload"],
+    ]);
+  });
+});
+
+describe("audit log", () => {
+  it("records who changed which fields", async () => {
+    const id = await fixtureId("posts", "designing-for-two-languages");
+    await payload.update({
+      collection: "posts",
+      id,
+      data: { excerpt: "A shorter excerpt" },
+      user: await userOf("editor"),
+      overrideAccess: false,
+    });
+
+    const { docs } = await payload.find({
+      collection: "audit-logs",
+      where: {
+        and: [
+          { collectionSlug: { equals: "posts" } },
+          { documentId: { equals: String(id) } },
+          { operation: { equals: "update" } },
+        ],
+      },
+      sort: "-createdAt",
+      limit: 1,
+    });
+    expect(docs[0]).toMatchObject({
+      userEmail: "editor@example.com",
+      changedFields: "excerpt",
+    });
+  });
+});
@@ -0,0 +1,324 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { fixtureId, getTestPayload, resetDatabase, rest } from "./harness";
+
+// The custom endpoints on the posts collection: /api/posts/stats,
+// /api/posts/bulk and /api/posts/publish-all
+
+beforeEach(async () => {
+  await resetDatabase();
+});
+
+describe("GET /api/posts/stats", () => {
+  it("counts the seeded posts", async () => {
+    const response = await rest("GET", "/api/posts/stats");
+    const stats = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(stats).toMatchObject({
+      total: 5,
+      published: 4,
+      draft: 1,
+      archived: 0,
+      uncategorized: 0,
+    });
+    expect(stats.byAuthor).toContainEqual(
+      expect.objectContaining({ name: "Grace Hopper", total: 2, published: 1 })
+    );
+    expect(stats.localeCompleteness).toContainEqual(
+      expect.objectContaining({ locale: "zh", complete: 4, missing: 1 })
+    );
+  });
+
+  it("serves repeated requests from the cache until a post changes", async () => {
+    await rest("GET", "/api/posts/stats");
+    expect(await (await rest("GET", "/api/posts/stats")).json()).toMatchObject({
+      cached: true,
+    });
+
+    const payload = await getTestPayload();
+    await payload.update({
+      collection: "posts",
+      id: await fixtureId("posts", "upcoming-release-notes"),
+      data: { _status: "published" },
+    });
+
+    expect(await (await rest("GET", "/api/posts/stats")).json()).toMatchObject({
+      cached: false,
+      published: 5,
+      draft: 0,
+    });
+  });
+
+  it("keeps a bounded number of ranges cached", async () => {
+    const statsFrom = async (day: number) => {
+      const from = new Date(Date.UTC(2025, 0, day))
+        .toISOString()
+        .slice(0, 10);
+      const response = await rest(
+        "GET",
+        `/api/posts/stats?interval=month&from=${from}`
+      );
+      return (await response.json()).cached;
+    };
+
+    await statsFrom(1);
+    expect(await statsFrom(1)).toBe(true);
+    for (let day = 2; day <= 51; day++) await statsFrom(day);
+
+    expect(await statsFrom(1)).toBe(false);
+    expect(await statsFrom(51)).toBe(true);
+  });
+
+  it("buckets the publishing timeline by month", async () => {
+    const response = await rest(
+      "GET",
+      "/api/posts/stats?interval=month&from=2025-01-01&to=2025-04-30"
+    );
+    const { publishedOverTime } = await response.json();
+
+    expect(publishedOverTime.series).toEqual([
+      { period: "2025-01", count: 1 },
+      { period: "2025-02", count: 1 },
+      { period: "2025-03", count: 1 },
+      { period: "2025-04", count: 1 },
+    ]);
+  });
+
+  it("rejects an unknown interval", async () => {
+    const response = await rest("GET", "/api/posts/stats?interval=year");
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).errors).toContainEqual(
+      expect.objectContaining({ path: "interval" })
+    );
+  });
+});
+
+describe("POST /api/posts/publish-all", () => {
+  it("requires a signed-in user", async () => {
+    const response = await rest("POST", "/api/posts/publish-all");
+    expect(response.status).toBe(401);
+  });
+
+  it("only reports what would change on a dry run", async () => {
+    const response = await rest("POST", "/api/posts/publish-all", {
+      as: "admin",
+      body: { dryRun: true },
+    });
+    const result = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(result).toMatchObject({
+      publishedCount: 0,
+      dryRun: true,
+      matched: 1,
+      summary: { "would-update": 1 },
+    });
+
+    const payload = await getTestPayload();
+    const { totalDocs } = await payload.count({
+      collection: "posts",
+      where: { _status: { equals: "draft" } },
+    });
+    expect(totalDocs).toBe(1);
+  });
+
+  it("publishes every draft and stamps publishedOn", async () => {
+    const response = await rest("POST", "/api/posts/publish-all", {
+      as: "editor",
+    });
+    const result = await response.json();
+
+    expect(result).toMatchObject({
+      message: "Published 1 posts",
+      publishedCount: 1,
+    });
+
+    const payload = await getTestPayload();
+    const post = await payload.findByID({
+      collection: "posts",
+      id: await fixtureId("posts", "upcoming-release-notes"),
+    });
+    expect(post._status).toBe("published");
+    expect(post.publishedOn).toBeTruthy();
+  });
+
+  it("leaves archived and unpublished posts offline", async () => {
+    const payload = await getTestPayload();
+    const archived = await fixtureId("posts", "designing-for-two-languages");
+    const unpublished = await fixtureId(
+      "posts",
+      "notes-on-the-analytical-engine"
+    );
+    await payload.update({
+      collection: "posts",
+      id: archived,
+      data: { _status: "draft", archived: true },
+    });
+    await payload.update({
+      collection: "posts",
+      id: unpublished,
+      data: { _status: "draft" },
+    });
+
+    const response = await rest("POST", "/api/posts/publish-all", {
+      as: "admin",
+    });
+    expect(await response.json()).toMatchObject({
+      publishedCount: 1,
+      matched: 1,
+    });
+
+    const { docs } = await payload.find({
+      collection: "posts",
+      where: { id: { in: [archived, unpublished] } },
+      sort: "id",
+    });
+    expect(docs.map(({ _status, archived }) => [_status, archived])).toEqual([
+      ["draft", true],
+      ["draft", false],
+    ]);
+  });
+
+  it("publishes a draft whose publish date was filled in by hand", async () => {
+    const payload = await getTestPayload();
+    const id = await fixtureId("posts", "upcoming-release-notes");
+    await payload.update({
+      collection: "posts",
+      id,
+      data: { publishedOn: "2024-01-01T00:00:00.000Z" },
+      draft: true,
+    });
+
+    const response = await rest("POST", "/api/posts/publish-all", {
+      as: "admin",
+    });
+    expect(await response.json()).toMatchObject({ publishedCount: 1 });
+
+    const post = await payload.findByID({ collection: "posts", id });
+    expect(post._status).toBe("published");
+  });
+
+  it("skips drafts an author may not update", async () => {
+    // The draft is Grace Hopper's; the seeded author writes as Ada Lovelace
+    const response = await rest("POST", "/api/posts/publish-all", {
+      as: "author",
+    });
+    const result = await response.json();
+
+    expect(result).toMatchObject({
+      publishedCount: 0,
+      summary: { forbidden: 1 },
+    });
+  });
+});
+
+describe("POST /api/posts/bulk", () => {
+  it("lists every invalid field", async () => {
+    const response = await rest("POST", "/api/posts/bulk", {
+      as: "admin",
+      body: { action: "delete", batchSize: 0 },
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.errors.map(({ path }: { path: string }) => path)).toEqual([
+      "action",
+      "where",
+      "batchSize",
+    ]);
+  });
+
+  it("rejects an unknown category", async () => {
+    const response = await rest("POST", "/api/posts/bulk", {
+      as: "admin",
+      body: { action: "add-category", ids: [1], categoryId: 999 },
+    });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).errors).toEqual([
+      { path: "categoryId", message: "No document with ID 999" },
+    ]);
+  });
+
+  it("archives the selected posts", async () => {
+    const ids = [
+      await fixtureId("posts", "getting-started-with-payload"),
+      await fixtureId("posts", "designing-for-two-languages"),
+    ];
+    const response = await rest("POST", "/api/posts/bulk", {
+      as: "editor",
+      body: { action: "archive", ids },
+    });
+
+    expect(await response.json()).toMatchObject({
+      matched: 2,
+      summary: { updated: 2 },
+    });
+
+    const payload = await getTestPayload();
+    const { docs } = await payload.find({
+      collection: "posts",
+      where: { id: { in: ids } },
+    });
+    for (const post of docs) {
+      expect(post).toMatchObject({ archived: true, _status: "draft" });
+    }
+  });
+
+  it("leaves reassigning authors to admins and editors", async () => {
+    // Ada Lovelace's own post, which the seeded author may otherwise update
+    const id = await fixtureId("posts", "a-translation-workflow-that-scales");
+    const response = await rest("POST", "/api/posts/bulk", {
+      as: "author",
+      body: {
+        action: "reassign-author",
+        ids: [id],
+        authorId: await fixtureId("authors", "Grace Hopper"),
+      },
+    });
+    expect(response.status).toBe(403);
+
+    const payload = await getTestPayload();
+    const post = await payload.findByID({ collection: "posts", id, depth: 0 });
+    expect(post.author).toBe(await fixtureId("authors", "Ada Lovelace"));
+  });
+
+  it("reports the batches applied before a failing one", async () => {
+    const payload = await getTestPayload();
+    const valid = await fixtureId("posts", "upcoming-release-notes");
+    // Drafts skip validation; publishing it fails on the canonical URL
+    const invalid = await payload.create({
+      collection: "posts",
+      data: {
+        title: "Broken Canonical",
+        slug: "",
+        author: await fixtureId("authors", "Ada Lovelace"),
+        seo: { canonicalURL: "not a url" },
+      },
+      draft: true,
+    });
+
+    const response = await rest("POST", "/api/posts/bulk", {
+      as: "admin",
+      body: { action: "publish", ids: [valid, invalid.id], batchSize: 1 },
+    });
+
+    expect(await response.json()).toMatchObject({
+      partial: true,
+      committedBatches: [{ from: 1, to: 1, ids: [valid] }],
+      summary: { updated: 1, failed: 1 },
+    });
+  });
+
+  it("reports posts that don't exist", async () => {
+    const response = await rest("POST", "/api/posts/bulk", {
+      as: "admin",
+      body: { action: "publish", ids: [999] },
+    });
+
+    expect(await response.json()).toMatchObject({
+      results: [{ id: 999, status: "not-found" }],
+    });
+  });
+});
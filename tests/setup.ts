@@ -0,0 +1,15 @@
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterAll } from "vitest";
+
+// Runs before each test file imports anything, so payload.config.ts picks
+// up a database of the file's own. The schema is pushed on first connect.
+const dir = mkdtempSync(join(tmpdir(), "payload-test-"));
+
+process.env.DATABASE_URL = `file:${join(dir, "payload.sqlite")}`;
+process.env.DISABLE_JOBS_AUTORUN = "true";
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
@@ -0,0 +1,104 @@
+import { readdirSync } from "node:fs";
+import path from "node:path";
+import { beforeEach, describe, expect, it } from "vitest";
+import type { Payload } from "payload";
+import { DEFAULT_LOCALE, parseLocale } from "@/lib/localized-paths";
+import { collectSitemapURLs } from "@/lib/sitemap";
+import { fixtureId, resetDatabase, SERVER_URL } from "./harness";
+
+// lib/sitemap.ts, the URLs behind /sitemap.xml
+
+let payload: Payload;
+
+beforeEach(async () => {
+  payload = await resetDatabase();
+});
+
+const urlsOf = async (slug: string) =>
+  (await collectSitemapURLs(payload, SERVER_URL)).filter(({ loc }) =>
+    loc.endsWith(`/posts/${slug}`)
+  );
+
+// The public pages as patterns over the path below the locale, e.g.
+// "[locale]/posts/[slug]/page.tsx" matches "/posts/hello"
+const LOCALE_ROUTES = path.join(process.cwd(), "app/(frontend)/[locale]");
+const pageRoutes = (readdirSync(LOCALE_ROUTES, { recursive: true }) as string[])
+  .filter((file) => path.basename(file) === "page.tsx")
+  .map((file) => {
+    const segments = path.dirname(file).split(path.sep).filter((s) => s !== ".");
+    const pattern = segments
+      .map((segment) => (segment.startsWith("[") ? "[^/]+" : segment))
+      .join("/");
+    return new RegExp(`^/${pattern}$`);
+  });
+
+// Where middleware.ts sends a sitemap URL: a locale and the path below it
+const routeOf = (href: string) => {
+  const { pathname } = new URL(href);
+  const [, prefix, ...rest] = pathname.split("/");
+  const locale = parseLocale(prefix);
+  return locale
+    ? { locale, path: `/${rest.join("/")}` }
+    : { locale: DEFAULT_LOCALE, path: pathname };
+};
+
+describe("collectSitemapURLs", () => {
+  it("only links to pages that exist", async () => {
+    const hrefs = (await collectSitemapURLs(payload, SERVER_URL)).flatMap(
+      ({ loc, alternates }) => [loc, ...alternates.map(({ href }) => href)]
+    );
+
+    expect(hrefs.some((href) => routeOf(href).locale !== DEFAULT_LOCALE)).toBe(
+      true
+    );
+    for (const href of hrefs) {
+      const route = routeOf(href);
+      expect(
+        pageRoutes.some((pattern) => pattern.test(route.path)),
+        href
+      ).toBe(true);
+    }
+  });
+
+  it("lists a post once per locale with hreflang alternates", async () => {
+    const urls = await urlsOf("getting-started-with-payload");
+
+    expect(urls.map(({ loc }) => loc)).toEqual([
+      `${SERVER_URL}/posts/getting-started-with-payload`,
+      `${SERVER_URL}/zh/posts/getting-started-with-payload`,
+    ]);
+    expect(urls[0].alternates.map(({ hreflang }) => hreflang)).toEqual([
+      "en",
+      "zh",
+      "x-default",
+    ]);
+  });
+
+  it("leaves a post out of the locales it is hidden from search in", async () => {
+    await payload.update({
+      collection: "posts",
+      id: await fixtureId("posts", "getting-started-with-payload"),
+      data: { seo: { noindex: true } },
+      locale: "zh",
+    });
+    await payload.update({
+      collection: "posts",
+      id: await fixtureId("posts", "designing-for-two-languages"),
+      data: { seo: { noindex: true } },
+      locale: "en",
+    });
+
+    expect(await urlsOf("getting-started-with-payload")).toEqual([
+      expect.objectContaining({
+        loc: `${SERVER_URL}/posts/getting-started-with-payload`,
+        alternates: [],
+      }),
+    ]);
+    expect(await urlsOf("designing-for-two-languages")).toEqual([
+      expect.objectContaining({
+        loc: `${SERVER_URL}/zh/posts/designing-for-two-languages`,
+        alternates: [],
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,50 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import { fixtureId, getTestPayload, resetDatabase, rest } from "./harness";
+
+// POST /api/translation-status/translate with the default mock provider
+
+const PATH = "/api/translation-status/translate";
+
+beforeEach(async () => {
+  await resetDatabase();
+});
+
+describe("POST /api/translation-status/translate", () => {
+  it("translates the fields missing in the target locale", async () => {
+    // Ada Lovelace's post, written in English only
+    const id = await fixtureId("posts", "notes-on-the-analytical-engine");
+    const response = await rest("POST", PATH, {
+      as: "author",
+      body: { collection: "posts", id, to: "zh" },
+    });
+    const result = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(result).toMatchObject({ from: "en", to: "zh", saved: false });
+    expect(Object.keys(result.values)).toContain("title");
+  });
+
+  it("refuses documents the user may read but not update", async () => {
+    // Alan Turing's post; the seeded author writes as Ada Lovelace
+    const id = await fixtureId("posts", "designing-for-two-languages");
+    const response = await rest("POST", PATH, {
+      as: "author",
+      body: { collection: "posts", id, to: "zh", fields: ["excerpt"] },
+    });
+    expect(response.status).toBe(403);
+
+    const payload = await getTestPayload();
+    const { docs } = await payload.find({
+      collection: "translation-status",
+      where: {
+        and: [
+          { collectionSlug: { equals: "posts" } },
+          { documentId: { equals: String(id) } },
+        ],
+      },
+    });
+    for (const entry of docs) {
+      expect(entry.machineTranslations ?? {}).toEqual({});
+    }
+  });
+});
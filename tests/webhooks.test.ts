@@ -0,0 +1,59 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { getTestPayload, resetDatabase, rest } from "./harness";
+
+// POST /api/webhooks/:id/ping and POST /api/webhook-deliveries/:id/redeliver
+
+beforeAll(async () => {
+  await resetDatabase();
+});
+
+describe("POST /api/webhooks/:id/ping", () => {
+  it("queues a test delivery", async () => {
+    const payload = await getTestPayload();
+    const webhook = await payload.create({
+      collection: "webhooks",
+      data: {
+        name: "Receiver",
+        url: "http://localhost:4000/webhooks",
+        events: ["post.published"],
+        secret: "test-secret",
+      },
+    });
+
+    const response = await rest("POST", `/api/webhooks/${webhook.id}/ping`, {
+      as: "admin",
+    });
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).delivery).toMatchObject({ event: "ping" });
+  });
+
+  it("rejects an ID that isn't one", async () => {
+    const response = await rest("POST", "/api/webhooks/abc/ping", {
+      as: "admin",
+    });
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).errors).toEqual([
+      { path: "id", message: "Must be a positive integer" },
+    ]);
+  });
+
+  it("reports an unknown webhook", async () => {
+    const response = await rest("POST", "/api/webhooks/999/ping", {
+      as: "admin",
+    });
+    expect(response.status).toBe(404);
+  });
+});
+
+describe("POST /api/webhook-deliveries/:id/redeliver", () => {
+  it("rejects an ID that isn't one", async () => {
+    const response = await rest(
+      "POST",
+      "/api/webhook-deliveries/1.5/redeliver",
+      { as: "admin" }
+    );
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,19 @@
+import tsconfigPaths from "vite-tsconfig-paths";
+import { defineConfig } from "vitest/config";
+
+// Integration tests: every test file boots payload.config.ts against its own
+// temporary SQLite database (see tests/setup.ts)
+export default defineConfig({
+  plugins: [tsconfigPaths()],
+  test: {
+    environment: "node",
+    include: ["tests/**/*.test.ts"],
+    setupFiles: ["tests/setup.ts"],
+    // One Payload instance and database per file; files run one at a time
+    fileParallelism: false,
+    // Hook and endpoint logging only for failing tests
+    silent: "passed-only",
+    testTimeout: 30_000,
+    hookTimeout: 120_000,
+  },
+});